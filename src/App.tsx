@@ -1,23 +1,135 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Tabs, TabList, Tab, TabPanel } from "react-tabs";
 import "react-tabs/style/react-tabs.css";
 import ElectricityDashboard from "./ElectricityDashboard";
 import RatedCapacity from "./RatedCapacity";
 import LatestNews from "./LatestNews";
 import LatestReports from "./LatestReports";
+import Correlations, { type CorrelationSeries } from "./Correlations";
+import GenerationMix from "./GenerationMix";
+import IndexedComparison, { type IndexedSeries } from "./IndexedComparison";
+import {
+  MONTH_NAMES,
+  WEEKDAY_NAMES,
+  loadCalendarSettings,
+  saveCalendarSettings,
+  type CalendarSettings,
+} from "./calendarSettings";
+import { createCEAFetcher } from "./ceaFetcher";
+import { SOURCES, SOURCE_COLORS } from "./sources";
+import { TAB_SLUGS, onUrlChange, tabIndexFromUrl, writeUrlParams } from "./urlState";
+
+// Base URL serving CEA daily generation reports (dgr_DD-MM-YYYY.csv). Point it at a
+// reverse proxy in production or at a local mock server during development.
+const CEA_REPORTS_BASE_URL = "/cea/daily-generation";
+
+const ceaFetcher = createCEAFetcher({ baseUrl: CEA_REPORTS_BASE_URL, includeRE: true });
+
+// Daily series joined by the Correlations tab (same CSVs as the dashboard tabs below)
+const DAILY_SERIES: CorrelationSeries[] = [
+  { key: "generation", label: "Generation", unitLabel: "MU", csvPath: "/data/generation.csv" },
+  { key: "demand", label: "Peak Demand Met", unitLabel: "GW", csvPath: "/data/Peak Demand.csv" },
+  { key: "supply", label: "Supply", unitLabel: "MU", csvPath: "/data/supply.csv" },
+  { key: "coal-plf", label: "Coal PLF", unitLabel: "%", csvPath: "/data/Coal PLF.csv" },
+  { key: "rtm-prices", label: "RTM Prices", unitLabel: "Rs/Unit", csvPath: "/data/RTM Prices.csv" },
+];
+
+// Indexed Comparison: the daily series plus installed capacity per source (monthly, capacity.csv)
+const INDEXED_SERIES: IndexedSeries[] = [
+  ...DAILY_SERIES.map((s, i) => ({ ...s, color: ["#dc2626", "#7c3aed", "#db2777", "#92400e", "#0891b2"][i % 5] })),
+  {
+    key: "capacity-total",
+    label: "Total capacity",
+    unitLabel: "GW",
+    csvPath: "/data/capacity.csv",
+    valueColumn: SOURCES.map((src) => `[${src}]`).join("+"),
+    stock: true,
+    color: "#0f172a",
+  },
+  ...SOURCES.map((src) => ({
+    key: `capacity-${src.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+    label: `${src} capacity`,
+    unitLabel: "GW",
+    csvPath: "/data/capacity.csv",
+    valueColumn: `[${src}]`,
+    stock: true,
+    color: SOURCE_COLORS[src],
+  })),
+];
 
 export default function App() {
+  // Selected tab lives in the URL (?tab=rtm-prices) so links open the right view
+  const [tabIndex, setTabIndex] = useState(tabIndexFromUrl);
+
+  useEffect(() => onUrlChange(() => setTabIndex(tabIndexFromUrl())), []);
+
+  // Year / week definitions shared by every tab
+  const [calendar, setCalendar] = useState<CalendarSettings>(loadCalendarSettings);
+
+  useEffect(() => saveCalendarSettings(calendar), [calendar]);
+
+  const selectClass = "rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700";
+
+  function selectTab(index: number) {
+    if (index === tabIndex) return;
+    setTabIndex(index);
+    writeUrlParams(new URLSearchParams({ tab: TAB_SLUGS[index] }), "push");
+  }
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div className="mx-auto max-w-7xl px-4 pt-4">
-        <Tabs>
+        <div className="flex flex-wrap items-center justify-end gap-2 text-xs text-slate-600">
+          <span>Years:</span>
+          <select
+            value={calendar.yearMode}
+            onChange={(e) => setCalendar((c) => ({ ...c, yearMode: e.target.value === "calendar" ? "calendar" : "fiscal" }))}
+            className={selectClass}
+          >
+            <option value="fiscal">Fiscal (FY)</option>
+            <option value="calendar">Calendar (CY)</option>
+          </select>
+          {calendar.yearMode === "fiscal" ? (
+            <>
+              <span>FY starts</span>
+              <select
+                value={calendar.fyStartMonth}
+                onChange={(e) => setCalendar((c) => ({ ...c, fyStartMonth: Number(e.target.value) }))}
+                className={selectClass}
+              >
+                {MONTH_NAMES.map((m, i) => (
+                  <option key={m} value={i + 1}>
+                    1 {m}
+                  </option>
+                ))}
+              </select>
+            </>
+          ) : null}
+          <span className="ml-2">Weeks start</span>
+          <select
+            value={calendar.weekStart}
+            onChange={(e) => setCalendar((c) => ({ ...c, weekStart: Number(e.target.value) }))}
+            className={selectClass}
+          >
+            {WEEKDAY_NAMES.map((d, i) => (
+              <option key={d} value={i}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Tabs selectedIndex={tabIndex} onSelect={selectTab}>
           <div className="mt-2">
             <TabList>
               <Tab>Generation</Tab>
+              <Tab>Generation Mix</Tab>
               <Tab>Peak Demand Met</Tab>
               <Tab>Supply</Tab>
               <Tab>Coal PLF</Tab>
               <Tab>RTM Prices</Tab>
+              <Tab>Correlations</Tab>
+              <Tab>Indexed Comparison</Tab>
               <Tab>Rated Capacity</Tab>
               <Tab>Latest News</Tab>
               <Tab>Latest Reports</Tab>
@@ -34,6 +146,9 @@ export default function App() {
               valueColumnKey="generation_gwh"
               defaultCsvPath="/data/generation.csv"
               enableAutoFetch={true}
+              autoFetcher={ceaFetcher}
+              enableForecast={true}
+              calendar={calendar}
               calcMode="sum"
               valueDisplay={{
                 suffix: " MU",
@@ -42,6 +157,10 @@ export default function App() {
             />
           </TabPanel>
 
+          <TabPanel>
+            <GenerationMix calendar={calendar} />
+          </TabPanel>
+
           <TabPanel>
             <ElectricityDashboard
               type="demand"
@@ -52,6 +171,8 @@ export default function App() {
               valueColumnKey="demand_gwh"
               defaultCsvPath="/data/Peak Demand.csv"
               enableAutoFetch={false}
+              enableForecast={true}
+              calendar={calendar}
               calcMode="avg"
               valueDisplay={{
                 suffix: " GW",
@@ -70,6 +191,7 @@ export default function App() {
               valueColumnKey="supply_gwh"
               defaultCsvPath="/data/supply.csv"
               enableAutoFetch={false}
+              calendar={calendar}
               calcMode="sum"
               valueDisplay={{
                 suffix: " MU",
@@ -88,7 +210,9 @@ export default function App() {
               valueColumnKey="coal_plf"
               defaultCsvPath="/data/Coal PLF.csv"
               enableAutoFetch={false}
+              calendar={calendar}
               calcMode="avg"
+              defaultRollingWindow={90}
               valueDisplay={{
                 suffix: "%",
                 decimals: 2,
@@ -106,7 +230,10 @@ export default function App() {
               valueColumnKey="rtm_price"
               defaultCsvPath="/data/RTM Prices.csv"
               enableAutoFetch={false}
+              enableForecast={true}
+              calendar={calendar}
               calcMode="avg"
+              defaultRollingWindow={7}
               valueDisplay={{
                 suffix: " Rs/Unit",
                 decimals: 2,
@@ -114,6 +241,18 @@ export default function App() {
             />
           </TabPanel>
 
+          <TabPanel>
+            <Correlations series={DAILY_SERIES} />
+          </TabPanel>
+
+          <TabPanel>
+            <IndexedComparison
+              series={INDEXED_SERIES}
+              defaultSelected={["generation", "supply", "demand", "capacity-total"]}
+              calendar={calendar}
+            />
+          </TabPanel>
+
           <TabPanel>
             <RatedCapacity />
           </TabPanel>
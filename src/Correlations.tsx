@@ -0,0 +1,451 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { csvParse } from "./ElectricityDashboard";
+import {
+  crossCorrelation,
+  laggedCorrelation,
+  overlapRange,
+  pairSeries,
+  rollingCorrelation,
+  transformSeries,
+  type SeriesMap,
+  type SeriesTransform,
+} from "./correlation";
+import { isoMinusDays } from "./dates";
+
+/**
+ * Correlations Tab
+ * - Loads every daily series configured in App.tsx from its default CSV
+ * - Lagged correlation matrix (pick a lag; X on day d vs Y on day d + lag)
+ * - Scatter + cross-correlation + rolling 90-day correlation for one pair
+ */
+
+export type CorrelationSeries = {
+  key: string;
+  label: string;
+  unitLabel: string;
+  csvPath: string;
+  /** Column or expression for wide CSVs, as in ElectricityDashboardProps.valueColumn. */
+  valueColumn?: string;
+};
+
+const ROLLING_WINDOW_DAYS = 90;
+const MAX_LAG_DAYS = 30;
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function fmtR(r: number | null | undefined) {
+  if (r == null || Number.isNaN(r)) return "—";
+  return `${r > 0 ? "+" : ""}${r.toFixed(2)}`;
+}
+
+// Diverging fill: emerald for positive, rose for negative, intensity = |r|
+function corrCellStyle(r: number | null): React.CSSProperties {
+  if (r == null) return { backgroundColor: "#f8fafc" };
+  const a = Math.min(1, Math.abs(r)) * 0.75;
+  return {
+    backgroundColor: r >= 0 ? `rgba(4, 120, 87, ${a})` : `rgba(190, 18, 60, ${a})`,
+    color: Math.abs(r) > 0.5 ? "#ffffff" : "#0f172a",
+  };
+}
+
+function Card({
+  title,
+  right,
+  children,
+}: {
+  title: string;
+  right?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
+      <div className="flex items-start justify-between gap-3 border-b border-slate-100 p-4">
+        <div className="text-sm font-semibold text-slate-800">{title}</div>
+        {right ? <div className="text-sm text-slate-600">{right}</div> : null}
+      </div>
+      <div className="p-4">{children}</div>
+    </div>
+  );
+}
+
+export default function Correlations({ series }: { series: CorrelationSeries[] }) {
+  const [raw, setRaw] = useState<Record<string, SeriesMap>>({});
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [transform, setTransform] = useState<SeriesTransform>("level");
+  const [lag, setLag] = useState(0);
+  const [rangeDays, setRangeDays] = useState(730);
+
+  const [xKey, setXKey] = useState(() => series.find((s) => s.key === "coal-plf")?.key ?? series[0]?.key ?? "");
+  const [yKey, setYKey] = useState(() => series.find((s) => s.key === "rtm-prices")?.key ?? series[1]?.key ?? "");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadAll() {
+      setLoading(true);
+      const errs: string[] = [];
+      const next: Record<string, SeriesMap> = {};
+
+      await Promise.all(
+        series.map(async (s) => {
+          try {
+            const res = await fetch(`${encodeURI(s.csvPath)}?v=${Date.now()}`);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const { parsed } = csvParse(await res.text(), s.valueColumn);
+            if (!parsed.length) throw new Error("no rows");
+            next[s.key] = new Map(parsed.map((r) => [r.date, r.value] as const));
+          } catch {
+            errs.push(`Could not load ${s.label} (${s.csvPath}).`);
+            next[s.key] = new Map();
+          }
+        })
+      );
+
+      if (cancelled) return;
+      setRaw(next);
+      setLoadErrors(errs);
+      setLoading(false);
+    }
+
+    loadAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [series]);
+
+  const transformed = useMemo(() => {
+    const out: Record<string, SeriesMap> = {};
+    for (const s of series) out[s.key] = transformSeries(raw[s.key] ?? new Map(), transform);
+    return out;
+  }, [raw, series, transform]);
+
+  // Last N days of the span where every loaded series overlaps
+  const span = useMemo(() => {
+    const overlap = overlapRange(Object.values(transformed));
+    if (!overlap) return null;
+    const from = rangeDays > 0 ? isoMinusDays(overlap.to, rangeDays - 1) : overlap.from;
+    return { from: from > overlap.from ? from : overlap.from, to: overlap.to };
+  }, [transformed, rangeDays]);
+
+  const matrix = useMemo(() => {
+    if (!span) return [];
+    return series.map((a) =>
+      series.map((b) => laggedCorrelation(transformed[a.key], transformed[b.key], lag, span.from, span.to))
+    );
+  }, [series, transformed, lag, span]);
+
+  const xSeries = series.find((s) => s.key === xKey);
+  const ySeries = series.find((s) => s.key === yKey);
+
+  const scatterData = useMemo(() => {
+    if (!span || !xSeries || !ySeries) return [];
+    return pairSeries(transformed[xSeries.key], transformed[ySeries.key], lag, span.from, span.to);
+  }, [span, xSeries, ySeries, transformed, lag]);
+
+  const pairR = useMemo(() => {
+    const i = series.findIndex((s) => s.key === xKey);
+    const j = series.findIndex((s) => s.key === yKey);
+    return matrix[i]?.[j]?.r ?? null;
+  }, [series, matrix, xKey, yKey]);
+
+  const ccf = useMemo(() => {
+    if (!span || !xSeries || !ySeries) return [];
+    return crossCorrelation(transformed[xSeries.key], transformed[ySeries.key], MAX_LAG_DAYS, span.from, span.to);
+  }, [span, xSeries, ySeries, transformed]);
+
+  const bestLag = useMemo(() => {
+    let best: { lag: number; r: number } | null = null;
+    for (const p of ccf) {
+      if (p.r == null) continue;
+      if (!best || Math.abs(p.r) > Math.abs(best.r)) best = { lag: p.lag, r: p.r };
+    }
+    return best;
+  }, [ccf]);
+
+  const rolling = useMemo(() => {
+    if (!span || !xSeries || !ySeries) return [];
+    return rollingCorrelation(
+      transformed[xSeries.key],
+      transformed[ySeries.key],
+      lag,
+      span.from,
+      span.to,
+      ROLLING_WINDOW_DAYS
+    ).map((p) => ({ label: formatDDMMYYYY(p.date), r: p.r }));
+  }, [span, xSeries, ySeries, transformed, lag]);
+
+  const unitFor = (s: CorrelationSeries | undefined) => (transform === "level" ? s?.unitLabel ?? "" : "%");
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="mx-auto max-w-7xl px-4 py-8">
+        <div>
+          <div className="text-2xl font-semibold text-slate-900">Cross-metric Correlations</div>
+          <div className="mt-1 text-sm text-slate-600">
+            Lagged correlations, scatter plots and rolling {ROLLING_WINDOW_DAYS}-day correlations across all daily series
+          </div>
+        </div>
+
+        {loadErrors.length ? (
+          <div className="mt-4 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
+            <ul className="list-disc pl-5">
+              {loadErrors.map((e, i) => (
+                <li key={i}>{e}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {/* Controls */}
+        <div className="mt-6 rounded-2xl bg-white p-3 shadow-sm ring-1 ring-slate-200">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div>
+              <div className="text-xs font-medium text-slate-600">Transform</div>
+              <select
+                value={transform}
+                onChange={(e) => setTransform(e.target.value as SeriesTransform)}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              >
+                <option value="level">Levels</option>
+                <option value="dod_pct">Day-over-day change %</option>
+                <option value="yoy_pct">YoY % (same day last year)</option>
+              </select>
+            </div>
+
+            <div>
+              <div className="text-xs font-medium text-slate-600">Lag (days, Y after X)</div>
+              <input
+                type="number"
+                min={-MAX_LAG_DAYS}
+                max={MAX_LAG_DAYS}
+                value={lag}
+                onChange={(e) => {
+                  const n = Math.round(Number(e.target.value));
+                  if (Number.isFinite(n)) setLag(Math.min(MAX_LAG_DAYS, Math.max(-MAX_LAG_DAYS, n)));
+                }}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300 tabular-nums"
+              />
+            </div>
+
+            <div>
+              <div className="text-xs font-medium text-slate-600">Range</div>
+              <select
+                value={rangeDays}
+                onChange={(e) => setRangeDays(Number(e.target.value))}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              >
+                <option value={365}>Last 12 months</option>
+                <option value={730}>Last 24 months</option>
+                <option value={1825}>Last 5 years</option>
+                <option value={0}>Full overlap</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-2 text-[11px] text-slate-500">
+            {span
+              ? `Common window: ${formatDDMMYYYY(span.from)} to ${formatDDMMYYYY(span.to)}. `
+              : ""}
+            A positive lag pairs X on day d with Y on day d + lag (X leads Y).
+          </div>
+        </div>
+
+        {/* Matrix */}
+        <div className="mt-6">
+          <Card title={`Correlation matrix (lag ${lag > 0 ? "+" : ""}${lag}d)`} right="Click a cell to inspect the pair">
+            {loading ? (
+              <div className="text-sm text-slate-600">Loading series…</div>
+            ) : !span ? (
+              <div className="text-sm text-slate-600">The loaded series do not overlap in time.</div>
+            ) : (
+              <div className="overflow-auto rounded-xl ring-1 ring-slate-200">
+                <table className="w-full border-collapse bg-white text-left text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">X \ Y</th>
+                      {series.map((s) => (
+                        <th key={s.key} className="px-3 py-2 text-right text-xs font-semibold text-slate-600">
+                          {s.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {series.map((a, i) => (
+                      <tr key={a.key} className="border-t border-slate-100">
+                        <td className="px-3 py-2 font-medium text-slate-900">{a.label}</td>
+                        {series.map((b, j) => {
+                          const cell = matrix[i]?.[j];
+                          const selected = a.key === xKey && b.key === yKey;
+                          return (
+                            <td key={b.key} className="p-1">
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setXKey(a.key);
+                                  setYKey(b.key);
+                                }}
+                                title={cell ? `n = ${cell.n}` : undefined}
+                                style={corrCellStyle(cell?.r ?? null)}
+                                className={`w-full rounded-lg px-2 py-1 text-right font-semibold tabular-nums ${
+                                  selected ? "ring-2 ring-slate-900" : ""
+                                }`}
+                              >
+                                {fmtR(cell?.r)}
+                              </button>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </div>
+
+        {/* Pair detail */}
+        <div className="mt-6 grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <Card
+            title="Scatter"
+            right={
+              <div className="flex items-center gap-2">
+                <select
+                  value={xKey}
+                  onChange={(e) => setXKey(e.target.value)}
+                  className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700"
+                >
+                  {series.map((s) => (
+                    <option key={s.key} value={s.key}>
+                      X: {s.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={yKey}
+                  onChange={(e) => setYKey(e.target.value)}
+                  className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700"
+                >
+                  {series.map((s) => (
+                    <option key={s.key} value={s.key}>
+                      Y: {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            }
+          >
+            {!scatterData.length ? (
+              <div className="text-sm text-slate-600">No overlapping days for this pair.</div>
+            ) : (
+              <>
+                <div className="h-[320px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ top: 10, right: 18, bottom: 24, left: 12 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        type="number"
+                        dataKey="x"
+                        name={xSeries?.label}
+                        domain={["auto", "auto"]}
+                        tick={{ fontSize: 12 }}
+                        label={{ value: `${xSeries?.label} (${unitFor(xSeries)})`, position: "insideBottom", offset: -12, fontSize: 12 }}
+                      />
+                      <YAxis
+                        type="number"
+                        dataKey="y"
+                        name={ySeries?.label}
+                        domain={["auto", "auto"]}
+                        tick={{ fontSize: 12 }}
+                      />
+                      <Tooltip
+                        cursor={{ strokeDasharray: "3 3" }}
+                        formatter={(v: any, n: any) => [Number(v).toFixed(2), String(n)]}
+                        labelFormatter={() => ""}
+                      />
+                      <Scatter data={scatterData} fill="#dc2626" fillOpacity={0.45} />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="mt-2 text-xs text-slate-600">
+                  {scatterData.length} paired days · r = {fmtR(pairR)}
+                  {" · "}Y axis: {ySeries?.label} ({unitFor(ySeries)})
+                </div>
+              </>
+            )}
+          </Card>
+
+          <Card
+            title={`Cross-correlation (±${MAX_LAG_DAYS}d)`}
+            right={bestLag ? `Strongest: ${fmtR(bestLag.r)} at ${bestLag.lag > 0 ? "+" : ""}${bestLag.lag}d` : null}
+          >
+            {!ccf.length ? (
+              <div className="text-sm text-slate-600">No overlapping days for this pair.</div>
+            ) : (
+              <div className="h-[340px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={ccf} margin={{ top: 10, right: 18, bottom: 10, left: 12 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="lag" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[-1, 1]} tick={{ fontSize: 12 }} />
+                    <ReferenceLine y={0} stroke="#000000" />
+                    <ReferenceLine x={lag} stroke="#2563eb" strokeDasharray="6 4" />
+                    <Tooltip
+                      formatter={(v: any) => [fmtR(v == null ? null : Number(v)), "r"]}
+                      labelFormatter={(l: any) => `Lag ${l}d`}
+                    />
+                    <Line type="monotone" dataKey="r" dot={false} strokeWidth={2} stroke="#16a34a" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </Card>
+        </div>
+
+        <div className="mt-6">
+          <Card title={`Rolling ${ROLLING_WINDOW_DAYS}-day correlation: ${xSeries?.label ?? "—"} vs ${ySeries?.label ?? "—"}`}>
+            {!rolling.some((p) => p.r != null) ? (
+              <div className="text-sm text-slate-600">Not enough overlapping days for a rolling correlation.</div>
+            ) : (
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={rolling} margin={{ top: 10, right: 18, bottom: 10, left: 12 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                    <YAxis domain={[-1, 1]} tick={{ fontSize: 12 }} />
+                    <ReferenceLine y={0} stroke="#000000" />
+                    <Tooltip formatter={(v: any) => [fmtR(v == null ? null : Number(v)), "r"]} />
+                    <Line type="monotone" dataKey="r" dot={false} strokeWidth={2} stroke="#dc2626" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <div className="mt-3 text-xs text-slate-600">
+              Each point is the correlation over the trailing {ROLLING_WINDOW_DAYS} days; windows with fewer than 60% paired
+              days are left blank.
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
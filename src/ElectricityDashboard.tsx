@@ -1,10 +1,13 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
+  Area,
   Bar,
   BarChart,
   CartesianGrid,
+  ComposedChart,
   Legend,
   Line,
+  ReferenceArea,
   LineChart,
   ReferenceLine,
   ResponsiveContainer,
@@ -12,6 +15,130 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import {
+  ANNOTATION_CATEGORIES,
+  annotationColor,
+  annotationOverlays,
+  annotationsToJSON,
+  loadAnnotations,
+  mergeAnnotations,
+  newAnnotationId,
+  parseAnnotationsJSON,
+  saveAnnotations,
+  sortAnnotations,
+  type Annotation,
+  type AnnotationCategory,
+  type AnnotationOverlay,
+  type ChartPeriod,
+} from "./annotations";
+import {
+  BASELINE_YEARS_AGO,
+  DEFAULT_BASELINE,
+  baselineMean,
+  baselineShortLabel,
+  baselineYearOffsets,
+  growthLabel,
+  isDefaultBaseline,
+  loadBaseline,
+  saveBaseline,
+  type Baseline,
+} from "./baseline";
+import {
+  DEFAULT_CALENDAR,
+  MONTH_NAMES,
+  startOfWeekIso,
+  weekdayOffset,
+  yearMonthOrder,
+  yearPrefix,
+  yearSpanLabel,
+  yearStartMonth,
+  type CalendarSettings,
+} from "./calendarSettings";
+import type { DailySeriesFetcher } from "./ceaFetcher";
+import { buildChartSVG, copyChartToClipboard, downloadBlob, svgToPngBlob, type ChartCaption } from "./chartExport";
+import { parseCSV } from "./csv";
+import {
+  DATA_LAYER_LABELS,
+  addedOverrides,
+  effectiveSeries,
+  emptyLayers,
+  legacyPinsDocName,
+  stillPinned,
+  underlyingValue,
+  withLayerRows,
+  withLegacyCopy,
+  withUserValues,
+  withoutOverrides,
+  type DataLayer,
+  type DataLayers,
+} from "./dataLayers";
+import { dataHealthReport, findDuplicates, type DataIssue, type DataIssueKind } from "./dataQuality";
+import { isoMinusDays, isoPlusDays, localTodayIso, parseInputDate, parseISOKey } from "./dates";
+import { decomposeDaily, type ResidualStats } from "./decomposition";
+import {
+  DEFAULT_EDITOR,
+  JOURNAL_ACTION_LABELS,
+  MAX_JOURNAL_ENTRIES,
+  applyChanges,
+  describeJournalEntry,
+  diffSeries,
+  formatJournalTime,
+  loadEditorName,
+  loadJournal,
+  newJournalId,
+  saveEditorName,
+  saveJournal,
+  stateAfterEntry,
+  type JournalAction,
+  type JournalEntry,
+} from "./editJournal";
+import { parseInputValue, pastedEntries } from "./entryGrid";
+import { fyEndIsoFromFYLabel, fyLabelFromIso, fyStartIsoFromFYLabel, isoAddYears, prevFYLabel } from "./fiscalYear";
+import {
+  BACKTEST_HORIZONS,
+  FORECAST_MODELS,
+  backtestModels,
+  forecastDaily,
+  type ForecastModel,
+} from "./forecast";
+import { FY_OVERLAY_COLORS, buildFYOverlay, type FYOverlayMode } from "./fyOverlay";
+import {
+  GAP_POLICIES,
+  aggregateRange,
+  windowAggregator,
+  type GapPolicy,
+  type RangeAggregate,
+  type SeriesBounds,
+} from "./gapPolicy";
+import {
+  IMPORT_STRATEGY_LABELS,
+  buildImportPreview,
+  resolveImport,
+  takesIncoming,
+  type ImportPreview,
+  type ImportRowStatus,
+  type ImportStrategy,
+} from "./importPreview";
+import { ROLLING_WINDOWS, emaSeries, rollingMedianSeries } from "./rolling";
+import {
+  compileSeriesExpression,
+  missingColumns,
+  normalizeColumnName,
+  type SeriesExpression,
+} from "./seriesExpression";
+import {
+  formatBytes,
+  loadDoc,
+  loadSeries,
+  saveDoc,
+  saveSeries,
+  storageErrorMessage,
+  storageStatus,
+  type SeriesSpec,
+  type StorageStatus,
+} from "./seriesStore";
+import { dashboardUrlParams, onUrlChange, readDashboardUrlState, readUrlParams, writeUrlParams } from "./urlState";
+import { buildXlsx, type XlsxSheet } from "./xlsx";
 
 /* -----------------------------
    Helpers
@@ -21,50 +148,6 @@ function clamp(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, n));
 }
 
-function parseISOKey(s: string) {
-  const ok = /^\d{4}-\d{2}-\d{2}$/.test(s);
-  if (!ok) return null;
-  const d = new Date(s + "T00:00:00Z");
-  return Number.isNaN(d.getTime()) ? null : s;
-}
-
-// Parse DD/MM/YYYY -> ISO; also accept DD-MM-YYYY and ISO.
-function parseInputDate(s: unknown) {
-  if (typeof s !== "string") return null;
-  const t = s.trim();
-
-  // ✅ preferred: dd/mm/yyyy
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(t)) {
-    const [dd, mm, yyyy] = t.split("/").map(Number);
-    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
-    if (Number.isNaN(d.getTime())) return null;
-    if (
-      d.getUTCFullYear() !== yyyy ||
-      d.getUTCMonth() !== mm - 1 ||
-      d.getUTCDate() !== dd
-    )
-      return null;
-    return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-  }
-
-  // Back-compat: dd-mm-yyyy
-  if (/^\d{2}-\d{2}-\d{4}$/.test(t)) {
-    const [dd, mm, yyyy] = t.split("-").map(Number);
-    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
-    if (Number.isNaN(d.getTime())) return null;
-    if (
-      d.getUTCFullYear() !== yyyy ||
-      d.getUTCMonth() !== mm - 1 ||
-      d.getUTCDate() !== dd
-    )
-      return null;
-    return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-  }
-
-  if (/^\d{4}-\d{2}-\d{2}$/.test(t)) return parseISOKey(t);
-  return null;
-}
-
 function formatDDMMYYYY(iso: string) {
   // UI display format stays dd-mm-yyyy (no UI change)
   if (!iso || typeof iso !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
@@ -85,27 +168,6 @@ function formatDDMMYY(iso: string) {
   return `${d}/${m}/${y.slice(2)}`;
 }
 
-function isoMinusDays(iso: string, days: number) {
-  const d = new Date(iso + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() - days);
-  return d.toISOString().slice(0, 10);
-}
-
-function isoPlusDays(iso: string, days: number) {
-  const d = new Date(iso + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() + days);
-  return d.toISOString().slice(0, 10);
-}
-
-// Week starts Monday
-function startOfWeekISO(iso: string) {
-  const d = new Date(iso + "T00:00:00Z");
-  const dow = d.getUTCDay(); // 0=Sun,1=Mon...
-  const diffToMon = dow === 0 ? -6 : 1 - dow;
-  d.setUTCDate(d.getUTCDate() + diffToMon);
-  return d.toISOString().slice(0, 10);
-}
-
 function monthKey(isoDate: string) {
   return isoDate.slice(0, 7); // YYYY-MM
 }
@@ -167,41 +229,71 @@ function pctColorClass(x: number | null | undefined) {
 
 /* -----------------------------
    CSV parsing
-   - Accepts: date,<value> with any 2nd column name.
+   - Accepts: date,<value> with any 2nd column name (header optional).
+   - Wide CSVs (date,coal,hydro,solar,...): valueColumn picks a column or an
+     expression over columns (see ./seriesExpression). Files without those
+     columns are rejected, except the tab's own 2-column export (date,<exportColumn>),
+     so exports re-import cleanly but a different metric's file is never charted.
+   - Tokenising (quotes, BOM, delimiter) is handled by ./csv.
 ----------------------------- */
 
-function csvParse(text: string) {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
+export function csvParse(text: string, valueColumn?: string, exportColumn?: string) {
+  const { header, rows: allRows, errors: csvErrors } = parseCSV(text);
 
-  const rows: string[][] = [];
-  for (const line of lines) {
-    const cols = line.split(",").map((c) => c.trim());
-    if (cols.length >= 2) rows.push(cols);
-  }
+  const parsed: Array<{ date: string; value: number }> = [];
+  const errors: string[] = [...csvErrors];
+
+  let dateIdx = 0;
+  let valueOf = (cols: string[]) => {
+    const v = Number(String(cols[1]).replace(/,/g, ""));
+    return Number.isFinite(v) ? v : null;
+  };
+  let rawValueOf = (cols: string[]) => cols[1];
+
+  if (valueColumn && header) {
+    let expr: SeriesExpression;
+    try {
+      expr = compileSeriesExpression(valueColumn);
+    } catch (e) {
+      return { parsed, errors: [(e as Error).message] };
+    }
 
-  // Optional header: if col0 contains "date", drop it.
-  if (rows.length) {
-    const h0 = (rows[0][0] || "").toLowerCase();
-    if (h0.includes("date")) rows.shift();
+    const normHeader = header.map(normalizeColumnName);
+    const colIdx = new Map(normHeader.map((h, i) => [h, i] as const));
+    const missing = missingColumns(expr, header);
+
+    if (!missing.length) {
+      const di = normHeader.findIndex((h) => h.includes("date"));
+      dateIdx = di >= 0 ? di : 0;
+      valueOf = (cols) =>
+        expr.evaluate((c) => {
+          const cell = cols[colIdx.get(c)!];
+          if (cell == null || cell === "") return null;
+          const n = Number(cell.replace(/,/g, ""));
+          return Number.isFinite(n) ? n : null;
+        });
+      rawValueOf = (cols) => expr.columns.map((c) => `${c}=${cols[colIdx.get(c)!] ?? ""}`).join(", ");
+    } else if (header.length !== 2 || !exportColumn || normHeader[1] !== normalizeColumnName(exportColumn)) {
+      return {
+        parsed,
+        errors: [`Missing column(s) for '${valueColumn}': ${missing.join(", ")} (file has: ${header.join(", ")})`],
+      };
+    }
   }
 
-  const parsed: Array<{ date: string; value: number }> = [];
-  const errors: string[] = [];
+  const rows = allRows.filter((cols) => cols.length >= 2);
 
   for (let i = 0; i < rows.length; i++) {
-    const [dRaw, vRaw] = rows[i];
+    const dRaw = rows[i][dateIdx];
     const date = parseInputDate(dRaw);
-    const v = Number(String(vRaw).replace(/,/g, ""));
+    const v = valueOf(rows[i]);
 
     if (!date) {
       errors.push(`Row ${i + 1}: invalid date '${dRaw}' (expected DD/MM/YYYY)`);
       continue;
     }
-    if (!Number.isFinite(v)) {
-      errors.push(`Row ${i + 1}: invalid value '${vRaw}'`);
+    if (v == null) {
+      errors.push(`Row ${i + 1}: invalid value '${rawValueOf(rows[i])}'`);
       continue;
     }
     parsed.push({ date, value: v });
@@ -210,10 +302,24 @@ function csvParse(text: string) {
   return { parsed, errors };
 }
 
-function sampleCSV(valueColumnKey: string) {
+function sampleCSV(valueColumnKey: string, valueColumn?: string) {
   // ✅ sample uses dd/mm/yyyy
+  let columns: string[] = [];
+  try {
+    columns = valueColumn ? compileSeriesExpression(valueColumn).columns : [];
+  } catch {
+    columns = [];
+  }
+
+  if (columns.length > 1) {
+    return [
+      `date,${columns.join(",")}`,
+      ...["18/12/2025", "19/12/2025", "20/12/2025"].map((d, i) => `${d},${columns.map(() => 10 + i).join(",")}`),
+    ].join("\n");
+  }
+
   return [
-    `date,${valueColumnKey}`,
+    `date,${columns[0] ?? valueColumnKey}`,
     "18/12/2025,10",
     "19/12/2025,11",
     "20/12/2025,12",
@@ -250,6 +356,9 @@ type DailyChartPoint = {
   prev_year_units: number | null;
   yoy_pct: number | null;
   mom_pct: number | null; // weekly: WoW%, monthly: MoM%
+  completeness?: number | null; // % of days recorded in the aggregate
+  edited_note?: string | null; // daily: the day is a user edit (override layer)
+  prev_completeness?: number | null;
 };
 
 // Month map with sum+count (for avg mode)
@@ -276,81 +385,149 @@ function buildMonthAggMap(sortedDaily: DailyPoint[]) {
   return map;
 }
 
-function sumMonthUpToDay(monthRec: { byDaySum: Map<number, number> } | undefined, dayLimit: number) {
-  if (!monthRec) return null;
-  let s = 0;
-  let hasAny = false;
-  for (let day = 1; day <= dayLimit; day++) {
-    const v = monthRec.byDaySum.get(day);
-    if (v != null) {
-      s += v;
-      hasAny = true;
-    }
-  }
-  return hasAny ? s : null;
+// Same month `years` earlier, as yyyy-mm
+function monthYearsBack(ym: string, years: number) {
+  return `${getYear(ym) - years}-${String(getMonth(ym)).padStart(2, "0")}`;
 }
 
-function avgMonthFull(monthRec: { sum: number; count: number } | undefined) {
-  if (!monthRec || !monthRec.count) return null;
-  return monthRec.sum / monthRec.count;
+function monthEndIso(ym: string) {
+  return isoMinusDays(`${addMonths(ym, 1)}-01`, 1);
 }
 
-function toMonthlySumComparable(sortedDaily: DailyPoint[]) {
+// Gap-policy aggregate for any date range (see ./gapPolicy windowAggregator)
+type PeriodAggregator = (startIso: string, endIso: string) => RangeAggregate;
+
+function toMonthlySumComparable(
+  sortedDaily: DailyPoint[],
+  agg: PeriodAggregator,
+  baseline: Baseline = DEFAULT_BASELINE,
+  calendar: CalendarSettings = DEFAULT_CALENDAR
+) {
   // sum mode monthly logic with comparable day-window
-  const monthMap = buildMonthAggMap(sortedDaily);
-  const months = Array.from(monthMap.keys()).sort(sortISO);
-
-  const out = months.map((m) => ({
-    month: m,
-    value: monthMap.get(m)!.sum,
-    max_day: monthMap.get(m)!.maxDay,
-    yoy_pct: null as number | null,
-    mom_pct: null as number | null,
-  }));
-
-  for (const r of out) {
-    const prevMonth = addMonths(r.month, -1);
-    const prevMonthRec = monthMap.get(prevMonth);
-    const prevComparableMoM = sumMonthUpToDay(prevMonthRec, r.max_day);
-    r.mom_pct = prevComparableMoM != null ? growthPct(r.value, prevComparableMoM) : null;
-
-    const prevYearMonth = `${getYear(r.month) - 1}-${String(getMonth(r.month)).padStart(2, "0")}`;
-    const prevYearRec = monthMap.get(prevYearMonth);
-    const prevComparableYoY = sumMonthUpToDay(prevYearRec, r.max_day);
-    r.yoy_pct = prevComparableYoY != null ? growthPct(r.value, prevComparableYoY) : null;
-  }
+  const months = Array.from(new Set(sortedDaily.map((d) => monthKey(d.date)))).sort(sortISO);
+  if (!months.length) return [];
+  const has = new Set(months);
+  const lastIso = sortedDaily[sortedDaily.length - 1].date;
+
+  // Day 1 .. `day` of a month (capped at its last day); null for a month without records
+  const sumUpToDay = (ym: string, day: string) => {
+    if (!has.has(ym)) return null;
+    const end = `${ym}-${day}`;
+    return agg(`${ym}-01`, end < monthEndIso(ym) ? end : monthEndIso(ym)).sum;
+  };
 
-  return out;
+  return months.map((m) => {
+    const end = monthEndIso(m) < lastIso ? monthEndIso(m) : lastIso;
+    const curr = agg(`${m}-01`, end);
+    const value = curr.sum ?? 0;
+    const day = end.slice(8, 10);
+
+    const prevComparableMoM = sumUpToDay(addMonths(m, -1), day);
+    const prevComparableYoY = baselineMean(baselineYearOffsets(baseline, `${m}-01`, calendar), (k) =>
+      sumUpToDay(monthYearsBack(m, k), day)
+    );
+
+    return {
+      month: m,
+      value,
+      yoy_pct: prevComparableYoY != null ? growthPct(value, prevComparableYoY) : null,
+      mom_pct: prevComparableMoM != null ? growthPct(value, prevComparableMoM) : null,
+      completeness: curr.completeness,
+    };
+  });
 }
 
-function toMonthlyAvgFull(sortedDaily: DailyPoint[]) {
-  // avg mode: full month average; YoY vs full month last year avg; MoM vs previous month avg
-  const monthMap = buildMonthAggMap(sortedDaily);
-  const months = Array.from(monthMap.keys()).sort(sortISO);
+function toMonthlyAvgFull(
+  sortedDaily: DailyPoint[],
+  agg: PeriodAggregator,
+  baseline: Baseline = DEFAULT_BASELINE,
+  calendar: CalendarSettings = DEFAULT_CALENDAR
+) {
+  // avg mode: full month average; YoY vs full month baseline avg; MoM vs previous month avg
+  const months = Array.from(new Set(sortedDaily.map((d) => monthKey(d.date)))).sort(sortISO);
+  const has = new Set(months);
+  const monthAvg = (ym: string) => (has.has(ym) ? agg(`${ym}-01`, monthEndIso(ym)).avg : null);
 
   return months.map((m) => {
-    const currAvg = avgMonthFull(monthMap.get(m)) ?? 0;
+    const curr = agg(`${m}-01`, monthEndIso(m));
+    const currAvg = curr.avg ?? 0;
 
-    const prevMonth = addMonths(m, -1);
-    const prevAvg = avgMonthFull(monthMap.get(prevMonth));
-
-    const prevYearMonth = `${getYear(m) - 1}-${String(getMonth(m)).padStart(2, "0")}`;
-    const prevYearAvg = avgMonthFull(monthMap.get(prevYearMonth));
+    const prevAvg = monthAvg(addMonths(m, -1));
+    const prevYearAvg = baselineMean(baselineYearOffsets(baseline, `${m}-01`, calendar), (k) =>
+      monthAvg(monthYearsBack(m, k))
+    );
 
     return {
       month: m,
       value: currAvg,
       yoy_pct: prevYearAvg != null ? growthPct(currAvg, prevYearAvg) : null,
       mom_pct: prevAvg != null ? growthPct(currAvg, prevAvg) : null,
+      completeness: curr.completeness,
     };
   });
 }
 
+/* -----------------------------
+   Stored series (IndexedDB via ./seriesStore), one per data layer (see ./dataLayers)
+   - base / auto / override: `<type>:base`, `<type>:auto`, `<type>:override` (null = day deleted)
+   - legacy: the whole edited series older builds kept under `<type>` (localStorage
+     `tusk_india_<type>_v1`). Never used as a layer: the first default CSV load moves the
+     days where it differs into override, and it is emptied once that is saved. The days it
+     pinned are kept in the `legacy_pins:<type>` doc so they can be reset to base together.
+----------------------------- */
+
+// Journal source of the overrides taken over from the legacy copy
+const LEGACY_COPY_SOURCE = "pre-upgrade copy";
+
+function parseStoredDays<T>(obj: Record<string, unknown>, allowNull: boolean) {
+  const m = new Map<string, T>();
+  for (const [k, v] of Object.entries(obj)) {
+    const d = parseISOKey(k);
+    if (!d) continue;
+    if (v === null && allowNull) m.set(d, null as T);
+    else if (v !== null && Number.isFinite(Number(v))) m.set(d, Number(v) as T);
+  }
+  return m;
+}
+
+function layerSeriesSpecs(type: string) {
+  const base: SeriesSpec<number> = {
+    name: `${type}:base`,
+    legacyKey: `tusk_india_${type}_base_v1`,
+    parseLegacy: (obj) => parseStoredDays<number>(obj, false),
+  };
+  const auto: SeriesSpec<number> = {
+    name: `${type}:auto`,
+    legacyKey: `tusk_india_${type}_auto_v1`,
+    parseLegacy: (obj) => parseStoredDays<number>(obj, false),
+  };
+  const override: SeriesSpec<number | null> = {
+    name: `${type}:override`,
+    legacyKey: `tusk_india_${type}_override_v1`,
+    parseLegacy: (obj) => parseStoredDays<number | null>(obj, true),
+  };
+  const legacy: SeriesSpec<number> = {
+    name: type,
+    legacyKey: `tusk_india_${type}_v1`,
+    parseLegacy: (obj) => parseStoredDays<number>(obj, false),
+  };
+  return { base, auto, override, legacy };
+}
+
 /* -----------------------------
    KPIs
 ----------------------------- */
 
-function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
+type KPICompleteness = { curr: number | null; prev: number | null };
+
+function computeKPIs(
+  sortedDaily: DailyPoint[],
+  calcMode: "sum" | "avg",
+  gapPolicy: GapPolicy = "skip",
+  baseline: Baseline = DEFAULT_BASELINE,
+  calendar: CalendarSettings = DEFAULT_CALENDAR
+) {
+  const noCompleteness: KPICompleteness = { curr: null, prev: null };
   if (sortedDaily.length === 0) {
     return {
       latest: null as DailyPoint | null,
@@ -363,99 +540,70 @@ function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
       ytdYoY: null as number | null,
       mtdAvg: null as number | null,
       mtdYoY: null as number | null,
+      completeness: { avg7: noCompleteness, avg30: noCompleteness, ytd: noCompleteness, mtd: noCompleteness },
     };
   }
 
   const dailyLookup = new Map(sortedDaily.map((d) => [d.date, d.value] as const));
   const latest = sortedDaily[sortedDaily.length - 1];
 
-  const isoAddYears = (iso: string, deltaYears: number) => {
-    const y = Number(iso.slice(0, 4));
-    const m = Number(iso.slice(5, 7));
-    const d = Number(iso.slice(8, 10));
-    const tryDt = new Date(Date.UTC(y + deltaYears, m - 1, d));
-    if (
-      tryDt.getUTCFullYear() === y + deltaYears &&
-      tryDt.getUTCMonth() === m - 1 &&
-      tryDt.getUTCDate() === d
-    )
-      return tryDt.toISOString().slice(0, 10);
-    const lastDay = new Date(Date.UTC(y + deltaYears, m, 0));
-    return lastDay.toISOString().slice(0, 10);
-  };
-
-  const sumCountInclusive = (startIso: string, endIso: string) => {
-    if (startIso > endIso) return { sum: null as number | null, count: 0 };
-    let sum = 0;
-    let count = 0;
-    let cur = startIso;
-    while (cur <= endIso) {
-      const v = dailyLookup.get(cur);
-      if (v != null) {
-        sum += v;
-        count += 1;
-      }
-      cur = isoPlusDays(cur, 1);
-    }
-    return { sum: count ? sum : null, count };
-  };
+  const bounds: SeriesBounds = { firstIso: sortedDaily[0].date, lastIso: latest.date };
+  const agg = (startIso: string, endIso: string) => aggregateRange(dailyLookup, startIso, endIso, gapPolicy, bounds);
 
   const avgForLastNDaysEnding = (endIso: string, nDays: number) => {
     const startIso = isoMinusDays(endIso, nDays - 1);
-    const { sum, count } = sumCountInclusive(startIso, endIso);
-    return { startIso, endIso, avg: sum != null && count ? sum / count : null };
+    const a = agg(startIso, endIso);
+    return { startIso, endIso, avg: a.avg, completeness: a.completeness };
+  };
+
+  // Baseline years back (1 = previous year); every KPI is anchored on the latest day's year
+  const offsets = baselineYearOffsets(baseline, latest.date, calendar);
+  const baseAgg = (startIso: string, endIso: string) => {
+    const aggs = offsets.map((k) => agg(isoAddYears(startIso, -k), isoAddYears(endIso, -k)));
+    const mean = (pick: (a: ReturnType<typeof agg>) => number | null) => baselineMean(offsets, (k) => pick(aggs[offsets.indexOf(k)]));
+    return { sum: mean((a) => a.sum), avg: mean((a) => a.avg), completeness: mean((a) => a.completeness) };
   };
 
   // Latest YoY (same date)
-  const prevYearDate = isoAddYears(latest.date, -1);
-  const prevYearVal = dailyLookup.get(prevYearDate) ?? null;
+  const prevYearVal = baselineMean(offsets, (k) => dailyLookup.get(isoAddYears(latest.date, -k)));
   const latestYoY = prevYearVal != null ? growthPct(latest.value, prevYearVal) : null;
 
   // 7d avg + YoY on avg
   const last7 = avgForLastNDaysEnding(latest.date, 7);
-  const py7 = sumCountInclusive(isoAddYears(last7.startIso, -1), isoAddYears(last7.endIso, -1));
+  const py7 = baseAgg(last7.startIso, last7.endIso);
   const avg7 = last7.avg;
-  const avg7PY = py7.sum != null && py7.count ? py7.sum / py7.count : null;
+  const avg7PY = py7.avg;
   const avg7YoY = avg7 != null && avg7PY != null ? growthPct(avg7, avg7PY) : null;
 
   // 30d avg + YoY on avg
   const last30 = avgForLastNDaysEnding(latest.date, 30);
-  const py30 = sumCountInclusive(isoAddYears(last30.startIso, -1), isoAddYears(last30.endIso, -1));
+  const py30 = baseAgg(last30.startIso, last30.endIso);
   const avg30 = last30.avg;
-  const avg30PY = py30.sum != null && py30.count ? py30.sum / py30.count : null;
+  const avg30PY = py30.avg;
   const avg30YoY = avg30 != null && avg30PY != null ? growthPct(avg30, avg30PY) : null;
 
-  // FY window
-  const latestY = Number(latest.date.slice(0, 4));
-  const latestM = Number(latest.date.slice(5, 7));
-  const fyStartYear = latestM >= 4 ? latestY : latestY - 1;
-  const ytdStart = `${fyStartYear}-04-01`;
+  // Year window (FY or calendar year, per the calendar settings)
+  const ytdStart = fyStartIsoFromFYLabel(fyLabelFromIso(latest.date, calendar), calendar);
 
-  const ytd = sumCountInclusive(ytdStart, latest.date);
+  const ytd = agg(ytdStart, latest.date);
 
-  const ytdPYStart = `${fyStartYear - 1}-04-01`;
-  const ytdPYEnd = isoAddYears(latest.date, -1);
-  const ytdPY = sumCountInclusive(ytdPYStart, ytdPYEnd);
+  const ytdPY = baseAgg(ytdStart, latest.date);
 
   // SUM tabs: show YTD total
   // AVG tabs: show YTD average daily
-  const ytdValue =
-    calcMode === "sum" ? ytd.sum : (ytd.sum != null && ytd.count ? ytd.sum / ytd.count : null);
+  const ytdValue = calcMode === "sum" ? ytd.sum : ytd.avg;
 
-  const ytdValuePY =
-    calcMode === "sum"
-      ? ytdPY.sum
-      : (ytdPY.sum != null && ytdPY.count ? ytdPY.sum / ytdPY.count : null);
+  const ytdValuePY = calcMode === "sum" ? ytdPY.sum : ytdPY.avg;
 
   const ytdYoY = ytdValue != null && ytdValuePY != null ? growthPct(ytdValue, ytdValuePY) : null;
 
   // MTD avg (always avg)
   const thisMonthStart = `${latest.date.slice(0, 7)}-01`;
-  const mtd = sumCountInclusive(thisMonthStart, latest.date);
-  const mtdAvg = mtd.sum != null && mtd.count ? mtd.sum / mtd.count : null;
+  const mtd = agg(thisMonthStart, latest.date);
+  const mtdAvg = mtd.avg;
 
-  const mtdPY = sumCountInclusive(isoAddYears(thisMonthStart, -1), isoAddYears(latest.date, -1));
-  const mtdAvgPY = mtdPY.sum != null && mtdPY.count ? mtdPY.sum / mtdPY.count : null;
+  const mtdPY = baseAgg(thisMonthStart, latest.date);
+  const mtdAvgPY = mtdPY.avg;
   const mtdYoY = mtdAvg != null && mtdAvgPY != null ? growthPct(mtdAvg, mtdAvgPY) : null;
 
   return {
@@ -469,6 +617,12 @@ function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
     ytdYoY,
     mtdAvg,
     mtdYoY,
+    completeness: {
+      avg7: { curr: last7.completeness, prev: py7.completeness },
+      avg30: { curr: last30.completeness, prev: py30.completeness },
+      ytd: { curr: ytd.completeness, prev: ytdPY.completeness },
+      mtd: { curr: mtd.completeness, prev: mtdPY.completeness },
+    },
   };
 }
 
@@ -476,22 +630,89 @@ function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
    UI Components
 ----------------------------- */
 
+type CardExport = ChartCaption & { filename: string };
+
 function Card({
   title,
   children,
   right,
+  exportAs,
 }: {
   title: string;
   children: React.ReactNode;
   right?: React.ReactNode;
+  /** Adds SVG / PNG / Copy buttons for the charts inside the card. */
+  exportAs?: CardExport;
 }) {
+  const bodyRef = useRef<HTMLDivElement | null>(null);
+
   return (
     <div className="rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
       <div className="flex items-start justify-between gap-3 border-b border-slate-100 p-4">
         <div className="text-sm font-semibold text-slate-800">{title}</div>
-        {right ? <div className="text-sm text-slate-600">{right}</div> : null}
+        {right || exportAs ? (
+          <div className="flex flex-wrap items-center justify-end gap-2 text-sm text-slate-600">
+            {right}
+            {exportAs ? <ChartExportButtons targetRef={bodyRef} exportAs={exportAs} /> : null}
+          </div>
+        ) : null}
       </div>
-      <div className="p-4">{children}</div>
+      <div ref={bodyRef} className="p-4">
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function ChartExportButtons({
+  targetRef,
+  exportAs,
+}: {
+  targetRef: React.RefObject<HTMLDivElement>;
+  exportAs: CardExport;
+}) {
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!status) return;
+    const id = window.setTimeout(() => setStatus(null), 2500);
+    return () => window.clearTimeout(id);
+  }, [status]);
+
+  async function run(kind: "svg" | "png" | "copy") {
+    const el = targetRef.current;
+    const built = el ? buildChartSVG(el, exportAs) : null;
+    if (!built) {
+      setStatus("No chart to export.");
+      return;
+    }
+    try {
+      if (kind === "svg") {
+        downloadBlob(`${exportAs.filename}.svg`, new Blob([built.svg], { type: "image/svg+xml;charset=utf-8" }));
+      } else if (kind === "png") {
+        downloadBlob(`${exportAs.filename}.png`, await svgToPngBlob(built.svg, built.width, built.height));
+      } else {
+        const as = await copyChartToClipboard(built.svg, built.width, built.height);
+        setStatus(as === "png" ? "Copied image." : "Copied SVG markup.");
+      }
+    } catch (e) {
+      setStatus((e as Error)?.message || "Export failed.");
+    }
+  }
+
+  const btn = "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50";
+  return (
+    <div className="flex items-center gap-1">
+      <button type="button" onClick={() => run("svg")} className={btn} title="Download SVG">
+        SVG
+      </button>
+      <button type="button" onClick={() => run("png")} className={btn} title="Download PNG">
+        PNG
+      </button>
+      <button type="button" onClick={() => run("copy")} className={btn} title="Copy chart to clipboard">
+        Copy
+      </button>
+      {status ? <span className="text-xs text-slate-500">{status}</span> : null}
     </div>
   );
 }
@@ -500,16 +721,40 @@ function Stat({
   label,
   value,
   sub,
+  completeness,
 }: {
   label: string;
   value: string;
   sub?: React.ReactNode;
+  completeness?: KPICompleteness;
 }) {
   return (
     <div className="rounded-2xl bg-slate-50 p-4 ring-1 ring-slate-200">
       <div className="text-xs font-medium text-slate-500">{label}</div>
       <div className="mt-1 text-2xl font-semibold text-slate-900 tabular-nums">{value}</div>
       {sub ? <div className="mt-1">{sub}</div> : null}
+      {completeness ? <CompletenessNote value={completeness} /> : null}
+    </div>
+  );
+}
+
+function completenessText(x: number | null | undefined) {
+  return x == null ? "—" : `${Number(x.toFixed(1))}%`;
+}
+
+const DAYS_RECORDED_TITLE = "Share of the period's days with a recorded value (missing days follow the Missing days setting)";
+
+// Table cell for the share of days recorded: amber when days are missing
+function completenessCellClass(x: number | null | undefined) {
+  return `px-3 py-2 tabular-nums ${x != null && x < 100 ? "font-semibold text-amber-700" : "text-slate-500"}`;
+}
+
+// Amber when either side of a YoY comparison is missing days
+function CompletenessNote({ value }: { value: KPICompleteness }) {
+  const partial = (value.curr != null && value.curr < 100) || (value.prev != null && value.prev < 100);
+  return (
+    <div className={`mt-1 text-[11px] tabular-nums ${partial ? "font-semibold text-amber-700" : "text-slate-500"}`}>
+      Data: {completenessText(value.curr)} · PY {completenessText(value.prev)}
     </div>
   );
 }
@@ -523,10 +768,761 @@ function YoYSub({ value, suffix = "YoY" }: { value: number | null | undefined; s
   );
 }
 
+const ISSUE_LABELS: Record<DataIssueKind, string> = {
+  gap: "Missing dates",
+  duplicate: "Duplicate date",
+  outlier: "Outlier",
+  jump: "DoD jump",
+  parse: "Skipped row",
+};
+
+const ISSUE_BADGE: Record<DataIssueKind, string> = {
+  gap: "bg-slate-100 text-slate-700",
+  duplicate: "bg-amber-50 text-amber-800",
+  outlier: "bg-indigo-50 text-indigo-700",
+  jump: "bg-rose-50 text-rose-700",
+  parse: "bg-slate-900 text-white",
+};
+
+// Shared empty list while annotations are hidden, so the overlay memos keep their inputs
+const NO_ANNOTATIONS: Annotation[] = [];
+
+// Rows listed per group in the import preview; the merge covers all of them
+const IMPORT_PREVIEW_ROWS = 500;
+
+function parseIssues(errs: string[]): DataIssue[] {
+  return errs.map((message) => ({ kind: "parse" as const, message }));
+}
+
+/* -----------------------------
+   Entries grid (the "Recent entries" card)
+   - Newest first; only the rows in view are rendered, so the whole history stays scrollable
+   - Click / Shift-click / Ctrl-click select rows; Delete removes the selection
+   - Enter, F2, double-click or typing a number edits the value; Enter saves and moves down
+   - Paste (Ctrl/Cmd+V) takes tab-separated blocks from Excel or Google Sheets (see ./entryGrid)
+   - Edited days (override layer, see ./dataLayers) carry a badge and can be reset to base
+----------------------------- */
+
+const GRID_ROW_HEIGHT = 33;
+const GRID_HEIGHT = 420;
+const GRID_OVERSCAN = 10;
+
+function EntryGrid({
+  rows,
+  valueHeader,
+  fmtValue,
+  onSave,
+  onDelete,
+  onPaste,
+  editedNote,
+  onReset,
+}: {
+  /** Sorted oldest first, as sortedDaily. */
+  rows: DailyPoint[];
+  valueHeader: string;
+  fmtValue: (x: number | null | undefined) => string;
+  onSave: (iso: string, value: number) => void;
+  onDelete: (isos: string[]) => void;
+  onPaste: (text: string, anchorIso: string | null) => void;
+  /** Badge tooltip for an edited day, null for days straight from the source data. */
+  editedNote: (iso: string) => string | null;
+  onReset: (isos: string[]) => void;
+}) {
+  const data = useMemo(() => rows.slice().reverse(), [rows]);
+  const boxRef = useRef<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [cursor, setCursor] = useState(0);
+  const [anchor, setAnchor] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [editing, setEditing] = useState<{ iso: string; text: string; error: string | null } | null>(null);
+  // Set when Enter / Escape already finished the edit, so the input's blur does not save again
+  const editClosedRef = useRef(false);
+
+  // Rows removed elsewhere (delete, undo, import) drop out of the selection
+  useEffect(() => {
+    setSelected((prev) => {
+      if (!prev.size) return prev;
+      const dates = new Set(data.map((d) => d.date));
+      const next = new Set([...prev].filter((d) => dates.has(d)));
+      return next.size === prev.size ? prev : next;
+    });
+    setCursor((c) => clamp(c, 0, Math.max(0, data.length - 1)));
+  }, [data]);
+
+  const first = Math.max(0, Math.floor(scrollTop / GRID_ROW_HEIGHT) - GRID_OVERSCAN);
+  const last = Math.min(data.length, Math.ceil((scrollTop + GRID_HEIGHT) / GRID_ROW_HEIGHT) + GRID_OVERSCAN);
+
+  const focusGrid = () => boxRef.current?.focus({ preventScroll: true });
+
+  const scrollToRow = (i: number) => {
+    const box = boxRef.current;
+    if (!box) return;
+    const top = i * GRID_ROW_HEIGHT;
+    // header row sits on top of the first visible row
+    if (top < box.scrollTop) box.scrollTop = top;
+    else if (top + 2 * GRID_ROW_HEIGHT > box.scrollTop + box.clientHeight)
+      box.scrollTop = top + 2 * GRID_ROW_HEIGHT - box.clientHeight;
+  };
+
+  const rangeDates = (a: number, b: number) => data.slice(Math.min(a, b), Math.max(a, b) + 1).map((d) => d.date);
+
+  const moveTo = (i: number, extend: boolean) => {
+    if (!data.length) return;
+    const next = clamp(i, 0, data.length - 1);
+    setCursor(next);
+    if (extend) setSelected(new Set(rangeDates(anchor, next)));
+    else {
+      setAnchor(next);
+      setSelected(new Set([data[next].date]));
+    }
+    scrollToRow(next);
+  };
+
+  const toggleRow = (i: number) => {
+    const iso = data[i].date;
+    setCursor(i);
+    setAnchor(i);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(iso)) next.delete(iso);
+      else next.add(iso);
+      return next;
+    });
+  };
+
+  const clickRow = (i: number, e: React.MouseEvent) => {
+    const iso = data[i].date;
+    setCursor(i);
+    if (e.shiftKey) {
+      setSelected(new Set(rangeDates(anchor, i)));
+    } else if (e.metaKey || e.ctrlKey) {
+      toggleRow(i);
+    } else {
+      setAnchor(i);
+      setSelected(new Set([iso]));
+    }
+    focusGrid();
+  };
+
+  const startEdit = (i: number, text?: string) => {
+    const row = data[i];
+    if (!row) return;
+    setCursor(i);
+    editClosedRef.current = false;
+    setEditing({ iso: row.date, text: text ?? String(row.value), error: null });
+  };
+
+  const saveEdit = (move: number) => {
+    if (!editing) return;
+    const v = parseInputValue(editing.text);
+    if (v == null) {
+      setEditing({ ...editing, error: "Please enter a valid number." });
+      return;
+    }
+    onSave(editing.iso, v);
+    editClosedRef.current = true;
+    setEditing(null);
+    if (move) moveTo(cursor + move, false);
+    focusGrid();
+  };
+
+  const deleteSelection = () => {
+    const dates = selected.size ? [...selected] : data[cursor] ? [data[cursor].date] : [];
+    if (!dates.length) return;
+    onDelete(dates);
+    setSelected(new Set());
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editing) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      moveTo(cursor + (e.key === "ArrowDown" ? 1 : -1), e.shiftKey);
+    } else if (e.key === "PageDown" || e.key === "PageUp") {
+      e.preventDefault();
+      const page = Math.floor(GRID_HEIGHT / GRID_ROW_HEIGHT) - 1;
+      moveTo(cursor + (e.key === "PageDown" ? page : -page), e.shiftKey);
+    } else if (e.key === "Enter" || e.key === "F2") {
+      e.preventDefault();
+      startEdit(cursor);
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      deleteSelection();
+    } else if (e.key === "Escape") {
+      setSelected(new Set());
+    } else if ((e.key === "a" || e.key === "A") && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      setSelected(new Set(data.map((d) => d.date)));
+    } else if (/^[0-9.\-]$/.test(e.key) && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      e.preventDefault();
+      startEdit(cursor, e.key);
+    }
+  };
+
+  const allSelected = data.length > 0 && selected.size === data.length;
+  const selectedEdited = [...selected].filter((iso) => editedNote(iso) != null);
+
+  return (
+    <div>
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
+        <span>Double-click or Enter to edit · Shift/Ctrl-click to select · paste cells from Excel or Sheets</span>
+        {selected.size ? (
+          <div className="flex gap-2">
+            {selectedEdited.length ? (
+              <button
+                type="button"
+                onClick={() => onReset(selectedEdited)}
+                className="rounded-lg px-2 py-1 text-xs font-semibold text-amber-700 ring-1 ring-amber-200 hover:bg-amber-50"
+              >
+                Reset {selectedEdited.length} to base
+              </button>
+            ) : null}
+            <button
+              type="button"
+              onClick={deleteSelection}
+              className="rounded-lg px-2 py-1 text-xs font-semibold text-rose-700 ring-1 ring-rose-200 hover:bg-rose-50"
+            >
+              Delete {selected.size} selected
+            </button>
+          </div>
+        ) : null}
+      </div>
+      <div
+        ref={boxRef}
+        tabIndex={0}
+        role="grid"
+        aria-rowcount={data.length + 1}
+        aria-multiselectable="true"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onKeyDown={onKeyDown}
+        onPaste={(e) => {
+          if (editing) return;
+          const text = e.clipboardData.getData("text/plain");
+          if (!text) return;
+          e.preventDefault();
+          onPaste(text, data[cursor]?.date ?? null);
+        }}
+        className="overflow-auto rounded-xl ring-1 ring-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-400"
+        style={{ maxHeight: GRID_HEIGHT }}
+      >
+        <table className="w-full table-fixed border-collapse bg-white text-left text-sm">
+          <thead className="sticky top-0 z-10 bg-slate-50">
+            <tr style={{ height: GRID_ROW_HEIGHT }}>
+              <th className="w-8 px-2 py-1">
+                <input
+                  type="checkbox"
+                  aria-label="Select all rows"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(data.map((d) => d.date)))}
+                />
+              </th>
+              <th className="px-3 py-1 text-xs font-semibold text-slate-600">Date</th>
+              <th className="px-3 py-1 text-xs font-semibold text-slate-600">{valueHeader}</th>
+              <th className="w-14 px-2 py-1" aria-label="Source" />
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 ? <tr style={{ height: first * GRID_ROW_HEIGHT }} /> : null}
+            {data.slice(first, last).map((r, k) => {
+              const i = first + k;
+              const isSelected = selected.has(r.date);
+              const isEditing = editing?.iso === r.date;
+              const note = editedNote(r.date);
+              return (
+                <tr
+                  key={r.date}
+                  aria-selected={isSelected}
+                  onClick={(e) => clickRow(i, e)}
+                  onDoubleClick={() => startEdit(i)}
+                  className={`border-t border-slate-100 ${isSelected ? "bg-sky-50" : ""} ${
+                    i === cursor ? "outline outline-1 -outline-offset-1 outline-slate-400" : ""
+                  }`}
+                  style={{ height: GRID_ROW_HEIGHT }}
+                >
+                  <td className="w-8 px-2 py-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${formatDDMMYYYY(r.date)}`}
+                      checked={isSelected}
+                      onChange={() => toggleRow(i)}
+                    />
+                  </td>
+                  <td className="px-3 py-1 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
+                  <td className="px-3 py-1 text-slate-700">
+                    {isEditing && editing ? (
+                      <input
+                        autoFocus
+                        value={editing.text}
+                        onChange={(e) => setEditing({ ...editing, text: e.target.value, error: null })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            saveEdit(e.shiftKey ? -1 : 1);
+                          } else if (e.key === "Tab") {
+                            e.preventDefault();
+                            saveEdit(0);
+                          } else if (e.key === "Escape") {
+                            e.preventDefault();
+                            editClosedRef.current = true;
+                            setEditing(null);
+                            focusGrid();
+                          }
+                        }}
+                        onBlur={() => {
+                          if (editClosedRef.current) return;
+                          const v = parseInputValue(editing.text);
+                          if (v != null && v !== r.value) onSave(r.date, v);
+                          setEditing(null);
+                        }}
+                        title={editing.error ?? undefined}
+                        className={`w-full rounded border px-1 py-0.5 text-sm text-slate-900 ${
+                          editing.error ? "border-rose-400 bg-rose-50" : "border-slate-300"
+                        }`}
+                      />
+                    ) : (
+                      fmtValue(r.value)
+                    )}
+                  </td>
+                  <td className="w-14 px-2 py-1 text-right" onClick={(e) => e.stopPropagation()}>
+                    {note ? (
+                      <button
+                        type="button"
+                        title={`${note}. Click to reset this day to base.`}
+                        onClick={() => onReset([r.date])}
+                        className="rounded-full bg-amber-50 px-2 py-0.5 text-[10px] font-semibold text-amber-700 ring-1 ring-amber-200 hover:bg-amber-100"
+                      >
+                        edited ↺
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              );
+            })}
+            {last < data.length ? <tr style={{ height: (data.length - last) * GRID_ROW_HEIGHT }} /> : null}
+          </tbody>
+        </table>
+      </div>
+      {editing?.error ? <div className="mt-1 text-xs text-rose-700">{editing.error}</div> : null}
+    </div>
+  );
+}
+
+/* -----------------------------
+   Calendar heatmap
+   - One row per reporting year (FY or calendar year, per the calendar settings), one column
+     per week; days run top to bottom from the configured week start
+   - Days between the first and last record without a value are drawn as gaps
+   - Growth mode compares each day with the same date in the selected baseline years
+----------------------------- */
+
+type HeatmapMode = "value" | "yoy_pct";
+
+const HEAT_CELL = 11;
+const HEAT_GAP = 2;
+// Year label drawn inside each row's svg so exported images keep it
+const HEAT_LABEL_W = 48;
+
+function mixHex(a: string, b: string, t: number) {
+  const pa = [1, 3, 5].map((i) => parseInt(a.slice(i, i + 2), 16));
+  const pb = [1, 3, 5].map((i) => parseInt(b.slice(i, i + 2), 16));
+  const c = pa.map((x, i) => Math.round(x + (pb[i] - x) * clamp(t, 0, 1)));
+  return `#${c.map((x) => x.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function quantile(sorted: number[], q: number) {
+  if (!sorted.length) return 0;
+  return sorted[clamp(Math.floor(q * (sorted.length - 1)), 0, sorted.length - 1)];
+}
+
+function CalendarHeatmap({
+  years,
+  calendar,
+  firstIso,
+  lastIso,
+  lookup,
+  mode,
+  baseline,
+  yoyLabel,
+  fmtValue,
+  onPick,
+  dayNote,
+}: {
+  /** Year labels (FY25, CY25, …), one row each. */
+  years: string[];
+  calendar: CalendarSettings;
+  firstIso: string;
+  lastIso: string;
+  lookup: Map<string, number>;
+  mode: HeatmapMode;
+  baseline: Baseline;
+  /** Growth label for the baseline ("YoY", "vs 3Y avg", …). */
+  yoyLabel: string;
+  fmtValue: (x: number | null | undefined) => string;
+  onPick: (iso: string) => void;
+  /** Extra tooltip text for a day (e.g. edited). */
+  dayNote?: (iso: string) => string | null;
+}) {
+  const cellValue = (iso: string) => {
+    const v = lookup.get(iso);
+    if (v == null) return null;
+    if (mode === "value") return v;
+    const py = baselineMean(baselineYearOffsets(baseline, iso, calendar), (k) => lookup.get(isoAddYears(iso, -k)));
+    return py != null ? growthPct(v, py) : null;
+  };
+
+  // One row per reporting year; rows of the grid follow the configured week start
+  const rows = years.map((year) => {
+    const startIso = fyStartIsoFromFYLabel(year, calendar);
+    const endIso = fyEndIsoFromFYLabel(year, calendar);
+    const start = Date.parse(startIso + "T00:00:00Z");
+    const lead = weekdayOffset(startIso, calendar);
+    const dayIndex = (iso: string) => Math.round((Date.parse(iso + "T00:00:00Z") - start) / 86400000) + lead;
+    const days: Array<{ iso: string; col: number; row: number }> = [];
+    for (let iso = startIso; iso <= endIso; iso = isoPlusDays(iso, 1)) {
+      if (iso < firstIso || iso > lastIso) continue;
+      const idx = dayIndex(iso);
+      days.push({ iso, col: Math.floor(idx / 7), row: idx % 7 });
+    }
+    const monthCols = yearMonthOrder(calendar).map((m, i) => {
+      const y = Number(startIso.slice(0, 4)) + (i > 0 && m < yearStartMonth(calendar) ? 1 : 0);
+      return { month: m, col: Math.floor(dayIndex(`${y}-${String(m).padStart(2, "0")}-01`) / 7) };
+    });
+    return { year, days, monthCols };
+  });
+
+  const shown: number[] = [];
+  for (const r of rows) {
+    for (const d of r.days) {
+      const v = cellValue(d.iso);
+      if (v != null) shown.push(v);
+    }
+  }
+  shown.sort((a, b) => a - b);
+
+  // Clip the colour scale at the 2nd/98th percentile so a single spike does not wash out the rest
+  const lo = quantile(shown, 0.02);
+  const hi = quantile(shown, 0.98);
+  const yoyCap = Math.max(1, quantile(shown.map(Math.abs).sort((a, b) => a - b), 0.95));
+
+  const colorFor = (v: number | null) => {
+    if (v == null) return "#ffffff";
+    if (mode === "value") return mixHex("#fef3c7", "#b91c1c", hi > lo ? (v - lo) / (hi - lo) : 0.5);
+    return v >= 0 ? mixHex("#f8fafc", "#047857", v / yoyCap) : mixHex("#f8fafc", "#be123c", -v / yoyCap);
+  };
+
+  const width = HEAT_LABEL_W + 54 * (HEAT_CELL + HEAT_GAP);
+  const height = 14 + 7 * (HEAT_CELL + HEAT_GAP);
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <div className="min-w-max space-y-2">
+          {rows.map((r) => (
+            <div key={r.year}>
+              <svg width={width} height={height} role="img" aria-label={`Calendar ${r.year}`} data-chart-export>
+                <text x={0} y={26} fontSize={12} fontWeight={600} fill="#334155">
+                  {r.year}
+                </text>
+                {r.monthCols.map(({ month, col }) => (
+                  <text key={month} x={HEAT_LABEL_W + col * (HEAT_CELL + HEAT_GAP)} y={10} fontSize={9} fill="#64748b">
+                    {MONTH_NAMES[month - 1]}
+                  </text>
+                ))}
+                {r.days.map((d) => {
+                  const raw = lookup.get(d.iso);
+                  const v = cellValue(d.iso);
+                  const missing = raw == null;
+                  const title =
+                    `${formatDDMMYYYY(d.iso)}: ` +
+                    (missing
+                      ? "no data"
+                      : mode === "value"
+                        ? fmtValue(raw)
+                        : `${fmtValue(raw)} · ${yoyLabel} ${v == null ? "—" : `${v > 0 ? "+" : ""}${v.toFixed(2)}%`}`) +
+                    (!missing && dayNote?.(d.iso) ? ` · ${dayNote(d.iso)}` : "");
+                  return (
+                    <rect
+                      key={d.iso}
+                      x={HEAT_LABEL_W + d.col * (HEAT_CELL + HEAT_GAP)}
+                      y={14 + d.row * (HEAT_CELL + HEAT_GAP)}
+                      width={HEAT_CELL}
+                      height={HEAT_CELL}
+                      rx={2}
+                      fill={missing ? "#ffffff" : v == null ? "#e2e8f0" : colorFor(v)}
+                      stroke={missing ? "#94a3b8" : "none"}
+                      strokeDasharray={missing ? "2 1" : undefined}
+                      className="cursor-pointer hover:opacity-70"
+                      onClick={() => onPick(d.iso)}
+                    >
+                      <title>{title}</title>
+                    </rect>
+                  );
+                })}
+              </svg>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-xs text-slate-600">
+        <div className="flex items-center gap-2">
+          <span className="tabular-nums">{mode === "value" ? fmtValue(lo) : `-${yoyCap.toFixed(1)}%`}</span>
+          <span
+            className="inline-block h-3 w-32 rounded"
+            style={{
+              background:
+                mode === "value"
+                  ? "linear-gradient(to right, #fef3c7, #b91c1c)"
+                  : "linear-gradient(to right, #be123c, #f8fafc, #047857)",
+            }}
+          />
+          <span className="tabular-nums">{mode === "value" ? fmtValue(hi) : `+${yoyCap.toFixed(1)}%`}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-slate-400 bg-white" />
+          <span>No data</span>
+        </div>
+        {mode === "yoy_pct" ? (
+          <div className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm bg-slate-200" />
+            <span>No baseline value</span>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+/* -----------------------------
+   Annotation overlays
+   - Chart labels are dd-mm-yyyy (daily / rolling), "Wk of dd-mm-yyyy" or yyyy-mm
+----------------------------- */
+
+function labelPeriod(label: string): ChartPeriod | null {
+  let m = /^(?:Wk of )?(\d{2})-(\d{2})-(\d{4})$/.exec(label);
+  if (m) {
+    const iso = `${m[3]}-${m[2]}-${m[1]}`;
+    return { label, start: iso, end: label.startsWith("Wk of ") ? isoPlusDays(iso, 6) : iso };
+  }
+  m = /^(\d{4})-(\d{2})$/.exec(label);
+  if (m) return { label, start: `${label}-01`, end: isoMinusDays(`${addMonths(label, 1)}-01`, 1) };
+  return null;
+}
+
+function chartPeriods(data: Array<{ label?: string; month?: string }>) {
+  const out: ChartPeriod[] = [];
+  for (const d of data) {
+    const p = labelPeriod(String(d.label ?? d.month ?? ""));
+    if (p) out.push(p);
+  }
+  return out;
+}
+
+function annotationDates(a: Annotation) {
+  return a.end ? `${formatDDMMYYYY(a.start)} → ${formatDDMMYYYY(a.end)}` : formatDDMMYYYY(a.start);
+}
+
+// Small tag at the top of the line / band; the full label and dates show on hover
+function AnnotationFlag({ viewBox, annotation }: { viewBox?: { x: number; y: number; width?: number }; annotation: Annotation }) {
+  const [hover, setHover] = useState(false);
+  if (!viewBox) return null;
+  const color = annotationColor(annotation.category);
+  const x = viewBox.x + (viewBox.width ?? 0) / 2;
+  const y = viewBox.y + 2;
+  const short = annotation.label.length > 14 ? `${annotation.label.slice(0, 13)}…` : annotation.label;
+  const detail = `${annotation.label} · ${annotationDates(annotation)}`;
+  const detailW = detail.length * 6.2 + 12;
+
+  return (
+    <g onMouseEnter={() => setHover(true)} onMouseLeave={() => setHover(false)} style={{ cursor: "default" }}>
+      <title>{detail}</title>
+      <rect x={x - 3} y={y} width={6} height={6} fill={color} transform={`rotate(45 ${x} ${y + 3})`} />
+      {hover ? (
+        <g>
+          <rect x={x + 6} y={y - 2} width={detailW} height={18} rx={4} fill="#0f172a" opacity={0.9} />
+          <text x={x + 12} y={y + 11} fontSize={11} fill="#ffffff">
+            {detail}
+          </text>
+        </g>
+      ) : (
+        <text x={x + 7} y={y + 8} fontSize={10} fill={color}>
+          {short}
+        </text>
+      )}
+    </g>
+  );
+}
+
+function renderAnnotations(overlays: AnnotationOverlay[], opts: { yAxisId?: string; flags?: boolean } = {}) {
+  const { yAxisId, flags = true } = opts;
+  const axis = yAxisId ? { yAxisId } : {};
+  return overlays.map(({ annotation: a, x1, x2 }) => {
+    const color = annotationColor(a.category);
+    const label = flags ? <AnnotationFlag annotation={a} /> : undefined;
+    return x1 === x2 ? (
+      <ReferenceLine key={`ann-${a.id}`} {...axis} x={x1} stroke={color} strokeDasharray="4 3" ifOverflow="hidden" label={label} />
+    ) : (
+      <ReferenceArea
+        key={`ann-${a.id}`}
+        {...axis}
+        x1={x1}
+        x2={x2}
+        fill={color}
+        fillOpacity={0.1}
+        stroke={color}
+        strokeOpacity={0.3}
+        ifOverflow="hidden"
+        label={label}
+      />
+    );
+  });
+}
+
 /* -----------------------------
    Main Component
 ----------------------------- */
 
+type DecompositionChartPoint = {
+  label: string;
+  observed: number | null;
+  trend: number;
+  seasonal: number;
+  residual: number | null;
+  __outlier: number | null;
+  __mean_res: number | null;
+  __p1_res: number | null;
+  __p2_res: number | null;
+  __m1_res: number | null;
+  __m2_res: number | null;
+};
+
+function DecompositionCharts({
+  data,
+  stats,
+  fmtValue,
+  decimals,
+  annotations = [],
+}: {
+  data: DecompositionChartPoint[];
+  stats: ResidualStats | null;
+  fmtValue: (x: number | null | undefined) => string;
+  decimals: number;
+  annotations?: AnnotationOverlay[];
+}) {
+  if (!data.length) {
+    return <div className="text-sm text-slate-600">Need at least 14 days of data for a decomposition.</div>;
+  }
+
+  const tickFormatter = (v: any) => {
+    const n = asFiniteNumber(v);
+    if (n == null) return "—";
+    return new Intl.NumberFormat("en-IN", {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(Number(n.toFixed(decimals)));
+  };
+
+  const names: Record<string, string> = {
+    observed: "Observed",
+    trend: "Trend",
+    seasonal: "Seasonal",
+    residual: "Residual",
+    __outlier: "Outlier (beyond ±2σ)",
+    __mean_res: "Mean",
+    __p1_res: "+1σ",
+    __p2_res: "+2σ",
+    __m1_res: "-1σ",
+    __m2_res: "-2σ",
+  };
+
+  const tooltip = (
+    <Tooltip
+      wrapperStyle={{ outline: "none" }}
+      formatter={(v: any, name: any, item: any) => {
+        const key = (item && (item.dataKey as string)) || (name as string);
+        return [fmtValue(asFiniteNumber(v)), names[key] ?? String(name)];
+      }}
+      labelFormatter={(l: any) => `Label: ${l}`}
+    />
+  );
+
+  const margin = { top: 8, right: 42, bottom: 8, left: 42 };
+
+  return (
+    <div className="grid grid-cols-1 gap-3">
+      <div>
+        <div className="text-xs font-semibold text-slate-700">Observed &amp; trend</div>
+        <div className="h-[240px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} syncId="decomposition" margin={margin}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+              <YAxis width={92} tickMargin={10} domain={["auto", "auto"]} tick={{ fontSize: 12 }} tickFormatter={tickFormatter} />
+              {tooltip}
+              <Legend />
+              {renderAnnotations(annotations)}
+              <Line type="monotone" dataKey="observed" name="Observed" dot={false} strokeWidth={1} stroke="#6b7280" />
+              <Line type="monotone" dataKey="trend" name="Trend" dot={false} strokeWidth={2} stroke="#dc2626" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold text-slate-700">Seasonal</div>
+        <div className="h-[180px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} syncId="decomposition" margin={margin}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+              <YAxis width={92} tickMargin={10} domain={["auto", "auto"]} tick={{ fontSize: 12 }} tickFormatter={tickFormatter} />
+              {tooltip}
+              <ReferenceLine y={0} stroke="#94a3b8" />
+              {renderAnnotations(annotations, { flags: false })}
+              <Line type="monotone" dataKey="seasonal" name="Seasonal" dot={false} strokeWidth={2} stroke="#16a34a" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold text-slate-700">Residual</div>
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} syncId="decomposition" margin={margin}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+              <YAxis width={92} tickMargin={10} domain={["auto", "auto"]} tick={{ fontSize: 12 }} tickFormatter={tickFormatter} />
+              {tooltip}
+              <Legend />
+              {renderAnnotations(annotations, { flags: false })}
+              <Line type="monotone" dataKey="residual" name="Residual" dot={false} strokeWidth={1} stroke="#6b7280" />
+              {stats ? (
+                <>
+                  <Line type="monotone" dataKey="__mean_res" name="Mean" dot={false} strokeWidth={2} stroke="#000000" connectNulls />
+                  <Line type="monotone" dataKey="__p1_res" name="+1σ" dot={false} strokeWidth={2} stroke="#2563eb" strokeDasharray="6 4" connectNulls />
+                  <Line type="monotone" dataKey="__p2_res" name="+2σ" dot={false} strokeWidth={2} stroke="#4f46e5" strokeDasharray="6 4" connectNulls />
+                  <Line type="monotone" dataKey="__m1_res" name="-1σ" dot={false} strokeWidth={2} stroke="#f97316" strokeDasharray="6 4" connectNulls />
+                  <Line type="monotone" dataKey="__m2_res" name="-2σ" dot={false} strokeWidth={2} stroke="#eab308" strokeDasharray="6 4" connectNulls />
+                </>
+              ) : null}
+              <Line
+                type="monotone"
+                dataKey="__outlier"
+                name="Outlier (beyond ±2σ)"
+                stroke="none"
+                dot={{ r: 3, fill: "#dc2626", stroke: "#dc2626" }}
+                activeDot={{ r: 4 }}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export type ElectricityDashboardProps = {
   type: string;
   title: string;
@@ -534,19 +1530,45 @@ export type ElectricityDashboardProps = {
   seriesLabel: string;
   unitLabel: string;
   valueColumnKey: string;
+  /** Column name or expression over columns of a wide CSV (e.g. "solar+wind"); default: 2nd column. */
+  valueColumn?: string;
   defaultCsvPath: string;
   enableAutoFetch?: boolean;
+  autoFetcher?: DailySeriesFetcher;
+  /** Offer a 30–90 day forecast (dashed + interval) on the Daily view, with a backtest table. */
+  enableForecast?: boolean;
+  /** Initial window of the rolling views, one of ROLLING_WINDOWS (default 30). */
+  defaultRollingWindow?: number;
+  /** Year and week definitions shared by all tabs (default: Apr–Mar FY, weeks from Monday). */
+  calendar?: CalendarSettings;
   calcMode: "sum" | "avg";
   valueDisplay: { suffix: string; decimals: number };
 };
 
-// explicit view types
+// explicit view types; the rolling ones use the window from the Window select
 type ViewAs =
-  | "rolling30_avg"
+  | "rolling_avg"
   | "daily"
   | "weekly"
   | "monthly"
-  | "rolling30_sum";
+  | "rolling_sum"
+  | "rolling_median"
+  | "rolling_ema"
+  | "decomposition";
+
+const VIEW_AS_VALUES: ViewAs[] = [
+  "rolling_avg",
+  "daily",
+  "weekly",
+  "monthly",
+  "rolling_sum",
+  "rolling_median",
+  "rolling_ema",
+  "decomposition",
+];
+
+// Links shared before the window became configurable
+const LEGACY_VIEWS: Record<string, ViewAs> = { rolling30_avg: "rolling_avg", rolling30_sum: "rolling_sum" };
 
 export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   const {
@@ -556,13 +1578,18 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     seriesLabel,
     unitLabel,
     valueColumnKey,
+    valueColumn,
     defaultCsvPath,
     enableAutoFetch = false,
+    autoFetcher,
+    enableForecast = false,
+    defaultRollingWindow,
+    calendar = DEFAULT_CALENDAR,
     calcMode,
     valueDisplay,
   } = props;
 
-  const STORAGE_KEY = `tusk_india_${type}_v1`;
+  const layerSpecs = useMemo(() => layerSeriesSpecs(type), [type]);
   const isSumTab = calcMode === "sum";
   const isAvgTab = calcMode === "avg";
   const isPeakDemandTab = type === "demand"; // ✅ Peak Demand Met tab identifier
@@ -576,6 +1603,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     }).format(rounded)}${valueDisplay.suffix}`;
   };
 
+  const fmtValueRef = useRef(fmtValue);
+  fmtValueRef.current = fmtValue;
+
   const fmtPct = (x: number | null | undefined) => {
     if (x == null || Number.isNaN(x)) return "—";
     const sign = x > 0 ? "+" : "";
@@ -583,23 +1613,31 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return `${sign}${rounded.toFixed(2)}%`;
   };
 
-  const [dataMap, setDataMap] = useState<Map<string, number>>(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return new Map();
-      const obj = JSON.parse(raw);
-      const entries = Object.entries(obj || {});
-      const m = new Map<string, number>();
-      for (const [k, v] of entries) {
-        const d = parseISOKey(k);
-        const n = Number(v);
-        if (d && Number.isFinite(n)) m.set(d, n);
-      }
-      return m;
-    } catch {
-      return new Map();
-    }
-  });
+  const [dataMap, setDataMap] = useState<Map<string, number>>(() => new Map());
+  // Latest data, for edits made from async handlers; always set together with dataMap
+  const dataMapRef = useRef(dataMap);
+  // ✅ Layers dataMap is built from (default CSV, auto-fetch, user edits); dataMap = effectiveSeries(layers)
+  const [layers, setLayers] = useState<DataLayers>(emptyLayers);
+  const layersRef = useRef(layers);
+
+  // ✅ Edit journal (audit log) + undo / redo stacks of entry ids
+  const [journal, setJournal] = useState<JournalEntry[]>([]);
+  const [undoStack, setUndoStack] = useState<string[]>([]);
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [editorName, setEditorName] = useState(loadEditorName);
+  const [openJournalEntry, setOpenJournalEntry] = useState<string | null>(null);
+
+  // ✅ Browser storage: what was last written (null until the stored copy has loaded), status and errors
+  const persistedRef = useRef<DataLayers | null>(null);
+  // Old whole-series copy waiting for the default CSV to diff against (see layerSeriesSpecs)
+  const legacyCopyRef = useRef<{ days: Map<string, number>; migrated: boolean } | null>(null);
+  // Days that copy pinned as overrides (date → pinned value), kept so they can be reset together
+  const [legacyPins, setLegacyPins] = useState<Map<string, number | null>>(() => new Map());
+  const pinnedDays = useMemo(() => stillPinned(layers, legacyPins), [layers, legacyPins]);
+  const pinnedSet = useMemo(() => new Set(pinnedDays), [pinnedDays]);
+  const [storeLoaded, setStoreLoaded] = useState(false);
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   const [date, setDate] = useState(() => {
     const t = new Date();
@@ -614,16 +1652,52 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   const [msg, setMsg] = useState<string | null>(null);
   const [errors, setErrors] = useState<string[]>([]);
 
+  // ✅ View state shared via the URL (?tab=...&view=...); null when the URL is for another tab
+  const [urlInit] = useState(() => readDashboardUrlState(type));
+  const urlView = (raw: string | undefined): ViewAs | null => {
+    const v = raw ? LEGACY_VIEWS[raw] ?? raw : undefined;
+    return v && VIEW_AS_VALUES.includes(v as ViewAs) && (v !== "rolling_sum" || calcMode === "sum") ? (v as ViewAs) : null;
+  };
+  const urlWindow = (n: number | undefined) => (n != null && ROLLING_WINDOWS.includes(n) ? n : null);
+
   // default "24 Months" ON for all tabs
-  const [rangeDays, setRangeDays] = useState(730);
+  const [rangeDays, setRangeDays] = useState(urlInit?.range ?? 730);
 
   const [fetchStatus, setFetchStatus] = useState<string | null>(null);
 
-  const [fromIso, setFromIso] = useState("");
-  const [toIso, setToIso] = useState("");
+  const [fromIso, setFromIso] = useState(urlInit?.from ?? "");
+  const [toIso, setToIso] = useState(urlInit?.to ?? "");
 
   // Default View as: rolling avg (first option)
-  const [aggFreq, setAggFreq] = useState<ViewAs>("rolling30_avg");
+  const [aggFreq, setAggFreq] = useState<ViewAs>(() => urlView(urlInit?.view) ?? "rolling_avg");
+  const [rollingWindow, setRollingWindow] = useState(
+    () => urlWindow(urlInit?.window) ?? urlWindow(defaultRollingWindow) ?? 30
+  );
+
+  // ✅ Missing-day policy for rolling/period aggregates, saved per tab
+  const GAP_POLICY_KEY = `tusk_india_${type}_gapPolicy_v1`;
+  const [gapPolicy, setGapPolicy] = useState<GapPolicy>(() => {
+    try {
+      const raw = localStorage.getItem(GAP_POLICY_KEY);
+      return GAP_POLICIES.some((p) => p.key === raw) ? (raw as GapPolicy) : "skip";
+    } catch {
+      return "skip";
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(GAP_POLICY_KEY, gapPolicy);
+    } catch {}
+  }, [gapPolicy, GAP_POLICY_KEY]);
+
+  // ✅ Comparison baseline for every YoY figure (charts, KPIs, tables), saved per tab
+  const [baseline, setBaseline] = useState<Baseline>(() => loadBaseline(type));
+  const yoyLabel = growthLabel(baseline);
+
+  useEffect(() => {
+    saveBaseline(type, baseline);
+  }, [type, baseline]);
 
   /* =========================================================
      ✅ DEFAULT TOGGLE STATES
@@ -635,6 +1709,8 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   ========================================================= */
 
   const [showUnitsSeries, setShowUnitsSeries] = useState<boolean>(() => {
+    if (urlInit?.series) return urlInit.series.units;
+
     // Peak Demand Met: YoY% only by default => totals OFF
     if (isPeakDemandTab) return false;
 
@@ -644,11 +1720,15 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   });
 
   const [showPrevYearSeries, setShowPrevYearSeries] = useState<boolean>(() => {
+    if (urlInit?.series) return urlInit.series.py;
+
     // always OFF by default for all tabs
     return false;
   });
 
   const [showYoYSeries, setShowYoYSeries] = useState<boolean>(() => {
+    if (urlInit?.series) return urlInit.series.yoy;
+
     // Peak Demand Met: YoY ON by default
     if (isPeakDemandTab) return true;
 
@@ -658,21 +1738,70 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   });
 
   const [showMoMSeries, setShowMoMSeries] = useState<boolean>(() => {
+    if (urlInit?.series) return urlInit.series.mom;
+
     // always OFF by default
     return false;
   });
 
   const [showControlLines, setShowControlLines] = useState<boolean>(() => {
+    if (urlInit?.series) return urlInit.series.ctrl;
+
     // always ON by default
     return true;
   });
 
-  const [tablePeriod, setTablePeriod] = useState<"monthly" | "weekly" | "yearly">("monthly");
+  const [showForecast, setShowForecast] = useState(false);
+  const [forecastModel, setForecastModel] = useState<ForecastModel>("holt_winters");
+  const [forecastHorizon, setForecastHorizon] = useState(30);
+
+  // Findings from the last CSV load/import (duplicates, skipped rows)
+  const [importIssues, setImportIssues] = useState<DataIssue[]>([]);
+  // Parsed CSV waiting to be reviewed and merged (import preview dialog)
+  const [pendingImport, setPendingImport] = useState<{ preview: ImportPreview; issues: DataIssue[] } | null>(null);
+  const [importStrategy, setImportStrategy] = useState<ImportStrategy>("incoming");
+  const [importThresholdPct, setImportThresholdPct] = useState(1);
+  const [importRowStrategy, setImportRowStrategy] = useState<Record<string, ImportStrategy>>({});
+  const [importPreviewTab, setImportPreviewTab] = useState<ImportRowStatus | "rejected">("changed");
+  const importChangeCount = useMemo(() => {
+    if (!pendingImport) return 0;
+    const next = resolveImport(dataMap, pendingImport.preview, importStrategy, importRowStrategy, importThresholdPct);
+    return diffSeries(dataMap, next).length;
+  }, [pendingImport, dataMap, importStrategy, importRowStrategy, importThresholdPct]);
+  const [healthSigma, setHealthSigma] = useState(3);
+  const [healthWindow, setHealthWindow] = useState(30);
+  const [healthJumpPct, setHealthJumpPct] = useState(25);
+  const [healthFilter, setHealthFilter] = useState<DataIssueKind | "all">("all");
+  const dailyCardRef = useRef<HTMLDivElement | null>(null);
+
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>("value");
+  const [heatmapYears, setHeatmapYears] = useState(5);
+  const [fyOverlayMode, setFyOverlayMode] = useState<FYOverlayMode>("rolling");
+  const [fyOverlayYears, setFyOverlayYears] = useState(5);
+  const valueInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [tablePeriod, setTablePeriod] = useState<"monthly" | "weekly" | "yearly">(urlInit?.table ?? "monthly");
 
   const fileRef = useRef<HTMLInputElement | null>(null);
 
+  // ✅ Event annotations (heatwaves, tariff orders, outages, ...) saved per tab
+  const [annotations, setAnnotations] = useState<Annotation[]>(() => loadAnnotations(type));
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const [annStart, setAnnStart] = useState("");
+  const [annEnd, setAnnEnd] = useState("");
+  const [annLabel, setAnnLabel] = useState("");
+  const [annCategory, setAnnCategory] = useState<AnnotationCategory>("weather");
+  const annFileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    saveAnnotations(type, annotations);
+  }, [type, annotations]);
+
   // Ensure defaults apply on open/reload AND remain correct if component ever re-mounts
   useEffect(() => {
+    // A shared link's toggles win over the tab defaults
+    if (urlInit?.series) return;
+
     // Peak Demand Met tab: YoY% only + control lines ON
     if (isPeakDemandTab) {
       setShowUnitsSeries(false);
@@ -707,8 +1836,73 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     document.title = title;
   }, [title]);
 
-  // Load CSV from public path
+  // ✅ Mirror view state into the URL: the first write (and filling in From/To after load)
+  // replaces the entry, later changes push one so back/forward steps through them
+  const urlWriteCount = useRef(0);
+  useEffect(() => {
+    const params = dashboardUrlParams(type, {
+      view: aggFreq,
+      window: rollingWindow,
+      from: fromIso,
+      to: toIso,
+      range: rangeDays,
+      series: {
+        units: showUnitsSeries,
+        py: showPrevYearSeries,
+        yoy: showYoYSeries,
+        mom: showMoMSeries,
+        ctrl: showControlLines,
+      },
+      table: tablePeriod,
+    });
+    const id = window.setTimeout(() => {
+      const mode = urlWriteCount.current === 0 || !readUrlParams().get("from") ? "replace" : "push";
+      writeUrlParams(params, mode);
+      urlWriteCount.current += 1;
+    }, 300);
+    return () => window.clearTimeout(id);
+  }, [
+    type,
+    aggFreq,
+    rollingWindow,
+    fromIso,
+    toIso,
+    rangeDays,
+    showUnitsSeries,
+    showPrevYearSeries,
+    showYoYSeries,
+    showMoMSeries,
+    showControlLines,
+    tablePeriod,
+  ]);
+
+  // Back/forward: apply whatever the URL now says
+  useEffect(() => {
+    return onUrlChange(() => {
+      const u = readDashboardUrlState(type);
+      if (!u) return;
+      const view = urlView(u.view);
+      if (view) setAggFreq(view);
+      const win = urlWindow(u.window);
+      if (win) setRollingWindow(win);
+      if (u.from) setFromIso(u.from);
+      if (u.to) setToIso(u.to);
+      if (u.range) setRangeDays(u.range);
+      if (u.series) {
+        setShowUnitsSeries(u.series.units);
+        setShowPrevYearSeries(u.series.py);
+        setShowYoYSeries(u.series.yoy);
+        setShowMoMSeries(u.series.mom);
+        setShowControlLines(u.series.ctrl);
+      }
+      if (u.table) setTablePeriod(u.table);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [type]);
+
+  // Load CSV from public path (after the stored copy, so the journal records what it changed)
   useEffect(() => {
+    if (!storeLoaded) return;
     let cancelled = false;
 
     async function loadDefaultCSV() {
@@ -718,7 +1912,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
         const text = await res.text();
 
-        const { parsed, errors: errs } = csvParse(text);
+        const { parsed, errors: errs } = csvParse(text, valueColumn, valueColumnKey);
         if (cancelled) return;
 
         if (!parsed.length) {
@@ -731,12 +1925,34 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
         const m = new Map<string, number>();
         for (const r of parsed) m.set(r.date, r.value);
 
-        setDataMap(m);
+        // Base layer only: edits and auto-fetched days stay on top of it
+        let next = withLayerRows(layersRef.current, "base", m, true);
+        recordLayers(next, "default_csv", defaultCsvPath);
+
+        // First load after the upgrade: where the old copy differs from this CSV it wins, as its
+        // own journal entry so those days are not mistaken for edits made since
+        let pinned = 0;
+        const legacy = legacyCopyRef.current;
+        if (legacy && !legacy.migrated) {
+          const migrated = withLegacyCopy(next, legacy.days);
+          const pins = addedOverrides(next, migrated);
+          legacyCopyRef.current = { ...legacy, migrated: true };
+          recordLayers(migrated, "legacy_copy", LEGACY_COPY_SOURCE);
+          setLegacyPins(pins);
+          saveDoc(legacyPinsDocName(type), [...pins]).catch(() => {});
+          next = migrated;
+          pinned = pins.size;
+        }
+        setImportIssues([...findDuplicates(parsed, undefined, fmtValueRef.current), ...parseIssues(errs)]);
 
+        const edited = next.override.size - pinned;
+        const kept =
+          (edited ? `; ${edited} edited day(s) kept` : "") +
+          (pinned ? `; ${pinned} day(s) that differ from it pinned from the pre-upgrade copy` : "");
         if (errs.length) {
-          setFetchStatus(`Loaded (${parsed.length} rows) with ${errs.length} issues.`);
+          setFetchStatus(`Loaded (${parsed.length} rows) with ${errs.length} issues${kept}.`);
         } else {
-          setFetchStatus(`Loaded (${parsed.length} rows).`);
+          setFetchStatus(`Loaded (${parsed.length} rows)${kept}.`);
         }
       } catch {
         if (!cancelled) {
@@ -749,12 +1965,183 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return () => {
       cancelled = true;
     };
-  }, [defaultCsvPath, type]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [defaultCsvPath, type, valueColumn, storeLoaded]);
+
+  // Stored layers: the base copy is used until the default CSV arrives and replaces it
+  useEffect(() => {
+    let cancelled = false;
+    persistedRef.current = null;
+    legacyCopyRef.current = null;
+    setLegacyPins(new Map());
+    setStoreLoaded(false);
+
+    loadJournal(type)
+      .then((j) => !cancelled && setJournal(j))
+      .catch(() => !cancelled && setStorageError("Could not read the edit history from browser storage."));
+
+    loadDoc<Array<[string, number | null]>>(legacyPinsDocName(type))
+      .then((pins) => !cancelled && Array.isArray(pins) && setLegacyPins(new Map(pins)))
+      .catch(() => {});
+
+    Promise.all([
+      loadSeries(layerSpecs.override),
+      loadSeries(layerSpecs.auto),
+      loadSeries(layerSpecs.base),
+      loadSeries(layerSpecs.legacy),
+    ])
+      .then(([override, auto, base, legacy]) => {
+        if (cancelled) return;
+        legacyCopyRef.current = legacy.size ? { days: legacy, migrated: false } : null;
+        const stored: DataLayers = { override, auto, base };
+        persistedRef.current = stored;
+        layersRef.current = stored;
+        setLayers(stored);
+        const m = effectiveSeries(stored);
+        dataMapRef.current = m;
+        setDataMap(m);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        persistedRef.current = emptyLayers();
+        setStorageError(`Could not read the saved ${seriesLabel} data from browser storage.`);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setStoreLoaded(true);
+        storageStatus().then((st) => !cancelled && setStorage(st));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [layerSpecs]);
 
+  // Write only the layers, and within them the days, that changed since the last save
   useEffect(() => {
-    const obj = Object.fromEntries(dataMap.entries());
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-  }, [dataMap, STORAGE_KEY]);
+    const prev = persistedRef.current;
+    if (!storeLoaded || !prev || prev === layers) return;
+    persistedRef.current = layers;
+    const legacy = legacyCopyRef.current?.migrated ? legacyCopyRef.current : null;
+
+    Promise.all([
+      prev.override === layers.override ? null : saveSeries(layerSpecs.override, prev.override, layers.override),
+      prev.auto === layers.auto ? null : saveSeries(layerSpecs.auto, prev.auto, layers.auto),
+      prev.base === layers.base ? null : saveSeries(layerSpecs.base, prev.base, layers.base),
+    ])
+      .then(() => {
+        setStorageError(null);
+        // The old whole-series copy goes once its edits are saved as overrides
+        if (!legacy || legacyCopyRef.current !== legacy) return storageStatus().then(setStorage);
+        legacyCopyRef.current = null;
+        return saveSeries(layerSpecs.legacy, legacy.days, new Map())
+          .then(() => storageStatus())
+          .then(setStorage);
+      })
+      .catch((e) => {
+        // Retry these changes with the next save unless a newer one already started
+        if (persistedRef.current === layers) persistedRef.current = prev;
+        setStorageError(storageErrorMessage(e, `the ${seriesLabel} data`));
+      });
+  }, [layers, storeLoaded, layerSpecs, seriesLabel]);
+
+  useEffect(() => {
+    if (!storeLoaded) return;
+    saveJournal(type, journal).catch((e) => setStorageError(storageErrorMessage(e, "the edit history")));
+  }, [journal, storeLoaded, type]);
+
+  useEffect(() => saveEditorName(editorName), [editorName]);
+
+  // ✅ Every change to the data goes through here: one journal entry with the per-day before/after values
+  function recordLayers(nextLayers: DataLayers, action: JournalAction, source: string, ref?: string) {
+    layersRef.current = nextLayers;
+    setLayers(nextLayers);
+    const next = effectiveSeries(nextLayers);
+    const changes = diffSeries(dataMapRef.current, next);
+    if (!changes.length) return null;
+    const entry: JournalEntry = {
+      id: newJournalId(),
+      at: new Date().toISOString(),
+      user: editorName.trim() || DEFAULT_EDITOR,
+      action,
+      source,
+      changes,
+      ...(ref ? { ref } : {}),
+    };
+    dataMapRef.current = next;
+    setDataMap(next);
+    setJournal((prev) => [...prev, entry].slice(-MAX_JOURNAL_ENTRIES));
+    return entry;
+  }
+
+  // The user's version of the data: the days that differ from what is shown go to the override layer
+  function recordData(next: Map<string, number>, action: JournalAction, source: string, ref?: string) {
+    const changes = diffSeries(dataMapRef.current, next).map((c) => ({ date: c.date, value: c.after }));
+    return recordLayers(withUserValues(layersRef.current, changes), action, source, ref);
+  }
+
+  // A new edit: undoable, and it drops whatever could be redone
+  function pushUndo(entry: JournalEntry | null) {
+    if (!entry) return null;
+    setUndoStack((prev) => [...prev, entry.id].slice(-MAX_JOURNAL_ENTRIES));
+    setRedoStack([]);
+    return entry;
+  }
+
+  function commitEdit(next: Map<string, number>, action: JournalAction, source: string, ref?: string) {
+    return pushUndo(recordData(next, action, source, ref));
+  }
+
+  function resetToBase(isos: string[]) {
+    const edited = isos.filter((iso) => layersRef.current.override.has(iso));
+    if (!edited.length) return;
+    const done = pushUndo(recordLayers(withoutOverrides(layersRef.current, edited), "reset", "manual"));
+    setMsg(
+      edited.length === 1
+        ? `Reset ${formatDDMMYYYY(edited[0])} to ${fmtValue(underlyingValue(layersRef.current, edited[0]))}.`
+        : `Reset ${done?.changes.length ?? 0} edited day(s) to their base values.`
+    );
+  }
+
+  // Badge text for an edited day: what it would show without the edit
+  function editedNote(iso: string) {
+    if (!layers.override.has(iso)) return null;
+    const under = underlyingValue(layers, iso);
+    const from: DataLayer = layers.auto.has(iso) ? "auto" : "base";
+    const what = pinnedSet.has(iso) ? "Pinned from the pre-upgrade copy" : "Edited";
+    return under == null ? `${what} (not in source data)` : `${what} (${DATA_LAYER_LABELS[from]}: ${fmtValue(under)})`;
+  }
+
+  function undo() {
+    const id = undoStack[undoStack.length - 1];
+    if (!id) return;
+    setUndoStack((prev) => prev.slice(0, -1));
+    const target = journal.find((e) => e.id === id);
+    if (!target) return;
+    recordData(applyChanges(dataMapRef.current, target.changes, "back"), "undo", describeJournalEntry(target), id);
+    setRedoStack((prev) => [...prev, id]);
+    setMsg(`Undone: ${describeJournalEntry(target)}.`);
+  }
+
+  function redo() {
+    const id = redoStack[redoStack.length - 1];
+    if (!id) return;
+    setRedoStack((prev) => prev.slice(0, -1));
+    const target = journal.find((e) => e.id === id);
+    if (!target) return;
+    recordData(applyChanges(dataMapRef.current, target.changes, "forward"), "redo", describeJournalEntry(target), id);
+    setUndoStack((prev) => [...prev, id]);
+    setMsg(`Redone: ${describeJournalEntry(target)}.`);
+  }
+
+  function revertTo(entry: JournalEntry) {
+    const next = stateAfterEntry(dataMapRef.current, journal, entry.id);
+    if (!next) return;
+    if (!confirm(`Revert ${seriesLabel} to how it was after “${describeJournalEntry(entry)}” (${formatJournalTime(entry.at)})?`)) return;
+    const done = commitEdit(next, "revert", `to ${formatJournalTime(entry.at)}`, entry.id);
+    setMsg(done ? `Reverted ${done.changes.length} day(s).` : "Nothing to revert.");
+  }
 
   const sortedDaily = useMemo<DailyPoint[]>(() => {
     return Array.from(dataMap.entries())
@@ -775,6 +2162,19 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
   const supportsRollingSum = calcMode === "sum";
 
+  // EMA over the whole history so the first days of the chart window are already warmed up
+  const emaByDate = useMemo(
+    () => (aggFreq === "rolling_ema" ? emaSeries(sortedDaily, rollingWindow) : new Map<string, number>()),
+    [aggFreq, sortedDaily, rollingWindow]
+  );
+
+  // Rolling median for every day at once; the chart and its baseline years read from it
+  const medianByDate = useMemo(() => {
+    if (aggFreq !== "rolling_median" || !sortedDaily.length) return new Map<string, { value: number; completeness: number }>();
+    const bounds: SeriesBounds = { firstIso: sortedDaily[0].date, lastIso: sortedDaily[sortedDaily.length - 1].date };
+    return rollingMedianSeries(dailyLookup, bounds, rollingWindow);
+  }, [aggFreq, sortedDaily, dailyLookup, rollingWindow]);
+
   const dailyForChart = useMemo<DailyChartPoint[]>(() => {
     if (!sortedDaily.length) return [];
 
@@ -787,27 +2187,18 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
     const filtered = sortedDaily.filter((d) => d.date >= f && d.date <= t);
 
-    const sumCountRangeInclusive = (startIso: string, endIso: string) => {
-      if (startIso > endIso) return { sum: null as number | null, count: 0 };
-      let sum = 0;
-      let count = 0;
-      let cur = startIso;
-      while (cur <= endIso) {
-        const v = dailyLookup.get(cur);
-        if (v != null) {
-          sum += v;
-          count += 1;
-        }
-        cur = isoPlusDays(cur, 1);
-      }
-      return { sum: count ? sum : null, count };
-    };
+    const bounds: SeriesBounds = { firstIso: sortedDaily[0].date, lastIso };
+    const agg = (startIso: string, endIso: string) => aggregateRange(dailyLookup, startIso, endIso, gapPolicy, bounds);
+    const periodValue = (a: ReturnType<typeof agg>) => (calcMode === "sum" ? a.sum : a.avg);
 
-    const isRollingAvg = aggFreq === "rolling30_avg";
-    const isRollingSum = aggFreq === "rolling30_sum";
+    const isRollingAvg = aggFreq === "rolling_avg";
+    const isRollingSum = aggFreq === "rolling_sum";
+
+    // decomposition has its own chart data (decompositionForChart)
+    if (aggFreq === "decomposition") return [];
 
     if (aggFreq === "daily") {
-      const sameDayPrevYear = (iso: string) => `${Number(iso.slice(0, 4)) - 1}${iso.slice(4)}`;
+      const sameDayYearsBack = (iso: string, k: number) => `${Number(iso.slice(0, 4)) - k}${iso.slice(4)}`;
       const sameDayPrevMonth = (iso: string) => {
         const y = Number(iso.slice(0, 4));
         const m = Number(iso.slice(5, 7));
@@ -818,9 +2209,8 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       };
 
       return filtered.map((d) => {
-        const pyDate = sameDayPrevYear(d.date);
         const pmDate = sameDayPrevMonth(d.date);
-        const py = dailyLookup.get(pyDate) ?? null;
+        const py = baselineMean(baselineYearOffsets(baseline, d.date, calendar), (k) => dailyLookup.get(sameDayYearsBack(d.date, k)));
         const pm = pmDate ? dailyLookup.get(pmDate) ?? null : null;
 
         return {
@@ -829,30 +2219,63 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
           prev_year_units: py,
           yoy_pct: py != null ? growthPct(d.value, py) : null,
           mom_pct: pm != null ? growthPct(d.value, pm) : null,
+          edited_note: editedNote(d.date),
         };
       });
     }
 
+    if (aggFreq === "rolling_median" || aggFreq === "rolling_ema") {
+      // Same trailing window, one year (or baseline years) earlier for the YoY line
+      const statAt =
+        aggFreq === "rolling_ema"
+          ? (iso: string) => ({ value: emaByDate.get(iso) ?? null, completeness: null as number | null })
+          : (iso: string) => medianByDate.get(iso) ?? { value: null, completeness: 0 };
+
+      const points: DailyChartPoint[] = [];
+      let cur = f;
+      while (cur <= t) {
+        const curr = statAt(cur);
+        if (curr.value != null) {
+          const offsets = baselineYearOffsets(baseline, cur, calendar);
+          const prevs = offsets.map((k) => statAt(isoMinusDays(cur, 365 * k)));
+          const prevVal = baselineMean(offsets, (k) => prevs[offsets.indexOf(k)].value);
+
+          points.push({
+            label: formatDDMMYYYY(cur),
+            units: curr.value,
+            prev_year_units: prevVal,
+            yoy_pct: prevVal != null ? growthPct(curr.value, prevVal) : null,
+            mom_pct: null,
+            completeness: curr.completeness,
+            prev_completeness: baselineMean(offsets, (k) => prevs[offsets.indexOf(k)].completeness),
+          });
+        }
+        cur = isoPlusDays(cur, 1);
+      }
+      return points;
+    }
+
     if (isRollingAvg || isRollingSum) {
+      // One window per chart day and baseline year: prefix sums instead of aggregateRange
+      const windowAgg = windowAggregator(dailyLookup, bounds, gapPolicy);
       const points: DailyChartPoint[] = [];
       let cur = f;
       while (cur <= t) {
-        const start = isoMinusDays(cur, 29);
-        const currSC = sumCountRangeInclusive(start, cur);
+        const start = isoMinusDays(cur, rollingWindow - 1);
+        const currSC = windowAgg(start, cur);
 
-        const currVal =
-          isRollingSum
-            ? (currSC.sum ?? 0)
-            : (currSC.sum != null && currSC.count ? currSC.sum / currSC.count : 0);
+        const currVal = (isRollingSum ? currSC.sum : currSC.avg) ?? 0;
 
-        const curPrevYear = isoMinusDays(cur, 365);
-        const startPrevYear = isoMinusDays(curPrevYear, 29);
-        const prevSC = sumCountRangeInclusive(startPrevYear, curPrevYear);
+        const offsets = baselineYearOffsets(baseline, cur, calendar);
+        const prevSCs = offsets.map((k) => {
+          const curPrevYear = isoMinusDays(cur, 365 * k);
+          return windowAgg(isoMinusDays(curPrevYear, rollingWindow - 1), curPrevYear);
+        });
 
-        const prevVal =
-          isRollingSum
-            ? prevSC.sum
-            : (prevSC.sum != null && prevSC.count ? prevSC.sum / prevSC.count : null);
+        const prevVal = baselineMean(offsets, (k) => {
+          const sc = prevSCs[offsets.indexOf(k)];
+          return isRollingSum ? sc.sum : sc.avg;
+        });
 
         points.push({
           label: formatDDMMYYYY(cur),
@@ -860,6 +2283,8 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
           prev_year_units: prevVal,
           yoy_pct: prevVal != null ? growthPct(currVal, prevVal) : null,
           mom_pct: null,
+          completeness: currSC.completeness,
+          prev_completeness: baselineMean(offsets, (k) => prevSCs[offsets.indexOf(k)].completeness),
         });
 
         cur = isoPlusDays(cur, 1);
@@ -868,15 +2293,13 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     }
 
     if (aggFreq === "weekly") {
-      const startW = startOfWeekISO(f);
-      const endW = startOfWeekISO(t);
+      const startW = startOfWeekIso(f, calendar);
+      const endW = startOfWeekIso(t, calendar);
 
       const weekSum = new Map<string, number>();
-      const weekCount = new Map<string, number>();
       for (const d of sortedDaily) {
-        const wk = startOfWeekISO(d.date);
+        const wk = startOfWeekIso(d.date, calendar);
         weekSum.set(wk, (weekSum.get(wk) || 0) + d.value);
-        weekCount.set(wk, (weekCount.get(wk) || 0) + 1);
       }
 
       const weeks: string[] = [];
@@ -887,22 +2310,25 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
         if (weeks.length > 600) break;
       }
 
+      const weekAgg = (wk: string) => agg(wk, isoPlusDays(wk, 6));
+
       return weeks.map((wk) => {
-        const sum = weekSum.get(wk)!;
-        const cnt = weekCount.get(wk)!;
-        const curr = calcMode === "sum" ? sum : sum / cnt;
+        const currAgg = weekAgg(wk);
+        const curr = periodValue(currAgg) ?? 0;
 
         const prevWk = isoMinusDays(wk, 7);
-        const prevSum = weekSum.get(prevWk);
-        const prevCnt = weekCount.get(prevWk);
-        const prevVal =
-          prevSum != null && prevCnt ? (calcMode === "sum" ? prevSum : prevSum / prevCnt) : null;
+        const prevVal = weekSum.has(prevWk) ? periodValue(weekAgg(prevWk)) : null;
 
-        const prevYearWk = isoMinusDays(wk, 364);
-        const pySum = weekSum.get(prevYearWk);
-        const pyCnt = weekCount.get(prevYearWk);
-        const pyVal =
-          pySum != null && pyCnt ? (calcMode === "sum" ? pySum : pySum / pyCnt) : null;
+        // 364-day steps keep the week starting on the same weekday
+        const offsets = baselineYearOffsets(baseline, wk, calendar);
+        const pyAggs = offsets.map((k) => {
+          const prevYearWk = isoMinusDays(wk, 364 * k);
+          return weekSum.has(prevYearWk) ? weekAgg(prevYearWk) : null;
+        });
+        const pyVal = baselineMean(offsets, (k) => {
+          const a = pyAggs[offsets.indexOf(k)];
+          return a ? periodValue(a) : null;
+        });
 
         return {
           label: `Wk of ${formatDDMMYYYY(wk)}`,
@@ -910,6 +2336,8 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
           prev_year_units: pyVal,
           yoy_pct: pyVal != null ? growthPct(curr, pyVal) : null,
           mom_pct: prevVal != null ? growthPct(curr, prevVal) : null,
+          completeness: currAgg.completeness,
+          prev_completeness: baselineMean(offsets, (k) => pyAggs[offsets.indexOf(k)]?.completeness),
         };
       });
     }
@@ -925,17 +2353,24 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       if (months.length > 600) break;
     }
 
+    const monthAgg = (ym: string) => agg(`${ym}-01`, isoMinusDays(`${addMonths(ym, 1)}-01`, 1));
+
     return months.map((m) => {
-      const rec = monthAggMap.get(m)!;
-      const curr = calcMode === "sum" ? rec.sum : rec.sum / rec.count;
+      const currAgg = monthAgg(m);
+      const curr = periodValue(currAgg) ?? 0;
 
       const prevMonth = addMonths(m, -1);
-      const prevRec = monthAggMap.get(prevMonth);
-      const prevVal = prevRec ? (calcMode === "sum" ? prevRec.sum : prevRec.sum / prevRec.count) : null;
+      const prevVal = monthAggMap.has(prevMonth) ? periodValue(monthAgg(prevMonth)) : null;
 
-      const prevYearMonth = `${getYear(m) - 1}-${String(getMonth(m)).padStart(2, "0")}`;
-      const pyRec = monthAggMap.get(prevYearMonth);
-      const pyVal = pyRec ? (calcMode === "sum" ? pyRec.sum : pyRec.sum / pyRec.count) : null;
+      const offsets = baselineYearOffsets(baseline, `${m}-01`, calendar);
+      const pyAggs = offsets.map((k) => {
+        const prevYearMonth = monthYearsBack(m, k);
+        return monthAggMap.has(prevYearMonth) ? monthAgg(prevYearMonth) : null;
+      });
+      const pyVal = baselineMean(offsets, (k) => {
+        const a = pyAggs[offsets.indexOf(k)];
+        return a ? periodValue(a) : null;
+      });
 
       return {
         label: m,
@@ -943,9 +2378,88 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
         prev_year_units: pyVal,
         yoy_pct: pyVal != null ? growthPct(curr, pyVal) : null,
         mom_pct: prevVal != null ? growthPct(curr, prevVal) : null,
+        completeness: currAgg.completeness,
+        prev_completeness: baselineMean(offsets, (k) => pyAggs[offsets.indexOf(k)]?.completeness),
       };
     });
-  }, [sortedDaily, dailyLookup, fromIso, toIso, rangeDays, aggFreq, calcMode, monthAggMap]);
+  }, [
+    sortedDaily,
+    dailyLookup,
+    fromIso,
+    toIso,
+    rangeDays,
+    aggFreq,
+    calcMode,
+    monthAggMap,
+    gapPolicy,
+    baseline,
+    calendar,
+    rollingWindow,
+    emaByDate,
+    medianByDate,
+    layers,
+  ]);
+
+  // ✅ STL-style decomposition runs on the full history; the From/To range only crops the panels
+  const decomposition = useMemo(
+    () => (aggFreq === "decomposition" ? decomposeDaily(sortedDaily) : null),
+    [aggFreq, sortedDaily]
+  );
+
+  const decompositionForChart = useMemo<DecompositionChartPoint[]>(() => {
+    if (!decomposition || !decomposition.points.length) return [];
+
+    const lastIso = decomposition.points[decomposition.points.length - 1].date;
+    const effectiveTo = toIso || lastIso;
+    const effectiveFrom = fromIso || isoMinusDays(lastIso, clamp(rangeDays, 7, 3650));
+    const f = effectiveFrom <= effectiveTo ? effectiveFrom : effectiveTo;
+    const t = effectiveFrom <= effectiveTo ? effectiveTo : effectiveFrom;
+
+    const stats = decomposition.residualStats;
+    return decomposition.points
+      .filter((p) => p.date >= f && p.date <= t)
+      .map((p) => ({
+        label: formatDDMMYYYY(p.date),
+        observed: p.observed,
+        trend: p.trend,
+        seasonal: p.seasonal,
+        residual: p.residual,
+        __outlier:
+          stats && p.residual != null && (p.residual > stats.p2 || p.residual < stats.m2) ? p.residual : null,
+        __mean_res: stats ? stats.mean : null,
+        __p1_res: stats ? stats.p1 : null,
+        __p2_res: stats ? stats.p2 : null,
+        __m1_res: stats ? stats.m1 : null,
+        __m2_res: stats ? stats.m2 : null,
+      }));
+  }, [decomposition, fromIso, toIso, rangeDays]);
+
+  // ✅ Forecast continues the Daily view from the last recorded day
+  const forecastActive = enableForecast && showForecast && aggFreq === "daily";
+
+  const forecastPoints = useMemo(
+    () => (forecastActive ? forecastDaily(sortedDaily, forecastModel, forecastHorizon) : []),
+    [forecastActive, sortedDaily, forecastModel, forecastHorizon]
+  );
+  const forecastHasBand = forecastPoints.some((p) => p.lower != null && p.upper != null);
+
+  const backtestRows = useMemo(
+    () => (enableForecast && showForecast ? backtestModels(sortedDaily) : []),
+    [enableForecast, showForecast, sortedDaily]
+  );
+
+  const bestBacktest = useMemo(() => {
+    const out: Record<number, ForecastModel | null> = {};
+    for (const h of BACKTEST_HORIZONS) {
+      let best: { model: ForecastModel; mape: number } | null = null;
+      for (const r of backtestRows) {
+        const m = r.mape[h];
+        if (m != null && (!best || m < best.mape)) best = { model: r.model, mape: m };
+      }
+      out[h] = best ? best.model : null;
+    }
+    return out;
+  }, [backtestRows]);
 
   const controlStatsLeft = useMemo(() => {
     if (!showControlLines) return null;
@@ -991,11 +2505,35 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       __p2_yoy: controlStatsYoY ? controlStatsYoY.p2 : null,
       __m1_yoy: controlStatsYoY ? controlStatsYoY.m1 : null,
       __m2_yoy: controlStatsYoY ? controlStatsYoY.m2 : null,
+
+      __forecast: null as number | null,
+      __band: null as [number, number] | null,
     }));
+
+    // Only continue the line when the chart window reaches the latest recorded day
+    const last = base[base.length - 1];
+    const lastIso = sortedDaily.length ? sortedDaily[sortedDaily.length - 1].date : null;
+    if (forecastPoints.length && last && lastIso && last.label === formatDDMMYYYY(lastIso)) {
+      last.__forecast = last.units;
+      last.__band = forecastHasBand ? [last.units, last.units] : null;
+      for (const fp of forecastPoints) {
+        base.push({
+          ...last,
+          label: formatDDMMYYYY(fp.date),
+          units: null as unknown as number,
+          prev_year_units: null,
+          yoy_pct: null,
+          mom_pct: null,
+          __forecast: fp.value,
+          __band: fp.lower != null && fp.upper != null ? [fp.lower, fp.upper] : null,
+        });
+      }
+    }
     return base as any[];
-  }, [dailyForChart, controlStatsLeft, controlStatsYoY]);
+  }, [dailyForChart, controlStatsLeft, controlStatsYoY, forecastPoints, forecastHasBand, sortedDaily]);
 
-  const anyTotalsShown = showUnitsSeries || showPrevYearSeries || (showControlLines && !!controlStatsLeft);
+  const anyTotalsShown =
+    showUnitsSeries || showPrevYearSeries || (showControlLines && !!controlStatsLeft) || forecastPoints.length > 0;
   const anyPctShown = showYoYSeries || showMoMSeries || (showControlLines && !!controlStatsYoY);
 
   const leftAxisDomain = useMemo(() => {
@@ -1010,6 +2548,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       vals.push(...dailyForChartWithControl.map((d) => d.__m1_units));
       vals.push(...dailyForChartWithControl.map((d) => d.__m2_units));
     }
+    for (const d of dailyForChartWithControl) {
+      if (d.__band) vals.push(d.__band[0], d.__band[1]);
+    }
     return computeDomain(vals, 0.05, 0.5);
   }, [dailyForChartWithControl, showUnitsSeries, showPrevYearSeries, showControlLines]);
 
@@ -1028,9 +2569,19 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return computeDomain(vals, 0.05, 1);
   }, [dailyForChartWithControl, showYoYSeries, showMoMSeries, showControlLines]);
 
+  // ✅ Monthly / weekly / FY tables go through the missing-day policy too (prefix sums, one pass)
+  const tableAgg = useMemo<PeriodAggregator | null>(() => {
+    if (!sortedDaily.length) return null;
+    const bounds: SeriesBounds = { firstIso: sortedDaily[0].date, lastIso: sortedDaily[sortedDaily.length - 1].date };
+    return windowAggregator(dailyLookup, bounds, gapPolicy);
+  }, [sortedDaily, dailyLookup, gapPolicy]);
+
   const monthlyAgg = useMemo(() => {
-    return calcMode === "sum" ? toMonthlySumComparable(sortedDaily) : toMonthlyAvgFull(sortedDaily);
-  }, [sortedDaily, calcMode]);
+    if (!tableAgg) return [];
+    return calcMode === "sum"
+      ? toMonthlySumComparable(sortedDaily, tableAgg, baseline, calendar)
+      : toMonthlyAvgFull(sortedDaily, tableAgg, baseline, calendar);
+  }, [sortedDaily, tableAgg, calcMode, baseline, calendar]);
 
   const monthlyForChart = useMemo(() => {
     if (!monthlyAgg.length) return [];
@@ -1040,6 +2591,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       value: m.value,
       yoy_pct: m.yoy_pct,
       mom_pct: m.mom_pct,
+      completeness: m.completeness,
     }));
   }, [monthlyAgg]);
 
@@ -1061,155 +2613,205 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return vals.reduce((a, b) => a + b, 0) / vals.length;
   }, [monthlyForChart]);
 
-  const kpis = useMemo(() => computeKPIs(sortedDaily, calcMode), [sortedDaily, calcMode]);
+  const kpis = useMemo(
+    () => computeKPIs(sortedDaily, calcMode, gapPolicy, baseline, calendar),
+    [sortedDaily, calcMode, gapPolicy, baseline, calendar]
+  );
 
   const weeklyRows = useMemo(() => {
-    if (!sortedDaily.length) return [];
+    if (!tableAgg) return [];
 
-    const weekSum = new Map<string, number>();
-    const weekCount = new Map<string, number>();
+    const weeks = new Set(sortedDaily.map((d) => startOfWeekIso(d.date, calendar)));
+    const sorted = Array.from(weeks).sort(sortISO);
+    const lastWeeks = sorted.slice(Math.max(0, sorted.length - 104));
 
-    for (const d of sortedDaily) {
-      const wk = startOfWeekISO(d.date);
-      weekSum.set(wk, (weekSum.get(wk) || 0) + d.value);
-      weekCount.set(wk, (weekCount.get(wk) || 0) + 1);
-    }
-
-    const weeks = Array.from(weekSum.keys()).sort(sortISO);
-    const lastWeeks = weeks.slice(Math.max(0, weeks.length - 104));
+    // A week without any record has no value to compare with
+    const weekValue = (wk: string) => {
+      if (!weeks.has(wk)) return null;
+      const a = tableAgg(wk, isoPlusDays(wk, 6));
+      return calcMode === "sum" ? a.sum : a.avg;
+    };
 
     return lastWeeks.map((wk) => {
-      const sum = weekSum.get(wk)!;
-      const cnt = weekCount.get(wk)!;
-      const curr = calcMode === "sum" ? sum : sum / cnt;
+      const currAgg = tableAgg(wk, isoPlusDays(wk, 6));
+      const curr = (calcMode === "sum" ? currAgg.sum : currAgg.avg) ?? 0;
 
-      const prevWk = isoMinusDays(wk, 7);
-      const prevSum = weekSum.get(prevWk);
-      const prevCnt = weekCount.get(prevWk);
-      const prevVal = prevSum != null && prevCnt ? (calcMode === "sum" ? prevSum : prevSum / prevCnt) : null;
-
-      const prevYearWk = isoMinusDays(wk, 364);
-      const pySum = weekSum.get(prevYearWk);
-      const pyCnt = weekCount.get(prevYearWk);
-      const pyVal = pySum != null && pyCnt ? (calcMode === "sum" ? pySum : pySum / pyCnt) : null;
+      const prevVal = weekValue(isoMinusDays(wk, 7));
+      const pyVal = baselineMean(baselineYearOffsets(baseline, wk, calendar), (k) => weekValue(isoMinusDays(wk, 364 * k)));
 
       return {
         weekStart: wk,
         value: curr,
         wow_pct: prevVal != null ? growthPct(curr, prevVal) : null,
         yoy_pct: pyVal != null ? growthPct(curr, pyVal) : null,
+        completeness: currAgg.completeness,
       };
     });
-  }, [sortedDaily, calcMode]);
+  }, [sortedDaily, tableAgg, calcMode, baseline, calendar]);
 
   const yearlyFYRows = useMemo(() => {
-    if (!sortedDaily.length) return [];
+    if (!tableAgg) return [];
 
-    const fySum = new Map<string, number>();
-    const fyCount = new Map<string, number>();
     const fyMaxDate = new Map<string, string>();
-
-    const fyLabelFromIso = (iso: string) => {
-      const y = Number(iso.slice(0, 4));
-      const m = Number(iso.slice(5, 7));
-      const fyEndYear = m >= 4 ? y + 1 : y;
-      return `FY${String(fyEndYear).slice(2)}`;
-    };
-
     for (const d of sortedDaily) {
-      const fy = fyLabelFromIso(d.date);
-      fySum.set(fy, (fySum.get(fy) || 0) + d.value);
-      fyCount.set(fy, (fyCount.get(fy) || 0) + 1);
+      const fy = fyLabelFromIso(d.date, calendar);
       const curMax = fyMaxDate.get(fy) || "0000-00-00";
       if (d.date > curMax) fyMaxDate.set(fy, d.date);
     }
 
-    const fys = Array.from(fySum.keys()).sort((a, b) => Number(a.slice(2)) - Number(b.slice(2)));
-
-    const isoAddYears = (iso: string, deltaYears: number) => {
-      const y = Number(iso.slice(0, 4));
-      const m = Number(iso.slice(5, 7));
-      const d = Number(iso.slice(8, 10));
-      const tryDt = new Date(Date.UTC(y + deltaYears, m - 1, d));
-      if (
-        tryDt.getUTCFullYear() === y + deltaYears &&
-        tryDt.getUTCMonth() === m - 1 &&
-        tryDt.getUTCDate() === d
-      ) return tryDt.toISOString().slice(0, 10);
-      const lastDay = new Date(Date.UTC(y + deltaYears, m, 0));
-      return lastDay.toISOString().slice(0, 10);
-    };
-
-    const fyStartIsoFromFYLabel = (fy: string) => {
-      const yy = Number(fy.slice(2));
-      const fyEndYear = 2000 + yy;
-      const fyStartYear = fyEndYear - 1;
-      return `${fyStartYear}-04-01`;
-    };
-
-    const sumCountInclusive = (startIso: string, endIso: string, dailyLookup: Map<string, number>) => {
-      if (startIso > endIso) return { sum: null as number | null, count: 0 };
-      let sum = 0;
-      let count = 0;
-      let cur = startIso;
-      while (cur <= endIso) {
-        const v = dailyLookup.get(cur);
-        if (v != null) {
-          sum += v;
-          count += 1;
-        }
-        cur = isoPlusDays(cur, 1);
-      }
-      return { sum: count ? sum : null, count };
-    };
+    const fys = Array.from(fyMaxDate.keys()).sort((a, b) => Number(a.slice(2)) - Number(b.slice(2)));
+    const pick = (a: RangeAggregate) => (calcMode === "sum" ? a.sum : a.avg);
 
     return fys.map((fy) => {
-      const sum = fySum.get(fy)!;
-      const cnt = fyCount.get(fy)!;
-      const curr = calcMode === "sum" ? sum : sum / cnt;
-
-      const prevFY = `FY${String(Number(fy.slice(2)) - 1).padStart(2, "0")}`;
-      const prevSum = fySum.get(prevFY);
-      const prevCnt = fyCount.get(prevFY);
-      const prev = prevSum != null && prevCnt ? (calcMode === "sum" ? prevSum : prevSum / prevCnt) : null;
+      const fyYearsBack = (k: number) => {
+        let label = fy;
+        for (let i = 0; i < k; i++) label = prevFYLabel(label);
+        return label;
+      };
+      const offsets = baselineYearOffsets(baseline, fyStartIsoFromFYLabel(fy, calendar), calendar);
 
-      const fyEndYear = 2000 + Number(fy.slice(2));
-      const fyEnd = `${fyEndYear}-03-31`;
+      const start = fyStartIsoFromFYLabel(fy, calendar);
+      const fyEnd = fyEndIsoFromFYLabel(fy, calendar);
       const maxDate = fyMaxDate.get(fy)!;
       const isComplete = maxDate >= fyEnd;
 
-      let yoy: number | null = null;
+      // Partial year: the same window (year start .. latest day) in the baseline years
+      const currAgg = tableAgg(start, isComplete ? fyEnd : maxDate);
+      const curr = pick(currAgg) ?? 0;
 
-      if (prevSum != null && prevCnt) {
-        if (isComplete) {
-          yoy = prev != null ? growthPct(curr, prev) : null;
-        } else {
-          const start = fyStartIsoFromFYLabel(fy);
-          const prevStart = fyStartIsoFromFYLabel(prevFY);
-          const prevEnd = isoAddYears(maxDate, -1);
+      const prev = baselineMean(offsets, (k) => {
+        const prevFY = fyYearsBack(k);
+        if (!fyMaxDate.has(prevFY)) return null;
+        const prevEnd = isComplete ? fyEndIsoFromFYLabel(prevFY, calendar) : isoAddYears(maxDate, -k);
+        return pick(tableAgg(fyStartIsoFromFYLabel(prevFY, calendar), prevEnd));
+      });
 
-          const currSC = sumCountInclusive(start, maxDate, dailyLookup);
-          const prevSC = sumCountInclusive(prevStart, prevEnd, dailyLookup);
+      return { fy, value: curr, yoy_pct: prev != null ? growthPct(curr, prev) : null, completeness: currAgg.completeness };
+    });
+  }, [sortedDaily, tableAgg, calcMode, baseline, calendar]);
 
-          const currVal =
-            calcMode === "sum"
-              ? currSC.sum
-              : (currSC.sum != null && currSC.count ? currSC.sum / currSC.count : null);
+  const hasData = sortedDaily.length > 0;
 
-          const prevVal =
-            calcMode === "sum"
-              ? prevSC.sum
-              : (prevSC.sum != null && prevSC.count ? prevSC.sum / prevSC.count : null);
+  // ✅ Caption for exported charts: title, source CSV and as-of date (latest entry)
+  const chartExport = (cardTitle: string, slug: string): CardExport | undefined => {
+    if (!hasData) return undefined;
+    const asOfIso = sortedDaily[sortedDaily.length - 1].date;
+    return {
+      title: `${title} · ${cardTitle}`,
+      source: defaultCsvPath.split("/").pop() || defaultCsvPath,
+      asOf: formatDDMMYYYY(asOfIso),
+      filename: `india_${type}_${slug}_${asOfIso}`,
+    };
+  };
 
-          yoy = currVal != null && prevVal != null ? growthPct(currVal, prevVal) : null;
-        }
-      }
+  // ✅ The Daily card also hosts the decomposition panels and the forecast; name the export after what is drawn
+  const forecastLabel = FORECAST_MODELS.find((m) => m.key === forecastModel)?.label ?? forecastModel;
+  const dailyCardExport =
+    aggFreq === "decomposition"
+      ? chartExport("Seasonal decomposition", "decomposition")
+      : forecastPoints.length
+        ? chartExport(
+            `Daily ${seriesLabel.toLowerCase()} + ${forecastHorizon}-day forecast (${forecastLabel})`,
+            `${aggFreq}_forecast_${forecastModel}`
+          )
+        : chartExport(`Daily ${seriesLabel.toLowerCase()}`, aggFreq);
+
+  const shownAnnotations = showAnnotations ? annotations : NO_ANNOTATIONS;
+  const dailyChartAnnotations = useMemo(
+    () => annotationOverlays(shownAnnotations, chartPeriods(dailyForChartWithControl)),
+    [shownAnnotations, dailyForChartWithControl]
+  );
+  const decompositionAnnotations = useMemo(
+    () => annotationOverlays(shownAnnotations, chartPeriods(decompositionForChart)),
+    [shownAnnotations, decompositionForChart]
+  );
+  const monthlyChartAnnotations = useMemo(
+    () => annotationOverlays(shownAnnotations, chartPeriods(monthlyForChart)),
+    [shownAnnotations, monthlyForChart]
+  );
 
-      return { fy, value: curr, yoy_pct: yoy };
+  const heatmapYearList = useMemo(() => {
+    if (!sortedDaily.length) return [];
+    const first = fyLabelFromIso(sortedDaily[0].date, calendar);
+    let label = fyLabelFromIso(sortedDaily[sortedDaily.length - 1].date, calendar);
+    const out = [label];
+    while (label !== first && (heatmapYears === 0 || out.length < heatmapYears)) {
+      label = prevFYLabel(label);
+      out.push(label);
+    }
+    return out;
+  }, [sortedDaily, heatmapYears, calendar]);
+
+  // ✅ FY-over-FY overlay (year-start to year-end axis, one line per FY, prior-year min–max band)
+  const fyOverlay = useMemo(() => {
+    if (!sortedDaily.length) return null;
+    const bounds: SeriesBounds = { firstIso: sortedDaily[0].date, lastIso: sortedDaily[sortedDaily.length - 1].date };
+    return buildFYOverlay(dailyLookup, bounds, {
+      mode: fyOverlayMode,
+      calcMode,
+      gapPolicy,
+      window: rollingWindow,
+      priorYears: fyOverlayYears,
+      calendar,
     });
-  }, [sortedDaily, calcMode, dailyLookup]);
+  }, [sortedDaily, dailyLookup, fyOverlayMode, calcMode, gapPolicy, rollingWindow, fyOverlayYears, calendar]);
+
+  const heatmapMissingDays = useMemo(() => {
+    if (!sortedDaily.length || !heatmapYearList.length) return 0;
+    const from = fyStartIsoFromFYLabel(heatmapYearList[heatmapYearList.length - 1], calendar);
+    let cur = from > sortedDaily[0].date ? from : sortedDaily[0].date;
+    const end = sortedDaily[sortedDaily.length - 1].date;
+    let n = 0;
+    while (cur <= end) {
+      if (!dailyLookup.has(cur)) n += 1;
+      cur = isoPlusDays(cur, 1);
+    }
+    return n;
+  }, [sortedDaily, heatmapYearList, dailyLookup, calendar]);
+
+  const healthIssues = useMemo(
+    () =>
+      dataHealthReport(
+        sortedDaily,
+        importIssues,
+        { window: healthWindow, sigma: healthSigma, jumpPct: healthJumpPct },
+        fmtValueRef.current
+      ),
+    [sortedDaily, importIssues, healthWindow, healthSigma, healthJumpPct]
+  );
 
-  const hasData = sortedDaily.length > 0;
+  const healthCounts = useMemo(() => {
+    const out: Record<DataIssueKind, number> = { gap: 0, duplicate: 0, outlier: 0, jump: 0, parse: 0 };
+    for (const i of healthIssues) out[i.kind] += 1;
+    return out;
+  }, [healthIssues]);
+
+  const healthShown = useMemo(
+    () => (healthFilter === "all" ? healthIssues : healthIssues.filter((i) => i.kind === healthFilter)),
+    [healthIssues, healthFilter]
+  );
+
+  // ✅ Data health link: zoom the daily chart to ±30 days around the finding
+  function showOnChart(iso: string, endIso?: string) {
+    setAggFreq("daily");
+    setFromIso(isoMinusDays(iso, 30));
+    setToIso(isoPlusDays(endIso ?? iso, 30));
+    dailyCardRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
+  // ✅ Heatmap click: load that day into "Add / Update a day"
+  function pickDay(iso: string) {
+    const v = dailyLookup.get(iso);
+    setDate(formatDDMMYYYY(iso));
+    setValueText(v != null ? String(v) : "");
+    setErrors([]);
+    setMsg(v != null ? `Editing ${formatDDMMYYYY(iso)}` : `No value for ${formatDDMMYYYY(iso)} yet`);
+    const el = valueInputRef.current;
+    if (el) {
+      el.scrollIntoView({ behavior: "smooth", block: "center" });
+      el.focus({ preventScroll: true });
+    }
+  }
 
   function upsertOne() {
     setMsg(null);
@@ -1221,34 +2823,58 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       return;
     }
 
-    const v = Number(String(valueText).replace(/,/g, ""));
-    if (!Number.isFinite(v)) {
+    const v = parseInputValue(valueText);
+    if (v == null) {
       setErrors([`Please enter a valid number.`]);
       return;
     }
 
-    setDataMap((prev) => {
-      const next = new Map(prev);
-      next.set(iso, v);
-      return next;
-    });
+    const next = new Map(dataMapRef.current);
+    next.set(iso, v);
+    commitEdit(next, "edit", "manual");
 
     setMsg(`Saved ${formatDDMMYYYY(iso)}: ${fmtValue(v)}`);
     setValueText("");
   }
 
-  function removeDate(isoDate: string) {
-    setDataMap((prev) => {
-      const next = new Map(prev);
-      next.delete(isoDate);
-      return next;
-    });
+  function removeDates(isoDates: string[]) {
+    const next = new Map(dataMapRef.current);
+    for (const iso of isoDates) next.delete(iso);
+    const done = commitEdit(next, "delete", "manual");
+    if (done && done.changes.length > 1) setMsg(`Removed ${done.changes.length} days. Undo (Edit history) brings them back.`);
+  }
+
+  function saveGridValue(iso: string, v: number) {
+    if (dataMapRef.current.get(iso) === v) return;
+    const next = new Map(dataMapRef.current);
+    next.set(iso, v);
+    commitEdit(next, "edit", "manual");
+    setMsg(`Saved ${formatDDMMYYYY(iso)}: ${fmtValue(v)}`);
+  }
+
+  function pasteIntoGrid(text: string, anchorIso: string | null) {
+    setMsg(null);
+    setErrors([]);
+    const { entries, errors: errs } = pastedEntries(text, anchorIso);
+    if (errs.length) setErrors(errs.slice(0, 12));
+    if (!entries.length) {
+      setErrors((e) => (e.length ? e : ["Nothing to paste."]));
+      return;
+    }
+    const done = commitEdit(mergeRecords(dataMapRef.current, entries), "edit", "pasted cells");
+    setMsg(
+      `Pasted ${entries.length} value(s), ${done?.changes.length ?? 0} day(s) changed` +
+        (errs.length ? ` (${errs.length} rows skipped)` : "") +
+        "."
+    );
   }
 
   function clearAll() {
     if (!confirm(`Clear all stored data from this browser for ${seriesLabel}?`)) return;
-    setDataMap(new Map());
-    setMsg("Cleared all data.");
+    // All layers, not tombstones for every day: the default CSV comes back on the next load
+    pushUndo(recordLayers(emptyLayers(), "clear", "manual"));
+    setImportIssues([]);
+    setMsg("Cleared all data. Undo (Edit history) brings it back.");
   }
 
   async function importCSV(file?: File) {
@@ -1258,14 +2884,16 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
     try {
       const text = await file.text();
-      const { parsed, errors: errs } = csvParse(text);
-      if (errs.length) setErrors(errs.slice(0, 12));
+      const { parsed, errors: errs } = csvParse(text, valueColumn, valueColumnKey);
       if (!parsed.length) {
-        setErrors((e) => (e.length ? e : ["No valid rows found in CSV."]));
+        setErrors(errs.length ? errs.slice(0, 12) : ["No valid rows found in CSV."]);
         return;
       }
-      setDataMap((prev) => mergeRecords(prev, parsed));
-      setMsg(`Imported ${parsed.length} rows${errs.length ? ` (with ${errs.length} issues)` : ""}.`);
+      // ✅ Nothing is merged until the preview is confirmed
+      const preview = buildImportPreview(dataMapRef.current, parsed, errs, file.name);
+      setPendingImport({ preview, issues: [...findDuplicates(parsed, dataMapRef.current, fmtValue), ...parseIssues(errs)] });
+      setImportRowStrategy({});
+      setImportPreviewTab(preview.counts.changed ? "changed" : preview.counts.new ? "new" : "unchanged");
     } catch {
       setErrors(["Could not read CSV."]);
     } finally {
@@ -1273,6 +2901,86 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     }
   }
 
+  function confirmImport() {
+    if (!pendingImport) return;
+    const { preview, issues } = pendingImport;
+    const next = resolveImport(dataMapRef.current, preview, importStrategy, importRowStrategy, importThresholdPct);
+    const done = commitEdit(next, "import", preview.fileName);
+    const updated = done?.changes.filter((c) => c.before != null).length ?? 0;
+    const kept = preview.counts.changed - updated;
+    setImportIssues(issues);
+    setPendingImport(null);
+    setMsg(
+      `Imported ${preview.fileName}: ${preview.counts.new} new, ${updated} updated` +
+        (kept ? `, ${kept} kept as stored` : "") +
+        (preview.rejected.length ? `, ${preview.rejected.length} rows rejected` : "") +
+        "." +
+        (issues.length ? " See Data health for details." : "")
+    );
+  }
+
+  function addAnnotation() {
+    setMsg(null);
+    setErrors([]);
+    const label = annLabel.trim();
+    if (!annStart || !label) {
+      setErrors(["Annotation needs a start date and a label."]);
+      return;
+    }
+    if (annEnd && annEnd < annStart) {
+      setErrors(["Annotation end date is before its start date."]);
+      return;
+    }
+    const a: Annotation = {
+      id: newAnnotationId(),
+      start: annStart,
+      end: annEnd && annEnd !== annStart ? annEnd : undefined,
+      label,
+      category: annCategory,
+    };
+    setAnnotations((prev) => sortAnnotations([...prev, a]));
+    setAnnLabel("");
+    setAnnEnd("");
+    setMsg(`Added annotation “${label}”.`);
+  }
+
+  function deleteAnnotation(id: string) {
+    setAnnotations((prev) => prev.filter((a) => a.id !== id));
+  }
+
+  function exportAnnotations() {
+    const blob = new Blob([annotationsToJSON(type, annotations)], { type: "application/json;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `india_${type}_annotations.json`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  async function importAnnotations(file?: File) {
+    setMsg(null);
+    setErrors([]);
+    if (!file) return;
+
+    try {
+      const { annotations: incoming, errors: errs } = parseAnnotationsJSON(await file.text());
+      if (errs.length) setErrors(errs.slice(0, 12));
+      if (!incoming.length) {
+        setErrors((e) => (e.length ? e : ["No annotations found in file."]));
+        return;
+      }
+      setAnnotations((prev) => mergeAnnotations(prev, incoming));
+      setMsg(`Imported ${incoming.length} annotation(s)${errs.length ? ` (with ${errs.length} issues)` : ""}.`);
+    } catch {
+      setErrors(["Could not read annotations file."]);
+    } finally {
+      if (annFileRef.current) annFileRef.current.value = "";
+    }
+  }
+
   function exportCSV() {
     const header = `date,${valueColumnKey}`;
     // ✅ export uses dd/mm/yyyy
@@ -1280,21 +2988,120 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     downloadCSV(`india_${type}_${new Date().toISOString().slice(0, 10)}.csv`, [header, ...lines].join("\n"));
   }
 
+  // ✅ Workbook: raw daily data + the monthly / weekly / yearly tables (same rows as on screen)
+  function exportXLSX() {
+    const valueHeader = `${periodValueLabel} (${unitLabel})`;
+    const dataHeader = { header: "Days recorded", kind: "share", width: 14 } as const;
+    const monthlyRows: XlsxSheet["rows"] = monthlyForChart.map((m) => [m.month, m.value, m.mom_pct, m.yoy_pct, m.completeness]);
+    if (monthlyFooterAvgForPeakDemand != null) monthlyRows.push(["Avg (24M)", monthlyFooterAvgForPeakDemand, null, null, null]);
+
+    const sheets: XlsxSheet[] = [
+      {
+        name: "Daily",
+        columns: [
+          { header: "Date", kind: "date" },
+          { header: `${seriesLabel} (${unitLabel})`, kind: "value", width: 20 },
+        ],
+        rows: sortedDaily.map((d) => [d.date, d.value]),
+      },
+      {
+        name: "Monthly",
+        columns: [
+          { header: "Month", kind: "text" },
+          { header: valueHeader, kind: "value", width: 20 },
+          { header: "MoM%", kind: "pct" },
+          { header: `${yoyLabel}%`, kind: "pct" },
+          dataHeader,
+        ],
+        rows: monthlyRows,
+      },
+      {
+        name: "Weekly",
+        columns: [
+          { header: "Week starting", kind: "date", width: 16 },
+          { header: valueHeader, kind: "value", width: 20 },
+          { header: "WoW%", kind: "pct" },
+          { header: `${yoyLabel}%`, kind: "pct" },
+          dataHeader,
+        ],
+        rows: weeklyRows.map((w) => [w.weekStart, w.value, w.wow_pct, w.yoy_pct, w.completeness]),
+      },
+      {
+        name: fyWord,
+        columns: [
+          { header: fyWord, kind: "text" },
+          { header: valueHeader, kind: "value", width: 20 },
+          { header: `${yoyLabel}%`, kind: "pct" },
+          dataHeader,
+        ],
+        rows: yearlyFYRows.map((r) => [r.fy, r.value, r.yoy_pct, r.completeness]),
+      },
+    ];
+
+    try {
+      downloadBlob(`india_${type}_${new Date().toISOString().slice(0, 10)}.xlsx`, buildXlsx(sheets, valueDisplay));
+    } catch {
+      setErrors(["Could not build the Excel workbook."]);
+    }
+  }
+
   function loadSample() {
-    const { parsed } = csvParse(sampleCSV(valueColumnKey));
-    setDataMap((prev) => mergeRecords(prev, parsed));
+    const { parsed } = csvParse(sampleCSV(valueColumnKey, valueColumn), valueColumn, valueColumnKey);
+    commitEdit(mergeRecords(dataMapRef.current, parsed), "sample", "sample data");
     setMsg("Loaded sample data.");
   }
 
   async function fetchLatestFromCEA() {
-    setFetchStatus("Auto-fetch not enabled for this tab.");
+    if (!autoFetcher) {
+      setFetchStatus("Auto-fetch not enabled for this tab.");
+      return;
+    }
+
+    setMsg(null);
+    setErrors([]);
+
+    // Reports are published the day after, so fetch up to yesterday (local date)
+    const toFetch = isoMinusDays(localTodayIso(), 1);
+    const fromFetch = sortedDaily.length ? isoPlusDays(sortedDaily[sortedDaily.length - 1].date, 1) : isoMinusDays(toFetch, 6);
+
+    if (fromFetch > toFetch) {
+      setFetchStatus(`Already up to date (latest ${formatDDMMYYYY(sortedDaily[sortedDaily.length - 1].date)}).`);
+      return;
+    }
+
+    setFetchStatus(`Fetching ${formatDDMMYYYY(fromFetch)} to ${formatDDMMYYYY(toFetch)} from ${autoFetcher.label}…`);
+    try {
+      const { rows, errors: errs } = await autoFetcher.fetchRange(fromFetch, toFetch);
+      if (errs.length) setErrors(errs.slice(0, 12));
+      if (!rows.length) {
+        setFetchStatus("Auto-fetch found no new days.");
+        return;
+      }
+      const fetched = new Map(rows.map((r) => [r.date, r.value] as const));
+      const underEdits = rows.filter((r) => layersRef.current.override.has(r.date)).length;
+      pushUndo(recordLayers(withLayerRows(layersRef.current, "auto", fetched, false), "auto_fetch", autoFetcher.label));
+      setFetchStatus(
+        `Fetched ${rows.length} day(s)${errs.length ? ` (with ${errs.length} issues)` : ""}` +
+          (underEdits ? `; ${underEdits} edited day(s) keep your values.` : ".")
+      );
+    } catch {
+      setFetchStatus(null);
+      setErrors([`Auto-fetch failed (${autoFetcher.label}).`]);
+    }
   }
 
   const periodValueLabel = calcMode === "avg" ? "Avg" : "Total";
-  const ytdLabel = calcMode === "avg" ? "YTD Avg (from 1 Apr)" : "YTD Total (from 1 Apr)";
-
-  const rollingAvgLabel = "Last 30 Days Rolling Avg (YoY Growth)";
-  const rollingSumLabel = "Last 30 Days Rolling Sum (YoY Growth)";
+  const yearStartText = `1 ${MONTH_NAMES[yearStartMonth(calendar) - 1]}`;
+  const ytdLabel = calcMode === "avg" ? `YTD Avg (from ${yearStartText})` : `YTD Total (from ${yearStartText})`;
+  const fyWord = yearPrefix(calendar);
+
+  const rollingAvgLabel = `Last ${rollingWindow} Days Rolling Avg (${yoyLabel} Growth)`;
+  const rollingSumLabel = `Last ${rollingWindow} Days Rolling Sum (${yoyLabel} Growth)`;
+  const rollingMedianLabel = `Last ${rollingWindow} Days Rolling Median (${yoyLabel} Growth)`;
+  const rollingEmaLabel = `${rollingWindow}-Day Exponential Moving Avg (${yoyLabel} Growth)`;
+  const isRollingView = aggFreq.startsWith("rolling_");
+  const storageNearlyFull = storage?.usage != null && storage.quota ? storage.usage / storage.quota > 0.9 : false;
+  const baselineLabelLong = isDefaultBaseline(baseline) ? "previous year" : `baseline: ${baselineShortLabel(baseline)}`;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -1307,7 +3114,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
           <div className="flex flex-wrap gap-2">
             <button
-              onClick={() => downloadCSV(`sample_${type}.csv`, sampleCSV(valueColumnKey))}
+              onClick={() => downloadCSV(`sample_${type}.csv`, sampleCSV(valueColumnKey, valueColumn))}
               className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
             >
               Download sample CSV
@@ -1330,6 +3137,14 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
               Export CSV
             </button>
 
+            <button
+              onClick={exportXLSX}
+              disabled={!hasData}
+              className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Export Excel
+            </button>
+
             <button
               onClick={clearAll}
               disabled={!hasData}
@@ -1341,9 +3156,10 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
         </div>
 
         {/* Daily card */}
-        <div className="mt-6 grid grid-cols-1 gap-4">
+        <div ref={dailyCardRef} className="mt-6 grid grid-cols-1 gap-4">
           <Card
             title={`Daily ${seriesLabel.toLowerCase()}`}
+            exportAs={dailyCardExport}
             right={
               hasData ? (
                 <div className="flex items-center gap-2">
@@ -1411,112 +3227,260 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
                       <div className="mt-3">
                         <div className="text-xs font-medium text-slate-600">View as</div>
+                        <div className="mt-1 flex gap-2">
+                          <select
+                            value={aggFreq}
+                            onChange={(e) => setAggFreq(e.target.value as ViewAs)}
+                            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                          >
+                            <option value="rolling_avg">{rollingAvgLabel}</option>
+                            <option value="daily">Daily</option>
+                            <option value="weekly">{calcMode === "avg" ? "Weekly (Avg)" : "Weekly (Sum)"}</option>
+                            <option value="monthly">{calcMode === "avg" ? "Monthly (Avg)" : "Monthly (Sum)"}</option>
+                            {supportsRollingSum ? <option value="rolling_sum">{rollingSumLabel}</option> : null}
+                            <option value="rolling_median">{rollingMedianLabel}</option>
+                            <option value="rolling_ema">{rollingEmaLabel}</option>
+                            <option value="decomposition">Seasonal decomposition (trend / seasonal / residual)</option>
+                          </select>
+                          {isRollingView ? (
+                            <select
+                              value={rollingWindow}
+                              onChange={(e) => setRollingWindow(Number(e.target.value))}
+                              title="Rolling window"
+                              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                            >
+                              {ROLLING_WINDOWS.map((n) => (
+                                <option key={n} value={n}>
+                                  {n}d
+                                </option>
+                              ))}
+                            </select>
+                          ) : null}
+                        </div>
+                      </div>
+
+                      <div className="mt-3">
+                        <div className="text-xs font-medium text-slate-600">Missing days</div>
                         <select
-                          value={aggFreq}
-                          onChange={(e) => setAggFreq(e.target.value as ViewAs)}
+                          value={gapPolicy}
+                          onChange={(e) => setGapPolicy(e.target.value as GapPolicy)}
                           className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
                         >
-                          <option value="rolling30_avg">{rollingAvgLabel}</option>
-                          <option value="daily">Daily</option>
-                          <option value="weekly">{calcMode === "avg" ? "Weekly (Avg)" : "Weekly (Sum)"}</option>
-                          <option value="monthly">{calcMode === "avg" ? "Monthly (Avg)" : "Monthly (Sum)"}</option>
-                          {supportsRollingSum ? (
-                            <option value="rolling30_sum">{rollingSumLabel}</option>
-                          ) : null}
+                          {GAP_POLICIES.map((g) => (
+                            <option key={g.key} value={g.key}>
+                              {g.label}
+                            </option>
+                          ))}
                         </select>
-                      </div>
-                    </div>
-
-                    <div className="lg:w-[360px] lg:shrink-0">
-                      <div className="rounded-xl bg-white p-3 ring-1 ring-slate-200">
-                        <div className="flex items-center justify-between gap-2">
-                          <div className="text-xs font-semibold text-slate-700">Series toggles</div>
-                          <label className="flex items-center gap-2 text-[12px] text-slate-700">
-                            <input
-                              type="checkbox"
-                              checked={showControlLines}
-                              onChange={(e) => setShowControlLines(e.target.checked)}
-                              className="h-4 w-4 rounded border-slate-300"
-                            />
-                            <span className="font-medium">Show Control Lines</span>
-                          </label>
+                        <div className="mt-1 text-[11px] text-slate-500">
+                          Applies to rolling, weekly and monthly values and the Quick stats; tooltips show the % of days recorded.
                         </div>
+                      </div>
 
-                        <div className="mt-2 grid grid-cols-2 gap-2 text-[12px] text-slate-700">
-                          <label className="flex items-center gap-2">
-                            <input
-                              type="checkbox"
-                              checked={showUnitsSeries}
-                              onChange={(e) => setShowUnitsSeries(e.target.checked)}
-                              className="h-4 w-4 rounded border-slate-300"
-                            />
-                            <span className="font-medium">
-                              {calcMode === "avg" && aggFreq !== "daily" ? `${periodValueLabel} Current` : "Total Current"}
-                            </span>
-                          </label>
-
-                          <label className="flex items-center gap-2">
-                            <input
-                              type="checkbox"
-                              checked={showPrevYearSeries}
-                              onChange={(e) => setShowPrevYearSeries(e.target.checked)}
-                              className="h-4 w-4 rounded border-slate-300"
-                            />
-                            <span className="font-medium">
-                              {calcMode === "avg" && aggFreq !== "daily"
-                                ? `${periodValueLabel} (previous year)`
-                                : "Total (previous year)"}
-                            </span>
-                          </label>
-
-                          <label className="flex items-center gap-2">
-                            <input
-                              type="checkbox"
-                              checked={showYoYSeries}
-                              onChange={(e) => setShowYoYSeries(e.target.checked)}
-                              className="h-4 w-4 rounded border-slate-300"
-                            />
-                            <span className="font-medium">YoY %</span>
-                          </label>
-
-                          <label className="flex items-center gap-2">
-                            <input
-                              type="checkbox"
-                              checked={showMoMSeries}
-                              onChange={(e) => setShowMoMSeries(e.target.checked)}
-                              className="h-4 w-4 rounded border-slate-300"
-                            />
-                            <span className="font-medium">{aggFreq === "weekly" ? "WoW %" : "MoM %"}</span>
-                          </label>
-                        </div>
-
-                        <div className="mt-2 flex flex-wrap gap-2">
-                          <button
-                            type="button"
-                            onClick={() => {
-                              setShowUnitsSeries(false);
-                              setShowPrevYearSeries(false);
-                              setShowMoMSeries(false);
-                              setShowYoYSeries(true);
-                            }}
-                            className="rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white hover:bg-slate-800"
-                          >
-                            YoY% only
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => {
-                              setShowUnitsSeries(true);
-                              setShowPrevYearSeries(true);
-                              setShowMoMSeries(false);
-                              setShowYoYSeries(false);
+                      <div className="mt-3">
+                        <div className="text-xs font-medium text-slate-600">Compare against</div>
+                        <div className="mt-1 flex gap-2">
+                          <select
+                            value={baseline.mode === "years_ago" ? `years_ago:${baseline.years}` : baseline.mode}
+                            onChange={(e) => {
+                              const v = e.target.value;
+                              if (v.startsWith("years_ago:")) setBaseline((b) => ({ ...b, mode: "years_ago", years: Number(v.slice(10)) }));
+                              else setBaseline((b) => ({ ...b, mode: v as Baseline["mode"] }));
                             }}
-                            className="rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
                           >
-                            Totals only
-                          </button>
+                            {BASELINE_YEARS_AGO.map((n) => (
+                              <option key={n} value={`years_ago:${n}`}>
+                                {n === 1 ? "Previous year" : `${n} years ago`}
+                              </option>
+                            ))}
+                            <option value="avg_3y">Average of last 3 years</option>
+                            <option value="ref_fy">Reference {fyWord}</option>
+                          </select>
+                          {baseline.mode === "ref_fy" ? (
+                            <select
+                              value={baseline.fy}
+                              onChange={(e) => setBaseline((b) => ({ ...b, fy: e.target.value }))}
+                              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                            >
+                              {(yearlyFYRows.some((r) => r.fy === baseline.fy) ? yearlyFYRows.map((r) => r.fy) : [baseline.fy, ...yearlyFYRows.map((r) => r.fy)]).map(
+                                (fy) => (
+                                  <option key={fy} value={fy}>
+                                    {fy}
+                                  </option>
+                                )
+                              )}
+                            </select>
+                          ) : null}
+                        </div>
+                        <div className="mt-1 text-[11px] text-slate-500">
+                          {isDefaultBaseline(baseline)
+                            ? "Growth columns are YoY (same period last year)."
+                            : `Growth columns and the comparison line use ${baselineShortLabel(baseline)} as the base (“${yoyLabel}”).`}
                         </div>
                       </div>
+                    </div>
+
+                    <div className="lg:w-[360px] lg:shrink-0">
+                      {aggFreq === "decomposition" ? (
+                        <div className="rounded-xl bg-white p-3 text-[12px] text-slate-700 ring-1 ring-slate-200">
+                          <div className="text-xs font-semibold text-slate-700">Seasonal decomposition</div>
+                          <div className="mt-2">
+                            Daily values split into trend + seasonal + residual over the full history
+                            {decomposition?.periods.includes(365) ? " (weekly and annual cycles)." : " (weekly cycle; annual needs 2+ years of data)."}
+                          </div>
+                          <div className="mt-1">
+                            Residual outliers (beyond mean ± 2σ):{" "}
+                            <span className="font-semibold tabular-nums">{decomposition?.outliers.length ?? 0}</span>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="rounded-xl bg-white p-3 ring-1 ring-slate-200">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="text-xs font-semibold text-slate-700">Series toggles</div>
+                            <label className="flex items-center gap-2 text-[12px] text-slate-700">
+                              <input
+                                type="checkbox"
+                                checked={showControlLines}
+                                onChange={(e) => setShowControlLines(e.target.checked)}
+                                className="h-4 w-4 rounded border-slate-300"
+                              />
+                              <span className="font-medium">Show Control Lines</span>
+                            </label>
+                          </div>
+
+                          <div className="mt-2 grid grid-cols-2 gap-2 text-[12px] text-slate-700">
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={showUnitsSeries}
+                                onChange={(e) => setShowUnitsSeries(e.target.checked)}
+                                className="h-4 w-4 rounded border-slate-300"
+                              />
+                              <span className="font-medium">
+                                {calcMode === "avg" && aggFreq !== "daily" ? `${periodValueLabel} Current` : "Total Current"}
+                              </span>
+                            </label>
+
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={showPrevYearSeries}
+                                onChange={(e) => setShowPrevYearSeries(e.target.checked)}
+                                className="h-4 w-4 rounded border-slate-300"
+                              />
+                              <span className="font-medium">
+                                {calcMode === "avg" && aggFreq !== "daily"
+                                  ? `${periodValueLabel} (${baselineLabelLong})`
+                                  : `Total (${baselineLabelLong})`}
+                              </span>
+                            </label>
+
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={showYoYSeries}
+                                onChange={(e) => setShowYoYSeries(e.target.checked)}
+                                className="h-4 w-4 rounded border-slate-300"
+                              />
+                              <span className="font-medium">{yoyLabel} %</span>
+                            </label>
+
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={showMoMSeries}
+                                onChange={(e) => setShowMoMSeries(e.target.checked)}
+                                className="h-4 w-4 rounded border-slate-300"
+                              />
+                              <span className="font-medium">{aggFreq === "weekly" ? "WoW %" : "MoM %"}</span>
+                            </label>
+                          </div>
+
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setShowUnitsSeries(false);
+                                setShowPrevYearSeries(false);
+                                setShowMoMSeries(false);
+                                setShowYoYSeries(true);
+                              }}
+                              className="rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white hover:bg-slate-800"
+                            >
+                              YoY% only
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setShowUnitsSeries(true);
+                                setShowPrevYearSeries(true);
+                                setShowMoMSeries(false);
+                                setShowYoYSeries(false);
+                              }}
+                              className="rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                            >
+                              Totals only
+                            </button>
+                          </div>
+
+                          {enableForecast ? (
+                            <div className="mt-3 border-t border-slate-100 pt-2">
+                              <label className="flex items-center gap-2 text-[12px] text-slate-700">
+                                <input
+                                  type="checkbox"
+                                  checked={showForecast}
+                                  onChange={(e) => {
+                                    setShowForecast(e.target.checked);
+                                    if (e.target.checked) {
+                                      setAggFreq("daily");
+                                      setShowUnitsSeries(true);
+                                    }
+                                  }}
+                                  className="h-4 w-4 rounded border-slate-300"
+                                />
+                                <span className="font-medium">Show forecast</span>
+                              </label>
+                              {showForecast ? (
+                                <div className="mt-2 grid grid-cols-2 gap-2">
+                                  <select
+                                    value={forecastModel}
+                                    onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+                                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-[12px] text-slate-700"
+                                  >
+                                    {FORECAST_MODELS.map((m) => (
+                                      <option key={m.key} value={m.key}>
+                                        {m.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <select
+                                    value={forecastHorizon}
+                                    onChange={(e) => setForecastHorizon(Number(e.target.value))}
+                                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-[12px] text-slate-700"
+                                  >
+                                    <option value={30}>Next 30 days</option>
+                                    <option value={60}>Next 60 days</option>
+                                    <option value={90}>Next 90 days</option>
+                                  </select>
+                                </div>
+                              ) : null}
+                              {showForecast && aggFreq !== "daily" ? (
+                                <div className="mt-1 text-[11px] text-slate-500">Forecast is drawn on the Daily view.</div>
+                              ) : null}
+                              {forecastActive && !forecastPoints.length ? (
+                                <div className="mt-1 text-[11px] text-slate-500">Not enough history for this model.</div>
+                              ) : null}
+                              {forecastPoints.length && !forecastHasBand ? (
+                                <div className="mt-1 text-[11px] text-slate-500">
+                                  No backtest available (too little history), so no interval is drawn.
+                                </div>
+                              ) : null}
+                            </div>
+                          ) : null}
+                        </div>
+
+                      )}
 
                       <div className="mt-2 text-[11px] text-slate-500">
                         Rolling Avg/Sum uses a 30-day window and compares against the same 30-day window last year.
@@ -1525,123 +3489,643 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                   </div>
                 </div>
 
-                <div className="h-[380px] sm:h-[460px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={dailyForChartWithControl} margin={{ top: 12, right: 42, bottom: 12, left: 42 }}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
-
-                      {anyTotalsShown ? (
-                        <YAxis
-                          yAxisId="left"
-                          width={92}
-                          tickMargin={10}
-                          domain={leftAxisDomain ?? ["auto", "auto"]}
-                          padding={{ top: 10, bottom: 10 }}
-                          tick={{ fontSize: 12 }}
-                          tickFormatter={(v) => {
-                            const n = asFiniteNumber(v);
-                            if (n == null) return "—";
-                            return new Intl.NumberFormat("en-IN", {
-                              minimumFractionDigits: valueDisplay.decimals,
-                              maximumFractionDigits: valueDisplay.decimals,
-                            }).format(Number(n.toFixed(valueDisplay.decimals)));
+                {aggFreq === "decomposition" ? (
+                  <DecompositionCharts
+                    data={decompositionForChart}
+                    stats={decomposition?.residualStats ?? null}
+                    fmtValue={fmtValue}
+                    decimals={valueDisplay.decimals}
+                    annotations={decompositionAnnotations}
+                  />
+                ) : (
+                  <div className="h-[380px] sm:h-[460px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={dailyForChartWithControl} margin={{ top: 12, right: 42, bottom: 12, left: 42 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+
+                        {anyTotalsShown ? (
+                          <YAxis
+                            yAxisId="left"
+                            width={92}
+                            tickMargin={10}
+                            domain={leftAxisDomain ?? ["auto", "auto"]}
+                            padding={{ top: 10, bottom: 10 }}
+                            tick={{ fontSize: 12 }}
+                            tickFormatter={(v) => {
+                              const n = asFiniteNumber(v);
+                              if (n == null) return "—";
+                              return new Intl.NumberFormat("en-IN", {
+                                minimumFractionDigits: valueDisplay.decimals,
+                                maximumFractionDigits: valueDisplay.decimals,
+                              }).format(Number(n.toFixed(valueDisplay.decimals)));
+                            }}
+                          />
+                        ) : null}
+
+                        {anyPctShown ? (
+                          <YAxis
+                            yAxisId="right"
+                            orientation="right"
+                            width={84}
+                            tickMargin={10}
+                            domain={rightAxisDomain ?? ["auto", "auto"]}
+                            padding={{ top: 10, bottom: 10 }}
+                            tick={{ fontSize: 12 }}
+                            tickFormatter={(v) => {
+                              const n = asFiniteNumber(v);
+                              return n == null ? "—" : `${Number(n.toFixed(2)).toFixed(2)}%`;
+                            }}
+                          />
+                        ) : null}
+
+                        <Tooltip
+                          wrapperStyle={{ outline: "none" }}
+                          formatter={(v: any, name: any, item: any) => {
+                            const key = (item && (item.dataKey as string)) || (name as string);
+                            const num = asFiniteNumber(v);
+
+                            const labelCurr =
+                              calcMode === "avg" && aggFreq !== "daily" ? `${periodValueLabel} Current` : "Total Current";
+                            const labelPY =
+                              calcMode === "avg" && aggFreq !== "daily"
+                                ? `${periodValueLabel} (${baselineLabelLong})`
+                                : `Total (${baselineLabelLong})`;
+
+                            if (key === "units") return [fmtValue(num ?? null), labelCurr];
+                            if (key === "prev_year_units") return [fmtValue(num ?? null), labelPY];
+                            if (key === "yoy_pct") return [fmtPct(num ?? null), `${yoyLabel} %`];
+                            if (key === "mom_pct") return [fmtPct(num ?? null), aggFreq === "weekly" ? "WoW %" : "MoM %"];
+
+                            if (key === "__mean_units") return [fmtValue(num ?? null), "Mean"];
+                            if (key === "__p1_units") return [fmtValue(num ?? null), "+1σ"];
+                            if (key === "__p2_units") return [fmtValue(num ?? null), "+2σ"];
+                            if (key === "__m1_units") return [fmtValue(num ?? null), "-1σ"];
+                            if (key === "__m2_units") return [fmtValue(num ?? null), "-2σ"];
+
+                            if (key === "__mean_yoy") return [fmtPct(num ?? null), `Mean (${yoyLabel}%)`];
+                            if (key === "__p1_yoy") return [fmtPct(num ?? null), `+1σ (${yoyLabel}%)`];
+                            if (key === "__p2_yoy") return [fmtPct(num ?? null), `+2σ (${yoyLabel}%)`];
+                            if (key === "__m1_yoy") return [fmtPct(num ?? null), `-1σ (${yoyLabel}%)`];
+                            if (key === "__m2_yoy") return [fmtPct(num ?? null), `-2σ (${yoyLabel}%)`];
+
+                            if (key === "__forecast") return [fmtValue(num ?? null), "Forecast"];
+                            if (key === "__band" && Array.isArray(v)) {
+                              return [`${fmtValue(asFiniteNumber(v[0]))} – ${fmtValue(asFiniteNumber(v[1]))}`, "Forecast 95% interval"];
+                            }
+
+                            return [v, String(name)];
                           }}
-                        />
-                      ) : null}
-
-                      {anyPctShown ? (
-                        <YAxis
-                          yAxisId="right"
-                          orientation="right"
-                          width={84}
-                          tickMargin={10}
-                          domain={rightAxisDomain ?? ["auto", "auto"]}
-                          padding={{ top: 10, bottom: 10 }}
-                          tick={{ fontSize: 12 }}
-                          tickFormatter={(v) => {
-                            const n = asFiniteNumber(v);
-                            return n == null ? "—" : `${Number(n.toFixed(2)).toFixed(2)}%`;
+                          labelFormatter={(l: any, payload: any) => {
+                            const p = payload && payload[0] ? payload[0].payload : null;
+                            if (p?.edited_note) return `Label: ${l} · ${p.edited_note}`;
+                            if (!p || p.completeness == null) return `Label: ${l}`;
+                            return `Label: ${l} · data ${completenessText(p.completeness)} (PY ${completenessText(p.prev_completeness)})`;
                           }}
                         />
-                      ) : null}
+                        <Legend />
+
+                        {anyTotalsShown || anyPctShown
+                          ? renderAnnotations(dailyChartAnnotations, { yAxisId: anyTotalsShown ? "left" : "right" })
+                          : null}
+
+                        {showUnitsSeries ? (
+                          <Line yAxisId="left" type="monotone" dataKey="units" name="Current" dot={false} strokeWidth={2} stroke="#dc2626" />
+                        ) : null}
+
+                        {showPrevYearSeries ? (
+                          <Line yAxisId="left" type="monotone" dataKey="prev_year_units" name={isDefaultBaseline(baseline) ? "Previous year" : `Baseline (${baselineShortLabel(baseline)})`} dot={false} strokeWidth={2} stroke="#6b7280" connectNulls />
+                        ) : null}
+
+                        {showYoYSeries ? (
+                          <Line yAxisId="right" type="monotone" dataKey="yoy_pct" name={`${yoyLabel} %`} dot={false} strokeWidth={2} stroke="#16a34a" connectNulls />
+                        ) : null}
+
+                        {showMoMSeries ? (
+                          <Line yAxisId="right" type="monotone" dataKey="mom_pct" name={aggFreq === "weekly" ? "WoW %" : "MoM %"} dot={false} strokeWidth={2} stroke="#dc2626" connectNulls />
+                        ) : null}
+
+                        {showControlLines && controlStatsLeft ? (
+                          <>
+                            <Line yAxisId="left" type="monotone" dataKey="__mean_units" name="Mean" dot={false} strokeWidth={2} stroke="#000000" connectNulls />
+                            <Line yAxisId="left" type="monotone" dataKey="__p1_units" name="+1σ" dot={false} strokeWidth={2} stroke="#2563eb" strokeDasharray="6 4" connectNulls />
+                            <Line yAxisId="left" type="monotone" dataKey="__p2_units" name="+2σ" dot={false} strokeWidth={2} stroke="#4f46e5" strokeDasharray="6 4" connectNulls />
+                            <Line yAxisId="left" type="monotone" dataKey="__m1_units" name="-1σ" dot={false} strokeWidth={2} stroke="#f97316" strokeDasharray="6 4" connectNulls />
+                            <Line yAxisId="left" type="monotone" dataKey="__m2_units" name="-2σ" dot={false} strokeWidth={2} stroke="#eab308" strokeDasharray="6 4" connectNulls />
+                          </>
+                        ) : null}
+
+                        {showControlLines && controlStatsYoY ? (
+                          <>
+                            <Line yAxisId="right" type="monotone" dataKey="__mean_yoy" name={`Mean (${yoyLabel}%)`} dot={false} strokeWidth={2} stroke="#000000" connectNulls />
+                            <Line yAxisId="right" type="monotone" dataKey="__p1_yoy" name={`+1σ (${yoyLabel}%)`} dot={false} strokeWidth={2} stroke="#2563eb" strokeDasharray="6 4" connectNulls />
+                            <Line yAxisId="right" type="monotone" dataKey="__p2_yoy" name={`+2σ (${yoyLabel}%)`} dot={false} strokeWidth={2} stroke="#4f46e5" strokeDasharray="6 4" connectNulls />
+                            <Line yAxisId="right" type="monotone" dataKey="__m1_yoy" name={`-1σ (${yoyLabel}%)`} dot={false} strokeWidth={2} stroke="#f97316" strokeDasharray="6 4" connectNulls />
+                            <Line yAxisId="right" type="monotone" dataKey="__m2_yoy" name={`-2σ (${yoyLabel}%)`} dot={false} strokeWidth={2} stroke="#eab308" strokeDasharray="6 4" connectNulls />
+                          </>
+                        ) : null}
+
+                        {forecastPoints.length ? (
+                          <>
+                            {forecastHasBand ? (
+                              <Area yAxisId="left" type="monotone" dataKey="__band" name="Forecast 95% interval" stroke="none" fill="#dc2626" fillOpacity={0.12} isAnimationActive={false} />
+                            ) : null}
+                            <Line yAxisId="left" type="monotone" dataKey="__forecast" name="Forecast" dot={false} strokeWidth={2} stroke="#dc2626" strokeDasharray="3 3" isAnimationActive={false} />
+                          </>
+                        ) : null}
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </>
+            )}
+          </Card>
 
-                      <Tooltip
-                        wrapperStyle={{ outline: "none" }}
-                        formatter={(v: any, name: any, item: any) => {
-                          const key = (item && (item.dataKey as string)) || (name as string);
-                          const num = asFiniteNumber(v);
+          {enableForecast && showForecast && hasData ? (
+            <Card
+              title="Forecast backtest (MAPE %)"
+              right={<div className="text-xs text-slate-500">Lower is better · click a row to use that model</div>}
+            >
+              <div className="overflow-auto rounded-2xl ring-1 ring-slate-200">
+                <table className="w-full border-collapse bg-white text-left text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-700">Model</th>
+                      {BACKTEST_HORIZONS.map((h) => (
+                        <th key={h} className="px-3 py-2 text-right text-xs font-semibold text-slate-700">
+                          {h}-day
+                        </th>
+                      ))}
+                      <th className="px-3 py-2 text-right text-xs font-semibold text-slate-700">Origins</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {backtestRows.map((r) => (
+                      <tr
+                        key={r.model}
+                        onClick={() => setForecastModel(r.model)}
+                        className={`cursor-pointer border-t border-slate-100 hover:bg-slate-50 ${
+                          r.model === forecastModel ? "bg-slate-50" : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2 font-medium text-slate-900">
+                          {r.label}
+                          {r.model === forecastModel ? <span className="ml-2 text-xs text-slate-500">(shown)</span> : null}
+                        </td>
+                        {BACKTEST_HORIZONS.map((h) => (
+                          <td
+                            key={h}
+                            className={`px-3 py-2 text-right tabular-nums ${
+                              bestBacktest[h] === r.model ? "font-semibold text-emerald-700" : "text-slate-700"
+                            }`}
+                          >
+                            {r.mape[h] != null ? `${r.mape[h]!.toFixed(2)}%` : "—"}
+                          </td>
+                        ))}
+                        <td className="px-3 py-2 text-right tabular-nums text-slate-500">{r.origins}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-2 text-xs text-slate-500">
+                Each model is re-fitted at up to 8 past cut-off dates (14 days apart) and scored on the days that followed;
+                MAPE averages steps 1…N. The shaded interval uses the same backtest errors.
+              </div>
+            </Card>
+          ) : null}
+        </div>
 
-                          const labelCurr =
-                            calcMode === "avg" && aggFreq !== "daily" ? `${periodValueLabel} Current` : "Total Current";
-                          const labelPY =
-                            calcMode === "avg" && aggFreq !== "daily"
-                              ? `${periodValueLabel} (previous year)`
-                              : "Total (previous year)";
-
-                          if (key === "units") return [fmtValue(num ?? null), labelCurr];
-                          if (key === "prev_year_units") return [fmtValue(num ?? null), labelPY];
-                          if (key === "yoy_pct") return [fmtPct(num ?? null), "YoY %"];
-                          if (key === "mom_pct") return [fmtPct(num ?? null), aggFreq === "weekly" ? "WoW %" : "MoM %"];
-
-                          if (key === "__mean_units") return [fmtValue(num ?? null), "Mean"];
-                          if (key === "__p1_units") return [fmtValue(num ?? null), "+1σ"];
-                          if (key === "__p2_units") return [fmtValue(num ?? null), "+2σ"];
-                          if (key === "__m1_units") return [fmtValue(num ?? null), "-1σ"];
-                          if (key === "__m2_units") return [fmtValue(num ?? null), "-2σ"];
-
-                          if (key === "__mean_yoy") return [fmtPct(num ?? null), "Mean (YoY%)"];
-                          if (key === "__p1_yoy") return [fmtPct(num ?? null), "+1σ (YoY%)"];
-                          if (key === "__p2_yoy") return [fmtPct(num ?? null), "+2σ (YoY%)"];
-                          if (key === "__m1_yoy") return [fmtPct(num ?? null), "-1σ (YoY%)"];
-                          if (key === "__m2_yoy") return [fmtPct(num ?? null), "-2σ (YoY%)"];
-
-                          return [v, String(name)];
-                        }}
-                        labelFormatter={(l: any) => `Label: ${l}`}
+        {/* FY-over-FY overlay */}
+        {hasData && fyOverlay ? (
+          <div className="mt-6 grid grid-cols-1 gap-4">
+            <Card
+              title={`${fyWord}-over-${fyWord}`}
+              exportAs={chartExport(`${fyWord}-over-${fyWord}`, `fy_overlay_${fyOverlayMode}`)}
+              right={
+                <div className="flex items-center gap-2">
+                  <select
+                    value={fyOverlayMode}
+                    onChange={(e) => setFyOverlayMode(e.target.value as FYOverlayMode)}
+                    className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700"
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="rolling">
+                      {rollingWindow}-day rolling {calcMode === "sum" ? "sum" : "avg"}
+                    </option>
+                    <option value="monthly">Monthly {periodValueLabel.toLowerCase()}</option>
+                  </select>
+                  <select
+                    value={fyOverlayYears}
+                    onChange={(e) => setFyOverlayYears(Number(e.target.value))}
+                    className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700"
+                  >
+                    <option value={3}>vs last 3 {fyWord}s</option>
+                    <option value={5}>vs last 5 {fyWord}s</option>
+                    <option value={10}>vs last 10 {fyWord}s</option>
+                  </select>
+                </div>
+              }
+            >
+              <div className="h-[300px] sm:h-[360px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={fyOverlay.rows} margin={{ top: 10, right: 18, bottom: 10, left: 12 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                    <YAxis
+                      tick={{ fontSize: 12 }}
+                      domain={["auto", "auto"]}
+                      tickFormatter={(v) => {
+                        const n = asFiniteNumber(v);
+                        if (n == null) return "—";
+                        return new Intl.NumberFormat("en-IN", {
+                          minimumFractionDigits: valueDisplay.decimals,
+                          maximumFractionDigits: valueDisplay.decimals,
+                        }).format(Number(n.toFixed(valueDisplay.decimals)));
+                      }}
+                    />
+                    <Tooltip
+                      formatter={(v: any, name: any, item: any) => {
+                        if (item?.dataKey === "__band" && Array.isArray(v)) {
+                          return [`${fmtValue(asFiniteNumber(v[0]))} – ${fmtValue(asFiniteNumber(v[1]))}`, `Prior ${fyWord}s min–max`];
+                        }
+                        return [fmtValue(asFiniteNumber(v)), String(name)];
+                      }}
+                    />
+                    <Legend />
+                    <Area
+                      type="monotone"
+                      dataKey="__band"
+                      name={`Prior ${fyWord}s min–max`}
+                      stroke="none"
+                      fill="#94a3b8"
+                      fillOpacity={0.25}
+                      isAnimationActive={false}
+                    />
+                    {fyOverlay.prior.map((fy, i) => (
+                      <Line
+                        key={fy}
+                        type="monotone"
+                        dataKey={fy}
+                        name={fy}
+                        dot={false}
+                        strokeWidth={1.5}
+                        stroke={FY_OVERLAY_COLORS[(fyOverlay.prior.length - 1 - i) % FY_OVERLAY_COLORS.length]}
+                        strokeOpacity={0.8}
+                        isAnimationActive={false}
                       />
-                      <Legend />
-
-                      {showUnitsSeries ? (
-                        <Line yAxisId="left" type="monotone" dataKey="units" name="Current" dot={false} strokeWidth={2} stroke="#dc2626" />
-                      ) : null}
-
-                      {showPrevYearSeries ? (
-                        <Line yAxisId="left" type="monotone" dataKey="prev_year_units" name="Previous year" dot={false} strokeWidth={2} stroke="#6b7280" connectNulls />
-                      ) : null}
-
-                      {showYoYSeries ? (
-                        <Line yAxisId="right" type="monotone" dataKey="yoy_pct" name="YoY %" dot={false} strokeWidth={2} stroke="#16a34a" connectNulls />
-                      ) : null}
+                    ))}
+                    <Line
+                      type="monotone"
+                      dataKey={fyOverlay.current}
+                      name={`${fyOverlay.current} (current)`}
+                      dot={fyOverlayMode === "monthly"}
+                      strokeWidth={3}
+                      stroke="#dc2626"
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="mt-2 text-xs text-slate-500">
+                Each line is one {calendar.yearMode === "calendar" ? "calendar" : "fiscal"} year ({yearSpanLabel(calendar)}) on
+                the same calendar axis; the shaded band is the lowest and highest of the prior years shown. Rolling and monthly values follow the missing-day policy
+                {fyOverlayMode === "monthly" ? "; the current month may be partial" : ""}.
+              </div>
+            </Card>
+          </div>
+        ) : null}
+
+        {/* Calendar heatmap */}
+        {hasData ? (
+          <div className="mt-6 grid grid-cols-1 gap-4">
+            <Card
+              title="Calendar heatmap"
+              exportAs={chartExport(
+                heatmapMode === "value" ? "Calendar heatmap" : `Calendar heatmap (${yoyLabel} %)`,
+                `heatmap_${heatmapMode}`
+              )}
+              right={
+                <div className="flex items-center gap-2">
+                  <select
+                    value={heatmapMode}
+                    onChange={(e) => setHeatmapMode(e.target.value as HeatmapMode)}
+                    className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700"
+                  >
+                    <option value="value">Colour by value</option>
+                    <option value="yoy_pct">Colour by {yoyLabel} %</option>
+                  </select>
+                  <select
+                    value={heatmapYears}
+                    onChange={(e) => setHeatmapYears(Number(e.target.value))}
+                    className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700"
+                  >
+                    <option value={3}>Last 3 years</option>
+                    <option value={5}>Last 5 years</option>
+                    <option value={10}>Last 10 years</option>
+                    <option value={0}>All years</option>
+                  </select>
+                </div>
+              }
+            >
+              <CalendarHeatmap
+                years={heatmapYearList}
+                calendar={calendar}
+                firstIso={sortedDaily[0].date}
+                lastIso={sortedDaily[sortedDaily.length - 1].date}
+                lookup={dailyLookup}
+                mode={heatmapMode}
+                baseline={baseline}
+                yoyLabel={yoyLabel}
+                fmtValue={fmtValue}
+                onPick={pickDay}
+                dayNote={editedNote}
+              />
+              <div className="mt-2 text-xs text-slate-500">
+                {heatmapMissingDays
+                  ? `${heatmapMissingDays} day(s) without data in the years shown.`
+                  : "No missing days in the years shown."}{" "}
+                Click a day to edit it in “Add / Update a day”.
+              </div>
+            </Card>
+          </div>
+        ) : null}
+
+        {/* Data health */}
+        {hasData || importIssues.length ? (
+          <div className="mt-6 grid grid-cols-1 gap-4">
+            <Card
+              title="Data health"
+              right={
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                  <label className="flex items-center gap-1">
+                    Outlier
+                    <select
+                      value={healthSigma}
+                      onChange={(e) => setHealthSigma(Number(e.target.value))}
+                      className="rounded-lg border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700"
+                    >
+                      <option value={2}>2σ</option>
+                      <option value={3}>3σ</option>
+                      <option value={4}>4σ</option>
+                    </select>
+                    of
+                    <select
+                      value={healthWindow}
+                      onChange={(e) => setHealthWindow(Number(e.target.value))}
+                      className="rounded-lg border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700"
+                    >
+                      <option value={14}>14d</option>
+                      <option value={30}>30d</option>
+                      <option value={60}>60d</option>
+                      <option value={90}>90d</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Jump &gt;
+                    <select
+                      value={healthJumpPct}
+                      onChange={(e) => setHealthJumpPct(Number(e.target.value))}
+                      className="rounded-lg border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-700"
+                    >
+                      <option value={10}>10%</option>
+                      <option value={25}>25%</option>
+                      <option value={50}>50%</option>
+                      <option value={100}>100%</option>
+                    </select>
+                    DoD
+                  </label>
+                </div>
+              }
+            >
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setHealthFilter("all")}
+                  className={`rounded-lg px-2 py-1 text-[12px] font-semibold ring-1 ring-slate-200 ${
+                    healthFilter === "all" ? "bg-slate-900 text-white" : "bg-white text-slate-700 hover:bg-slate-50"
+                  }`}
+                >
+                  All ({healthIssues.length})
+                </button>
+                {(Object.keys(ISSUE_LABELS) as DataIssueKind[]).map((k) => (
+                  <button
+                    key={k}
+                    type="button"
+                    onClick={() => setHealthFilter(k)}
+                    className={`rounded-lg px-2 py-1 text-[12px] font-semibold ring-1 ring-slate-200 ${
+                      healthFilter === k ? "bg-slate-900 text-white" : "bg-white text-slate-700 hover:bg-slate-50"
+                    }`}
+                  >
+                    {ISSUE_LABELS[k]} ({healthCounts[k]})
+                  </button>
+                ))}
+              </div>
 
-                      {showMoMSeries ? (
-                        <Line yAxisId="right" type="monotone" dataKey="mom_pct" name={aggFreq === "weekly" ? "WoW %" : "MoM %"} dot={false} strokeWidth={2} stroke="#dc2626" connectNulls />
-                      ) : null}
+              {!healthShown.length ? (
+                <div className="mt-3 text-sm text-slate-600">No findings.</div>
+              ) : (
+                <div className="mt-3 max-h-[320px] overflow-auto rounded-xl ring-1 ring-slate-200">
+                  <table className="w-full border-collapse bg-white text-left text-sm">
+                    <thead className="sticky top-0 bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Type</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Details</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {healthShown.map((i, idx) => (
+                        <tr key={`${i.kind}-${i.date ?? ""}-${idx}`} className="border-t border-slate-100">
+                          <td className="px-3 py-2">
+                            <span className={`rounded-md px-2 py-0.5 text-xs font-semibold ${ISSUE_BADGE[i.kind]}`}>
+                              {ISSUE_LABELS[i.kind]}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 font-medium tabular-nums text-slate-900">
+                            {i.date ? (
+                              <button
+                                type="button"
+                                onClick={() => showOnChart(i.date!, i.endDate)}
+                                className="underline decoration-slate-300 underline-offset-2 hover:decoration-slate-900"
+                              >
+                                {formatDDMMYYYY(i.date)}
+                                {i.endDate && i.endDate !== i.date ? ` → ${formatDDMMYYYY(i.endDate)}` : ""}
+                              </button>
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-slate-700">{i.message}</td>
+                          <td className="px-3 py-2 text-right">
+                            {i.date ? (
+                              <button
+                                type="button"
+                                onClick={() => pickDay(i.date!)}
+                                className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                              >
+                                Edit
+                              </button>
+                            ) : null}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div className="mt-2 text-xs text-slate-500">
+                Click a date to zoom the daily chart to it. Duplicates and skipped rows refer to the last CSV load or import.
+              </div>
+            </Card>
+          </div>
+        ) : null}
 
-                      {showControlLines && controlStatsLeft ? (
-                        <>
-                          <Line yAxisId="left" type="monotone" dataKey="__mean_units" name="Mean" dot={false} strokeWidth={2} stroke="#000000" connectNulls />
-                          <Line yAxisId="left" type="monotone" dataKey="__p1_units" name="+1σ" dot={false} strokeWidth={2} stroke="#2563eb" strokeDasharray="6 4" connectNulls />
-                          <Line yAxisId="left" type="monotone" dataKey="__p2_units" name="+2σ" dot={false} strokeWidth={2} stroke="#4f46e5" strokeDasharray="6 4" connectNulls />
-                          <Line yAxisId="left" type="monotone" dataKey="__m1_units" name="-1σ" dot={false} strokeWidth={2} stroke="#f97316" strokeDasharray="6 4" connectNulls />
-                          <Line yAxisId="left" type="monotone" dataKey="__m2_units" name="-2σ" dot={false} strokeWidth={2} stroke="#eab308" strokeDasharray="6 4" connectNulls />
-                        </>
-                      ) : null}
+        {/* Annotations */}
+        <div className="mt-6 grid grid-cols-1 gap-4">
+          <Card
+            title="Annotations"
+            right={
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={showAnnotations} onChange={(e) => setShowAnnotations(e.target.checked)} />
+                  Show on charts
+                </label>
+                <button
+                  type="button"
+                  onClick={exportAnnotations}
+                  disabled={!annotations.length}
+                  className="rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+                >
+                  Export JSON
+                </button>
+                <button
+                  type="button"
+                  onClick={() => annFileRef.current?.click()}
+                  className="rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                >
+                  Import JSON
+                </button>
+                <input
+                  ref={annFileRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => importAnnotations(e.target.files?.[0])}
+                  className="hidden"
+                />
+              </div>
+            }
+          >
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5 lg:items-end">
+              <div>
+                <div className="text-xs font-medium text-slate-600">Start</div>
+                <input
+                  type="date"
+                  value={annStart}
+                  onChange={(e) => setAnnStart(e.target.value)}
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300 tabular-nums"
+                />
+              </div>
+              <div>
+                <div className="text-xs font-medium text-slate-600">End (optional)</div>
+                <input
+                  type="date"
+                  value={annEnd}
+                  onChange={(e) => setAnnEnd(e.target.value)}
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300 tabular-nums"
+                />
+              </div>
+              <div>
+                <div className="text-xs font-medium text-slate-600">Label</div>
+                <input
+                  type="text"
+                  value={annLabel}
+                  placeholder="e.g. Heatwave, North India"
+                  onChange={(e) => setAnnLabel(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") addAnnotation();
+                  }}
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300"
+                />
+              </div>
+              <div>
+                <div className="text-xs font-medium text-slate-600">Category</div>
+                <select
+                  value={annCategory}
+                  onChange={(e) => setAnnCategory(e.target.value as AnnotationCategory)}
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900"
+                >
+                  {ANNOTATION_CATEGORIES.map((c) => (
+                    <option key={c.key} value={c.key}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={addAnnotation}
+                className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-800"
+              >
+                Add annotation
+              </button>
+            </div>
 
-                      {showControlLines && controlStatsYoY ? (
-                        <>
-                          <Line yAxisId="right" type="monotone" dataKey="__mean_yoy" name="Mean (YoY%)" dot={false} strokeWidth={2} stroke="#000000" connectNulls />
-                          <Line yAxisId="right" type="monotone" dataKey="__p1_yoy" name="+1σ (YoY%)" dot={false} strokeWidth={2} stroke="#2563eb" strokeDasharray="6 4" connectNulls />
-                          <Line yAxisId="right" type="monotone" dataKey="__p2_yoy" name="+2σ (YoY%)" dot={false} strokeWidth={2} stroke="#4f46e5" strokeDasharray="6 4" connectNulls />
-                          <Line yAxisId="right" type="monotone" dataKey="__m1_yoy" name="-1σ (YoY%)" dot={false} strokeWidth={2} stroke="#f97316" strokeDasharray="6 4" connectNulls />
-                          <Line yAxisId="right" type="monotone" dataKey="__m2_yoy" name="-2σ (YoY%)" dot={false} strokeWidth={2} stroke="#eab308" strokeDasharray="6 4" connectNulls />
-                        </>
-                      ) : null}
-                    </LineChart>
-                  </ResponsiveContainer>
-                </div>
-              </>
+            {!annotations.length ? (
+              <div className="mt-3 text-sm text-slate-600">No annotations yet.</div>
+            ) : (
+              <div className="mt-3 max-h-[280px] overflow-auto rounded-xl ring-1 ring-slate-200">
+                <table className="w-full border-collapse bg-white text-left text-sm">
+                  <thead className="sticky top-0 bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">Category</th>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">Dates</th>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">Label</th>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {annotations.map((a) => (
+                      <tr key={a.id} className="border-t border-slate-100">
+                        <td className="px-3 py-2">
+                          <span className="inline-flex items-center gap-1 text-xs font-semibold text-slate-700">
+                            <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: annotationColor(a.category) }} />
+                            {ANNOTATION_CATEGORIES.find((c) => c.key === a.category)?.label ?? a.category}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 font-medium tabular-nums text-slate-900">
+                          {hasData ? (
+                            <button
+                              type="button"
+                              onClick={() => showOnChart(a.start, a.end)}
+                              className="underline decoration-slate-300 underline-offset-2 hover:decoration-slate-900"
+                            >
+                              {annotationDates(a)}
+                            </button>
+                          ) : (
+                            annotationDates(a)
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-slate-700">{a.label}</td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => deleteAnnotation(a.id)}
+                            className="rounded-lg px-2 py-1 text-xs font-semibold text-rose-700 hover:bg-rose-50"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             )}
+            <div className="mt-2 text-xs text-slate-500">
+              Single days draw as dashed lines, ranges as shaded bands on every chart view; hover the tag for details.
+            </div>
           </Card>
         </div>
 
@@ -1662,6 +4146,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 {seriesLabel} ({unitLabel})
               </label>
               <input
+                ref={valueInputRef}
                 inputMode="decimal"
                 placeholder="e.g., 10"
                 value={valueText}
@@ -1688,7 +4173,16 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                   />
                 </div>
                 <div className="mt-2 text-xs text-slate-500">
-                  Supported: <span className="font-mono">date,VALUE</span> (DD/MM/YYYY, number)
+                  {valueColumn ? (
+                    <>
+                      Supported: a CSV with a header; value = <span className="font-mono">{valueColumn}</span>, or
+                      this tab&apos;s export (<span className="font-mono">date,{valueColumnKey}</span>)
+                    </>
+                  ) : (
+                    <>
+                      Supported: <span className="font-mono">date,VALUE</span> (DD/MM/YYYY, number)
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -1704,6 +4198,13 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 </div>
               ) : null}
 
+              {storageError ? (
+                <div className="mt-2 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
+                  <div className="font-semibold">Browser storage</div>
+                  <div className="mt-1">{storageError}</div>
+                </div>
+              ) : null}
+
               {errors.length ? (
                 <div className="mt-2 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
                   <div className="font-semibold">Import / input issues</div>
@@ -1714,6 +4215,14 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                   </ul>
                 </div>
               ) : null}
+
+              {storage ? (
+                <div className={`mt-1 text-xs ${storageNearlyFull ? "text-amber-700" : "text-slate-500"}`}>
+                  Saved in this browser ({storage.backend === "indexeddb" ? "IndexedDB" : "localStorage; IndexedDB unavailable"})
+                  {storage.usage != null && storage.quota ? ` · ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)} used` : ""}
+                  {storageNearlyFull ? " · almost full" : ""}
+                </div>
+              ) : null}
             </div>
           </Card>
 
@@ -1744,7 +4253,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 />
 
                 <Stat
-                  label="Latest YoY (same day)"
+                  label={`Latest ${yoyLabel} (same day)`}
                   value={fmtPct(kpis.latestYoY)}
                   sub={<div className="text-sm text-slate-500">vs same date last year (if available)</div>}
                 />
@@ -1752,65 +4261,175 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 <Stat
                   label="Current 7-Day Average"
                   value={kpis.avg7 != null ? fmtValue(kpis.avg7) : "—"}
-                  sub={<YoYSub value={kpis.avg7YoY} suffix="YoY" />}
+                  sub={<YoYSub value={kpis.avg7YoY} suffix={yoyLabel} />}
+                  completeness={kpis.completeness.avg7}
                 />
 
                 <Stat
                   label="Current 30-Day Average"
                   value={kpis.avg30 != null ? fmtValue(kpis.avg30) : "—"}
-                  sub={<YoYSub value={kpis.avg30YoY} suffix="YoY" />}
+                  sub={<YoYSub value={kpis.avg30YoY} suffix={yoyLabel} />}
+                  completeness={kpis.completeness.avg30}
                 />
 
                 <Stat
                   label={ytdLabel}
                   value={kpis.ytdValue != null ? fmtValue(kpis.ytdValue) : "—"}
-                  sub={<YoYSub value={kpis.ytdYoY} suffix="YoY" />}
+                  sub={<YoYSub value={kpis.ytdYoY} suffix={yoyLabel} />}
+                  completeness={kpis.completeness.ytd}
                 />
 
                 <Stat
                   label="MTD Average"
                   value={kpis.mtdAvg != null ? fmtValue(kpis.mtdAvg) : "—"}
-                  sub={<YoYSub value={kpis.mtdYoY} suffix="YoY" />}
+                  sub={<YoYSub value={kpis.mtdYoY} suffix={yoyLabel} />}
+                  completeness={kpis.completeness.mtd}
                 />
               </div>
             )}
           </Card>
 
-          <Card title="Recent entries">
+          <Card title="Recent entries" right={hasData ? `${sortedDaily.length} days` : null}>
             {!hasData ? (
-              <div className="text-sm text-slate-600">Once you add data, the most recent entries will appear here.</div>
+              <div className="mb-2 text-sm text-slate-600">
+                Once you add data, the most recent entries will appear here. You can also click the grid and paste
+                date and value cells from a spreadsheet.
+              </div>
+            ) : null}
+            <EntryGrid
+              rows={sortedDaily}
+              valueHeader={`${seriesLabel} (${unitLabel})`}
+              fmtValue={fmtValue}
+              onSave={saveGridValue}
+              onDelete={removeDates}
+              onPaste={pasteIntoGrid}
+              editedNote={editedNote}
+              onReset={resetToBase}
+            />
+            {hasData ? (
+              <div className="mt-2 text-xs text-slate-500">
+                Your edits take precedence over auto-fetched days, which take precedence over the default CSV
+                {layers.override.size > pinnedDays.length ? ` · ${layers.override.size - pinnedDays.length} edited day(s)` : ""}
+                {pinnedDays.length ? (
+                  <>
+                    {` · ${pinnedDays.length} day(s) pinned from the pre-upgrade copy (`}
+                    <button
+                      type="button"
+                      onClick={() => resetToBase(pinnedDays)}
+                      title="Drop these overrides so the days show the default CSV / auto-fetched values again (undoable)"
+                      className="underline decoration-slate-300 underline-offset-2 hover:decoration-slate-900"
+                    >
+                      reset them to base
+                    </button>
+                    )
+                  </>
+                ) : null}
+                .
+              </div>
+            ) : null}
+          </Card>
+        </div>
+
+        {/* Edit history (audit log, undo / redo, revert) */}
+        <div className="mt-6 grid grid-cols-1 gap-4">
+          <Card
+            title="Edit history"
+            right={
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={undo}
+                  disabled={!undoStack.length}
+                  title={undoStack.length ? "Undo the last edit" : "Nothing to undo"}
+                  className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                >
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={redo}
+                  disabled={!redoStack.length}
+                  title={redoStack.length ? "Redo the last undone edit" : "Nothing to redo"}
+                  className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                >
+                  Redo
+                </button>
+              </div>
+            }
+          >
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+              <label htmlFor={`editor-${type}`}>Edits recorded as</label>
+              <input
+                id={`editor-${type}`}
+                value={editorName}
+                onChange={(e) => setEditorName(e.target.value)}
+                placeholder={DEFAULT_EDITOR}
+                className="w-48 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-900"
+              />
+              <span className="text-slate-500">
+                Last {MAX_JOURNAL_ENTRIES} changes are kept in this browser.
+              </span>
+            </div>
+
+            {!journal.length ? (
+              <div className="mt-3 text-sm text-slate-600">No edits recorded yet.</div>
             ) : (
-              <div className="max-h-[420px] overflow-auto rounded-xl ring-1 ring-slate-200">
-                <table className="w-full border-collapse bg-white text-left text-sm">
-                  <thead className="sticky top-0 bg-slate-50">
-                    <tr>
-                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
-                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">
-                        {seriesLabel} ({unitLabel})
-                      </th>
-                      <th className="px-3 py-2 text-xs font-semibold text-slate-600"></th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {sortedDaily
-                      .slice(-25)
-                      .reverse()
-                      .map((r) => (
-                        <tr key={r.date} className="border-t border-slate-100">
-                          <td className="px-3 py-2 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
-                          <td className="px-3 py-2 text-slate-700">{fmtValue(r.value)}</td>
-                          <td className="px-3 py-2 text-right">
+              <div className="mt-3 max-h-[360px] overflow-auto rounded-xl ring-1 ring-slate-200">
+                <ul className="divide-y divide-slate-100 bg-white text-sm">
+                  {journal
+                    .slice()
+                    .reverse()
+                    .map((e, i) => {
+                      const open = openJournalEntry === e.id;
+                      const undone = redoStack.includes(e.id);
+                      return (
+                        <li key={e.id} className="px-3 py-2">
+                          <div className="flex flex-wrap items-start justify-between gap-2">
                             <button
-                              onClick={() => removeDate(r.date)}
-                              className="rounded-lg px-2 py-1 text-xs font-semibold text-rose-700 hover:bg-rose-50"
+                              type="button"
+                              onClick={() => setOpenJournalEntry(open ? null : e.id)}
+                              className="min-w-0 text-left"
                             >
-                              Remove
+                              <div className={`font-medium ${undone ? "text-slate-400 line-through" : "text-slate-900"}`}>
+                                {JOURNAL_ACTION_LABELS[e.action]}{" "}
+                                <span className="font-normal text-slate-500">
+                                  · {e.source} · {e.changes.length} day(s)
+                                </span>
+                              </div>
+                              <div className="text-xs text-slate-500">
+                                {formatJournalTime(e.at)} · {e.user}
+                                {undone ? " · undone" : ""}
+                              </div>
                             </button>
-                          </td>
-                        </tr>
-                      ))}
-                  </tbody>
-                </table>
+                            {i > 0 ? (
+                              <button
+                                type="button"
+                                onClick={() => revertTo(e)}
+                                className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                              >
+                                Revert to here
+                              </button>
+                            ) : (
+                              <span className="px-2 py-1 text-xs text-slate-400">Current</span>
+                            )}
+                          </div>
+                          {open ? (
+                            <ul className="mt-2 space-y-0.5 text-xs text-slate-700 tabular-nums">
+                              {e.changes.slice(0, 20).map((c) => (
+                                <li key={c.date}>
+                                  {formatDDMMYYYY(c.date)}: {c.before == null ? "—" : fmtValue(c.before)} →{" "}
+                                  {c.after == null ? "—" : fmtValue(c.after)}
+                                </li>
+                              ))}
+                              {e.changes.length > 20 ? (
+                                <li className="text-slate-500">…and {e.changes.length - 20} more</li>
+                              ) : null}
+                            </ul>
+                          ) : null}
+                        </li>
+                      );
+                    })}
+                </ul>
               </div>
             )}
           </Card>
@@ -1818,7 +4437,10 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
         {/* Monthly totals + growth */}
         <div className="mt-6 grid grid-cols-1 gap-4">
-          <Card title={`Monthly ${periodValueLabel} + growth`}>
+          <Card
+            title={`Monthly ${periodValueLabel} + growth`}
+            exportAs={chartExport(`Monthly ${periodValueLabel} + growth`, "monthly")}
+          >
             {!hasData ? (
               <div className="text-sm text-slate-600">Add data to see monthly metrics.</div>
             ) : (
@@ -1854,13 +4476,18 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                         formatter={(v: any, n: any) => {
                           const num = asFiniteNumber(v);
                           if (n === "value") return [fmtValue(num ?? null), `Monthly ${periodValueLabel}`];
-                          if (n === "yoy_pct") return [fmtPct(num ?? null), "YoY"];
+                          if (n === "yoy_pct") return [fmtPct(num ?? null), yoyLabel];
                           if (n === "mom_pct") return [fmtPct(num ?? null), "MoM"];
                           if (num != null) return [fmtValue(num), String(n)];
                           return [v, String(n)];
                         }}
+                        labelFormatter={(l: any, payload: any) => {
+                          const p = payload && payload[0] ? payload[0].payload : null;
+                          return p?.completeness == null ? l : `${l} · data ${completenessText(p.completeness)}`;
+                        }}
                       />
                       <Legend />
+                      {renderAnnotations(monthlyChartAnnotations)}
                       <Bar dataKey="value" name={`Monthly ${periodValueLabel} (${unitLabel})`} fill="#dc2626" />
                     </BarChart>
                   </ResponsiveContainer>
@@ -1874,7 +4501,8 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                       <YAxis tick={{ fontSize: 12 }} tickFormatter={(v) => `${Number(asFiniteNumber(v) ?? 0).toFixed(2)}%`} />
                       <Tooltip formatter={(v: any, n: any) => [fmtPct(asFiniteNumber(v)), String(n)]} />
                       <Legend />
-                      <Line type="monotone" dataKey="yoy_pct" name="YoY %" dot={false} strokeWidth={2} stroke="#16a34a" />
+                      {renderAnnotations(monthlyChartAnnotations, { flags: false })}
+                      <Line type="monotone" dataKey="yoy_pct" name={`${yoyLabel} %`} dot={false} strokeWidth={2} stroke="#16a34a" />
                       <Line type="monotone" dataKey="mom_pct" name="MoM %" dot={false} strokeWidth={2} stroke="#dc2626" />
                     </LineChart>
                   </ResponsiveContainer>
@@ -1906,7 +4534,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 >
                   <option value="monthly">Monthly</option>
                   <option value="weekly">Weekly</option>
-                  <option value="yearly">Yearly (FY)</option>
+                  <option value="yearly">Yearly ({fyWord})</option>
                 </select>
               </div>
             }
@@ -1924,7 +4552,10 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           {periodValueLabel} ({unitLabel})
                         </th>
                         <th className="px-3 py-2 text-xs font-semibold text-slate-600">MoM%</th>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">{yoyLabel}%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600" title={DAYS_RECORDED_TITLE}>
+                          Data
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -1941,6 +4572,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
                             {/* ✅ Conditional formatting for YoY% */}
                             <td className={`px-3 py-2 ${pctColorClass(m.yoy_pct)}`}>{fmtPct(m.yoy_pct)}</td>
+                            <td className={completenessCellClass(m.completeness)}>{completenessText(m.completeness)}</td>
                           </tr>
                         ))}
                     </tbody>
@@ -1955,6 +4587,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           </td>
                           <td className="px-3 py-2" />
                           <td className="px-3 py-2" />
+                          <td className="px-3 py-2" />
                         </tr>
                       </tfoot>
                     ) : null}
@@ -1968,7 +4601,10 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           {periodValueLabel} ({unitLabel})
                         </th>
                         <th className="px-3 py-2 text-xs font-semibold text-slate-600">WoW%</th>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">{yoyLabel}%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600" title={DAYS_RECORDED_TITLE}>
+                          Data
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -1983,6 +4619,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                             <td className="px-3 py-2 text-slate-700">{fmtValue(w.value)}</td>
                             <td className="px-3 py-2 text-slate-700">{fmtPct(w.wow_pct)}</td>
                             <td className="px-3 py-2 text-slate-700">{fmtPct(w.yoy_pct)}</td>
+                            <td className={completenessCellClass(w.completeness)}>{completenessText(w.completeness)}</td>
                           </tr>
                         ))}
                     </tbody>
@@ -1991,11 +4628,14 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                   <table className="w-full border-collapse bg-white text-left text-sm">
                     <thead className="sticky top-0 bg-slate-50">
                       <tr>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">FY</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">{fyWord}</th>
                         <th className="px-3 py-2 text-xs font-semibold text-slate-600">
                           {periodValueLabel} ({unitLabel})
                         </th>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">{yoyLabel}%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600" title={DAYS_RECORDED_TITLE}>
+                          Data
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -2007,6 +4647,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                             <td className="px-3 py-2 font-medium text-slate-900">{r.fy}</td>
                             <td className="px-3 py-2 text-slate-700">{fmtValue(r.value)}</td>
                             <td className="px-3 py-2 text-slate-700">{fmtPct(r.yoy_pct)}</td>
+                            <td className={completenessCellClass(r.completeness)}>{completenessText(r.completeness)}</td>
                           </tr>
                         ))}
                     </tbody>
@@ -2017,6 +4658,219 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
           </Card>
         </div>
       </div>
+
+      {/* Import preview (new / changed / unchanged / rejected rows, merge strategy) */}
+      {pendingImport ? (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby={`import-preview-${type}`}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setPendingImport(null);
+          }}
+        >
+          <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-2xl bg-white p-5 shadow-xl ring-1 ring-slate-200">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div id={`import-preview-${type}`} className="text-base font-semibold text-slate-900">
+                  Import preview
+                </div>
+                <div className="mt-0.5 text-xs text-slate-600">
+                  {pendingImport.preview.fileName} → {seriesLabel}. Nothing is saved until you merge.
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setPendingImport(null)}
+                className="rounded-lg px-2 py-1 text-sm text-slate-500 hover:bg-slate-100"
+                aria-label="Close import preview"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="mt-4 flex flex-wrap gap-2">
+              {(
+                [
+                  ["changed", "Changed", pendingImport.preview.counts.changed],
+                  ["new", "New", pendingImport.preview.counts.new],
+                  ["unchanged", "Unchanged", pendingImport.preview.counts.unchanged],
+                  ["rejected", "Rejected", pendingImport.preview.rejected.length],
+                ] as const
+              ).map(([k, label, n]) => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => setImportPreviewTab(k)}
+                  className={`rounded-xl px-3 py-1.5 text-xs font-semibold ring-1 ${
+                    importPreviewTab === k
+                      ? "bg-slate-900 text-white ring-slate-900"
+                      : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-50"
+                  }`}
+                >
+                  {label} ({n})
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-700">
+              <span className="font-semibold">Changed dates:</span>
+              <select
+                value={importStrategy}
+                onChange={(e) => setImportStrategy(e.target.value as ImportStrategy)}
+                className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+              >
+                {(Object.keys(IMPORT_STRATEGY_LABELS) as ImportStrategy[]).map((k) => (
+                  <option key={k} value={k}>
+                    {IMPORT_STRATEGY_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1">
+                Threshold
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={importThresholdPct}
+                  onChange={(e) => setImportThresholdPct(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+                />
+                %
+              </label>
+              {Object.keys(importRowStrategy).length ? (
+                <button
+                  type="button"
+                  onClick={() => setImportRowStrategy({})}
+                  className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-600 ring-1 ring-slate-200 hover:bg-slate-50"
+                >
+                  Reset {Object.keys(importRowStrategy).length} per-date choice(s)
+                </button>
+              ) : null}
+            </div>
+
+            <div className="mt-3 min-h-0 flex-1 overflow-auto rounded-xl ring-1 ring-slate-200">
+              {importPreviewTab === "rejected" ? (
+                pendingImport.preview.rejected.length ? (
+                  <ul className="divide-y divide-slate-100 bg-white text-sm text-slate-700">
+                    {pendingImport.preview.rejected.slice(0, IMPORT_PREVIEW_ROWS).map((m, i) => (
+                      <li key={i} className="px-3 py-2">
+                        {m}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="p-3 text-sm text-slate-600">No rows were rejected.</div>
+                )
+              ) : (
+                (() => {
+                  const rows = pendingImport.preview.rows.filter((r) => r.status === importPreviewTab);
+                  if (!rows.length) return <div className="p-3 text-sm text-slate-600">No dates in this group.</div>;
+                  return (
+                    <table className="w-full border-collapse bg-white text-left text-sm">
+                      <thead className="sticky top-0 bg-slate-50">
+                        <tr>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
+                          {importPreviewTab !== "new" ? (
+                            <th className="px-3 py-2 text-xs font-semibold text-slate-600">Stored ({unitLabel})</th>
+                          ) : null}
+                          {importPreviewTab !== "unchanged" ? (
+                            <th className="px-3 py-2 text-xs font-semibold text-slate-600">Incoming ({unitLabel})</th>
+                          ) : null}
+                          {importPreviewTab === "changed" ? (
+                            <>
+                              <th className="px-3 py-2 text-xs font-semibold text-slate-600">Diff %</th>
+                              <th className="px-3 py-2 text-xs font-semibold text-slate-600">Strategy</th>
+                              <th className="px-3 py-2 text-xs font-semibold text-slate-600">Result</th>
+                            </>
+                          ) : null}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.slice(0, IMPORT_PREVIEW_ROWS).map((r) => {
+                          const takes = takesIncoming(r, importRowStrategy[r.date] ?? importStrategy, importThresholdPct);
+                          return (
+                            <tr key={r.date} className="border-t border-slate-100">
+                              <td className="px-3 py-2 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
+                              {importPreviewTab !== "new" ? (
+                                <td className="px-3 py-2 text-slate-700">{fmtValue(r.existing)}</td>
+                              ) : null}
+                              {importPreviewTab !== "unchanged" ? (
+                                <td className="px-3 py-2 text-slate-700">{fmtValue(r.incoming)}</td>
+                              ) : null}
+                              {importPreviewTab === "changed" ? (
+                                <>
+                                  <td className="px-3 py-2 text-slate-700">{fmtPct(r.diffPct)}</td>
+                                  <td className="px-3 py-2">
+                                    <select
+                                      value={importRowStrategy[r.date] ?? ""}
+                                      onChange={(e) => {
+                                        const v = e.target.value as ImportStrategy | "";
+                                        setImportRowStrategy((prev) => {
+                                          const next = { ...prev };
+                                          if (v) next[r.date] = v;
+                                          else delete next[r.date];
+                                          return next;
+                                        });
+                                      }}
+                                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+                                    >
+                                      <option value="">Same as above</option>
+                                      {(Object.keys(IMPORT_STRATEGY_LABELS) as ImportStrategy[]).map((k) => (
+                                        <option key={k} value={k}>
+                                          {IMPORT_STRATEGY_LABELS[k]}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </td>
+                                  <td className={`px-3 py-2 text-xs font-semibold ${takes ? "text-emerald-700" : "text-slate-500"}`}>
+                                    {takes ? "Take incoming" : "Keep stored"}
+                                  </td>
+                                </>
+                              ) : null}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  );
+                })()
+              )}
+              {(importPreviewTab === "rejected"
+                ? pendingImport.preview.rejected.length
+                : pendingImport.preview.counts[importPreviewTab]) > IMPORT_PREVIEW_ROWS ? (
+                <div className="border-t border-slate-100 bg-slate-50 px-3 py-2 text-xs text-slate-500">
+                  Showing the first {IMPORT_PREVIEW_ROWS}; the strategy above applies to all of them.
+                </div>
+              ) : null}
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+              <div className="text-xs text-slate-600">
+                {importChangeCount ? `${importChangeCount} day(s) will be added or updated.` : "Nothing to merge."}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPendingImport(null)}
+                  className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={confirmImport}
+                  disabled={!importChangeCount}
+                  className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-40"
+                >
+                  Merge
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </div>
   );
 }
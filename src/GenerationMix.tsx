@@ -0,0 +1,517 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { DEFAULT_CALENDAR, yearPrefix, type CalendarSettings } from "./calendarSettings";
+import { isoMinusDays } from "./dates";
+import {
+  GENERATION_MIX_SERIES,
+  loadStoredMix,
+  mixByMonth,
+  mixFYRows,
+  mixREShare,
+  mixRowsToMap,
+  mixTotal,
+  parseGenerationMixCSV,
+  recordREShareDays,
+  type MixRow,
+} from "./generationMix";
+import { saveSeries, storageErrorMessage } from "./seriesStore";
+import { RE_SOURCES, SOURCE_COLORS, SOURCES, type SourceKey } from "./sources";
+
+/**
+ * Generation Mix Tab
+ * - Per-source daily generation (MU) from a wide CSV: date,Coal,Oil & Gas,Nuclear,Hydro,Solar,Wind,...
+ * - Stacked area (MU) + 100% share charts, daily or monthly
+ * - RE share per FY with YoY change (pp), record RE-share days flagged
+ * - Saved in browser storage as GENERATION_MIX_SERIES (./seriesStore; was localStorage tusk_india_generation-mix_v1)
+ * - Optional default CSV: merged by date after the stored copy loads, adding only dates not stored
+ *   yet, so imported rows are never replaced on mount; a missing file (404) just means no default data
+ */
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function fmtMU(x: number | null | undefined) {
+  if (x == null || Number.isNaN(x)) return "—";
+  return `${new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(x)} MU`;
+}
+
+function fmtShare(x: number | null | undefined) {
+  if (x == null || Number.isNaN(x)) return "—";
+  return `${x.toFixed(2)}%`;
+}
+
+function fmtPP(x: number | null | undefined) {
+  if (x == null || Number.isNaN(x)) return "—";
+  return `${x > 0 ? "+" : ""}${x.toFixed(2)} pp`;
+}
+
+function pctColorClass(x: number | null | undefined) {
+  if (x == null || Number.isNaN(x)) return "text-slate-500";
+  if (x > 0) return "text-emerald-700";
+  if (x < 0) return "text-rose-700";
+  return "text-slate-600";
+}
+
+function Card({
+  title,
+  right,
+  children,
+}: {
+  title: string;
+  right?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
+      <div className="flex items-start justify-between gap-3 border-b border-slate-100 p-4">
+        <div className="text-sm font-semibold text-slate-800">{title}</div>
+        {right ? <div className="text-sm text-slate-600">{right}</div> : null}
+      </div>
+      <div className="p-4">{children}</div>
+    </div>
+  );
+}
+
+export default function GenerationMix({
+  defaultCsvPath,
+  calendar = DEFAULT_CALENDAR,
+}: {
+  defaultCsvPath?: string;
+  /** Year definition for the share-by-FY table (default: Apr–Mar FY). */
+  calendar?: CalendarSettings;
+}) {
+  const [rows, setRows] = useState<MixRow[]>([]);
+  // Rows as last written to browser storage; null until the stored copy has loaded
+  const persistedRef = useRef<Map<string, Record<SourceKey, number>> | null>(null);
+  const [storeLoaded, setStoreLoaded] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const [granularity, setGranularity] = useState<"daily" | "monthly">("monthly");
+  const [rangeDays, setRangeDays] = useState(730);
+  const [includeLargeHydro, setIncludeLargeHydro] = useState(false);
+
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const reSources = useMemo<SourceKey[]>(
+    () => (includeLargeHydro ? [...RE_SOURCES, "Hydro"] : RE_SOURCES),
+    [includeLargeHydro]
+  );
+  const reLabel = includeLargeHydro ? "RE + large hydro" : "RE";
+
+  useEffect(() => {
+    if (!defaultCsvPath || !storeLoaded) return;
+    let cancelled = false;
+    const path = defaultCsvPath;
+
+    async function loadDefaultCSV() {
+      try {
+        const res = await fetch(`${encodeURI(path)}?v=${Date.now()}`);
+        if (res.status === 404) return;
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const { rows: parsed, errors: errs } = parseGenerationMixCSV(await res.text());
+        if (cancelled) return;
+        if (!parsed.length) {
+          setErrors(errs.length ? errs.slice(0, 12) : [`Default CSV loaded but no valid rows found.`]);
+          return;
+        }
+        setRows((prev) => {
+          const map = new Map(prev.map((r) => [r.date, r] as const));
+          for (const r of parsed) if (!map.has(r.date)) map.set(r.date, r);
+          return Array.from(map.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+        });
+        setMsg(
+          `Loaded default CSV (${parsed.length} rows${errs.length ? `, ${errs.length} issues` : ""}); ` +
+            "dates already saved keep their stored values."
+        );
+        if (errs.length) setErrors(errs.slice(0, 12));
+      } catch {
+        if (!cancelled) {
+          setErrors((prev) =>
+            prev.length
+              ? prev
+              : [`Could not load default CSV (${path}). Import a CSV with date + per-source columns.`]
+          );
+        }
+      }
+    }
+
+    loadDefaultCSV();
+    return () => {
+      cancelled = true;
+    };
+  }, [defaultCsvPath, storeLoaded]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredMix()
+      .then((stored) => {
+        if (cancelled) return;
+        persistedRef.current = mixRowsToMap(stored);
+        setRows(stored);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        persistedRef.current = new Map();
+        setErrors((prev) => [...prev, "Could not read the saved generation mix from browser storage."]);
+      })
+      .finally(() => !cancelled && setStoreLoaded(true));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const prev = persistedRef.current;
+    if (!storeLoaded || !prev) return;
+    const next = mixRowsToMap(rows);
+    persistedRef.current = next;
+    saveSeries(GENERATION_MIX_SERIES, prev, next).catch((e) => {
+      if (persistedRef.current === next) persistedRef.current = prev;
+      setErrors((errs) => [...errs, storageErrorMessage(e, "the generation mix")]);
+    });
+  }, [rows, storeLoaded]);
+
+  async function importCSV(file?: File) {
+    setMsg(null);
+    setErrors([]);
+    if (!file) return;
+
+    try {
+      const { rows: parsed, errors: errs } = parseGenerationMixCSV(await file.text());
+      if (errs.length) setErrors(errs.slice(0, 12));
+      if (!parsed.length) {
+        setErrors((e) => (e.length ? e : ["No valid rows found in CSV."]));
+        return;
+      }
+      setRows((prev) => {
+        const map = new Map(prev.map((r) => [r.date, r] as const));
+        for (const r of parsed) map.set(r.date, r);
+        return Array.from(map.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+      });
+      setMsg(`Imported ${parsed.length} rows${errs.length ? ` (with ${errs.length} issues)` : ""}.`);
+    } catch {
+      setErrors(["Could not read CSV."]);
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  const hasData = rows.length > 0;
+
+  const records = useMemo(() => recordREShareDays(rows, reSources), [rows, reSources]);
+  const recordSet = useMemo(() => new Set(records.map((r) => r.date)), [records]);
+
+  const filtered = useMemo(() => {
+    if (!rows.length) return [];
+    const from = rangeDays > 0 ? isoMinusDays(rows[rows.length - 1].date, rangeDays - 1) : "";
+    return rows.filter((r) => r.date >= from);
+  }, [rows, rangeDays]);
+
+  const chartData = useMemo(() => {
+    const src = granularity === "monthly" ? mixByMonth(filtered) : filtered;
+    return src.map((r) => {
+      const share = mixREShare(r.values, reSources);
+      return {
+        label: granularity === "monthly" ? r.date : formatDDMMYYYY(r.date),
+        ...r.values,
+        total: mixTotal(r.values),
+        re_share: share,
+        record_share: granularity === "daily" && recordSet.has(r.date) ? share : null,
+      };
+    });
+  }, [filtered, granularity, reSources, recordSet]);
+
+  const fyRows = useMemo(() => mixFYRows(rows, reSources, calendar), [rows, reSources, calendar]);
+  const fyWord = yearPrefix(calendar);
+
+  const latest = rows.length ? rows[rows.length - 1] : null;
+  const latestShare = latest ? mixREShare(latest.values, reSources) : null;
+  const latestRecord = records.length ? records[records.length - 1] : null;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="mx-auto max-w-7xl px-4 py-8">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <div className="text-2xl font-semibold text-slate-900">India Generation Mix Dashboard</div>
+            <div className="mt-1 text-sm text-slate-600">
+              Fuel-wise daily generation, shares, and RE share by fiscal year
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => importCSV(e.target.files?.[0])}
+              className="block text-sm text-slate-700 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-900 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-slate-800"
+            />
+          </div>
+        </div>
+
+        {msg ? (
+          <div className="mt-4 rounded-xl bg-emerald-50 p-3 text-sm text-emerald-800 ring-1 ring-emerald-200">{msg}</div>
+        ) : null}
+
+        {errors.length ? (
+          <div className="mt-4 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
+            <div className="font-semibold">Import / load issues</div>
+            <ul className="mt-1 list-disc pl-5">
+              {errors.map((e, i) => (
+                <li key={i}>{e}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {/* Controls */}
+        <div className="mt-6 rounded-2xl bg-white p-3 shadow-sm ring-1 ring-slate-200">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div>
+              <div className="text-xs font-medium text-slate-600">View as</div>
+              <select
+                value={granularity}
+                onChange={(e) => setGranularity(e.target.value as "daily" | "monthly")}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              >
+                <option value="monthly">Monthly (Sum)</option>
+                <option value="daily">Daily</option>
+              </select>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-slate-600">Range</div>
+              <select
+                value={rangeDays}
+                onChange={(e) => setRangeDays(Number(e.target.value))}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              >
+                <option value={365}>Last 12 months</option>
+                <option value={730}>Last 24 months</option>
+                <option value={1825}>Last 5 years</option>
+                <option value={0}>All data</option>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 self-end pb-2 text-[12px] text-slate-700">
+              <input
+                type="checkbox"
+                checked={includeLargeHydro}
+                onChange={(e) => setIncludeLargeHydro(e.target.checked)}
+                className="h-4 w-4 rounded border-slate-300"
+              />
+              <span className="font-medium">Count large hydro as RE</span>
+            </label>
+          </div>
+        </div>
+
+        {!hasData ? (
+          <div className="mt-6 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-center">
+            <div className="text-lg font-semibold text-slate-900">No generation mix data yet</div>
+            <div className="mt-2 text-sm text-slate-600">
+              Import a CSV with <span className="font-mono">date,{SOURCES.join(",")}</span> (DD/MM/YYYY, MU).
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-6 grid grid-cols-1 gap-3 sm:grid-cols-3">
+              <div className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+                <div className="text-xs font-medium text-slate-500">Latest day</div>
+                <div className="mt-1 text-2xl font-semibold text-slate-900 tabular-nums">
+                  {latest ? formatDDMMYYYY(latest.date) : "—"}
+                </div>
+                <div className="mt-1 text-sm text-slate-600">{latest ? fmtMU(mixTotal(latest.values)) : "—"}</div>
+              </div>
+              <div className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+                <div className="text-xs font-medium text-slate-500">{reLabel} share (latest day)</div>
+                <div className="mt-1 text-2xl font-semibold text-slate-900 tabular-nums">{fmtShare(latestShare)}</div>
+              </div>
+              <div className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+                <div className="text-xs font-medium text-slate-500">Record {reLabel} share day</div>
+                <div className="mt-1 text-2xl font-semibold text-slate-900 tabular-nums">
+                  {latestRecord ? fmtShare(latestRecord.share) : "—"}
+                </div>
+                <div className="mt-1 text-sm text-slate-600">
+                  {latestRecord ? formatDDMMYYYY(latestRecord.date) : "—"}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-6 grid grid-cols-1 gap-4">
+              <Card title={`Generation by source (${granularity === "monthly" ? "monthly MU" : "daily MU"})`}>
+                <div className="h-[340px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={chartData} margin={{ top: 10, right: 18, bottom: 10, left: 12 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                      <YAxis
+                        tick={{ fontSize: 12 }}
+                        width={80}
+                        tickFormatter={(v) => new Intl.NumberFormat("en-IN").format(Math.round(Number(v)))}
+                      />
+                      <Tooltip formatter={(v: any, n: any) => [fmtMU(Number(v)), String(n)]} />
+                      <Legend />
+                      {SOURCES.map((s) => (
+                        <Area
+                          key={s}
+                          type="monotone"
+                          dataKey={s}
+                          stackId="mix"
+                          stroke={SOURCE_COLORS[s]}
+                          fill={SOURCE_COLORS[s]}
+                          fillOpacity={0.7}
+                        />
+                      ))}
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+
+              <Card title="Share of generation (100%)">
+                <div className="h-[320px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={chartData} stackOffset="expand" margin={{ top: 10, right: 18, bottom: 10, left: 12 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                      <YAxis tick={{ fontSize: 12 }} tickFormatter={(v) => `${Math.round(Number(v) * 100)}%`} />
+                      <Tooltip
+                        formatter={(v: any, n: any, item: any) => {
+                          const total = Number(item?.payload?.total) || 0;
+                          return [total ? fmtShare((Number(v) / total) * 100) : "—", String(n)];
+                        }}
+                      />
+                      <Legend />
+                      {SOURCES.map((s) => (
+                        <Area
+                          key={s}
+                          type="monotone"
+                          dataKey={s}
+                          stackId="share"
+                          stroke={SOURCE_COLORS[s]}
+                          fill={SOURCE_COLORS[s]}
+                          fillOpacity={0.7}
+                        />
+                      ))}
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+
+              <Card
+                title={`${reLabel} share of generation`}
+                right={granularity === "daily" ? "Dots mark record-high days" : "Switch to Daily to see record days"}
+              >
+                <div className="h-[280px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 10, right: 18, bottom: 10, left: 12 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                      <YAxis tick={{ fontSize: 12 }} tickFormatter={(v) => `${Number(v).toFixed(0)}%`} />
+                      <Tooltip
+                        formatter={(v: any, n: any) => [fmtShare(Number(v)), n === "record_share" ? "Record day" : String(n)]}
+                      />
+                      <Legend />
+                      <Line type="monotone" dataKey="re_share" name={`${reLabel} share`} dot={false} strokeWidth={2} stroke="#16a34a" />
+                      {granularity === "daily" ? (
+                        <Line
+                          dataKey="record_share"
+                          name="Record day"
+                          stroke="none"
+                          dot={{ r: 4, fill: "#dc2626", stroke: "#dc2626" }}
+                          isAnimationActive={false}
+                        />
+                      ) : null}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+            </div>
+
+            <div className="mt-6 grid grid-cols-1 gap-4 lg:grid-cols-3">
+              <div className="lg:col-span-2">
+                <Card title={`${reLabel} share by ${fyWord}`}>
+                  <div className="overflow-auto rounded-xl ring-1 ring-slate-200">
+                    <table className="w-full border-collapse bg-white text-left text-sm">
+                      <thead className="sticky top-0 bg-slate-50">
+                        <tr>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">{fyWord}</th>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">Total (MU)</th>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">{reLabel} (MU)</th>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">{reLabel} share</th>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY share change</th>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">Coal share</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fyRows
+                          .slice()
+                          .reverse()
+                          .map((r) => (
+                            <tr key={r.fy} className="border-t border-slate-100">
+                              <td className="px-3 py-2 font-medium text-slate-900">
+                                {r.fy}
+                                {r.isComplete ? "" : " (YTD)"}
+                              </td>
+                              <td className="px-3 py-2 text-slate-700">{fmtMU(r.total)}</td>
+                              <td className="px-3 py-2 text-slate-700">{fmtMU(r.re)}</td>
+                              <td className="px-3 py-2 text-slate-700">{fmtShare(r.reShare)}</td>
+                              <td className={`px-3 py-2 ${pctColorClass(r.reShareChangePP)}`}>{fmtPP(r.reShareChangePP)}</td>
+                              <td className="px-3 py-2 text-slate-700">{fmtShare(r.perSourceShare.Coal)}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="mt-3 text-xs text-slate-600">
+                    An incomplete {fyWord} is compared against the same period of the previous {fyWord}. {reLabel} ={" "}
+                    {reSources.join(", ")}.
+                  </div>
+                </Card>
+              </div>
+
+              <Card title={`Record ${reLabel} share days`}>
+                <div className="max-h-[420px] overflow-auto rounded-xl ring-1 ring-slate-200">
+                  <table className="w-full border-collapse bg-white text-left text-sm">
+                    <thead className="sticky top-0 bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Share</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Prev record</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {records
+                        .slice(-25)
+                        .reverse()
+                        .map((r) => (
+                          <tr key={r.date} className="border-t border-slate-100">
+                            <td className="px-3 py-2 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
+                            <td className="px-3 py-2 text-emerald-700">{fmtShare(r.share)}</td>
+                            <td className="px-3 py-2 text-slate-500">{fmtShare(r.prevRecord)}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { csvParse } from "./ElectricityDashboard";
+import { DEFAULT_CALENDAR, type CalendarSettings } from "./calendarSettings";
+import { isoMinusDays } from "./dates";
+import { periodRange, periodStart, rebase, resampleSeries, type IndexResolution, type SeriesMap } from "./indexSeries";
+
+/**
+ * Indexed Comparison Tab
+ * - Loads the daily series configured in App.tsx plus per-source capacity from capacity.csv
+ * - Rebases every selected series to 100 at a chosen start date so MU, GW, % and Rs/Unit
+ *   trajectories share one axis
+ */
+
+export type IndexedSeries = {
+  key: string;
+  label: string;
+  unitLabel: string;
+  csvPath: string;
+  /** Column or expression for wide CSVs, as in ElectricityDashboardProps.valueColumn. */
+  valueColumn?: string;
+  /** Level that persists between reports (capacity): carried forward instead of averaged. */
+  stock?: boolean;
+  color: string;
+};
+
+const SMOOTHING_OPTIONS = [1, 7, 30];
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function periodLabel(iso: string, res: IndexResolution) {
+  return res === "monthly" ? iso.slice(0, 7) : formatDDMMYYYY(iso);
+}
+
+function fmtNum(x: number | null | undefined, decimals = 2) {
+  if (x == null || Number.isNaN(x)) return "—";
+  return new Intl.NumberFormat("en-IN", { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(x);
+}
+
+function Card({
+  title,
+  right,
+  children,
+}: {
+  title: string;
+  right?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
+      <div className="flex items-start justify-between gap-3 border-b border-slate-100 p-4">
+        <div className="text-sm font-semibold text-slate-800">{title}</div>
+        {right ? <div className="text-sm text-slate-600">{right}</div> : null}
+      </div>
+      <div className="p-4">{children}</div>
+    </div>
+  );
+}
+
+export default function IndexedComparison({
+  series,
+  defaultSelected,
+  calendar = DEFAULT_CALENDAR,
+}: {
+  series: IndexedSeries[];
+  defaultSelected?: string[];
+  /** Week start for the weekly resolution (default Monday). */
+  calendar?: CalendarSettings;
+}) {
+  const [raw, setRaw] = useState<Record<string, SeriesMap>>({});
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [selected, setSelected] = useState<string[]>(() => defaultSelected ?? series.slice(0, 3).map((s) => s.key));
+  const [resolution, setResolution] = useState<IndexResolution>("monthly");
+  const [smoothDays, setSmoothDays] = useState(30);
+  const [baseIso, setBaseIso] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadAll() {
+      setLoading(true);
+      const errs: string[] = [];
+      const next: Record<string, SeriesMap> = {};
+
+      // capacity.csv feeds several series; fetch each file once
+      const texts = new Map<string, Promise<string>>();
+      const fetchText = (path: string) => {
+        if (!texts.has(path)) {
+          texts.set(
+            path,
+            fetch(`${encodeURI(path)}?v=${Date.now()}`).then((res) => {
+              if (!res.ok) throw new Error(`HTTP ${res.status}`);
+              return res.text();
+            })
+          );
+        }
+        return texts.get(path)!;
+      };
+
+      await Promise.all(
+        series.map(async (s) => {
+          try {
+            const { parsed } = csvParse(await fetchText(s.csvPath), s.valueColumn);
+            if (!parsed.length) throw new Error("no rows");
+            next[s.key] = new Map(parsed.map((r) => [r.date, r.value] as const));
+          } catch {
+            errs.push(`Could not load ${s.label} (${s.csvPath}).`);
+            next[s.key] = new Map();
+          }
+        })
+      );
+
+      if (cancelled) return;
+      setRaw(next);
+      setLoadErrors(errs);
+      setLoading(false);
+    }
+
+    loadAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [series]);
+
+  const chosen = useMemo(() => series.filter((s) => selected.includes(s.key)), [series, selected]);
+
+  // Latest date any selected series reaches; the default base is two years before it
+  const lastIso = useMemo(() => {
+    let last = "";
+    for (const s of chosen) {
+      for (const d of (raw[s.key] ?? new Map()).keys()) if (d > last) last = d;
+    }
+    return last;
+  }, [chosen, raw]);
+
+  useEffect(() => {
+    if (!baseIso && lastIso) setBaseIso(isoMinusDays(lastIso, 730));
+  }, [baseIso, lastIso]);
+
+  const weekStart = calendar.weekStart;
+  const basePeriod = baseIso ? periodStart(baseIso, resolution, weekStart) : "";
+
+  const indexed = useMemo(() => {
+    if (!basePeriod || !lastIso || basePeriod > lastIso) return [];
+    return chosen.map((s) => {
+      const resampled = resampleSeries(raw[s.key] ?? new Map(), resolution, basePeriod, lastIso, {
+        stock: s.stock,
+        smoothDays: resolution === "daily" ? smoothDays : 1,
+        weekStart,
+      });
+      const r = rebase(resampled, basePeriod);
+      const periods = Array.from(resampled.keys()).sort();
+      const lastP = periods[periods.length - 1];
+      return {
+        series: s,
+        base: r?.base ?? null,
+        index: r?.index ?? null,
+        resampled,
+        latest: lastP ? { period: lastP, value: resampled.get(lastP)!, index: r?.index.get(lastP) ?? null } : null,
+      };
+    });
+  }, [chosen, raw, resolution, smoothDays, basePeriod, lastIso, weekStart]);
+
+  const chartData = useMemo(() => {
+    if (!basePeriod || !lastIso || basePeriod > lastIso) return [];
+    return periodRange(basePeriod, lastIso, resolution, weekStart).map((p) => {
+      const row: Record<string, string | number | null> = { label: periodLabel(p, resolution) };
+      for (const r of indexed) {
+        row[r.series.key] = r.index?.get(p) ?? null;
+        row[`${r.series.key}__raw`] = r.resampled.get(p) ?? null;
+      }
+      return row;
+    });
+  }, [indexed, basePeriod, lastIso, resolution, weekStart]);
+
+  const missingBase = indexed.filter((r) => !r.index);
+
+  function toggle(key: string) {
+    setSelected((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="mx-auto max-w-7xl px-4 py-8">
+        <div>
+          <div className="text-2xl font-semibold text-slate-900">Indexed Comparison</div>
+          <div className="mt-1 text-sm text-slate-600">
+            Growth trajectories of series with different units, each rebased to 100 at the start date
+          </div>
+        </div>
+
+        {loadErrors.length ? (
+          <div className="mt-4 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
+            <ul className="list-disc pl-5">
+              {loadErrors.map((e, i) => (
+                <li key={i}>{e}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {/* Controls */}
+        <div className="mt-6 rounded-2xl bg-white p-3 shadow-sm ring-1 ring-slate-200">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div>
+              <div className="text-xs font-medium text-slate-600">Start date (= 100)</div>
+              <input
+                type="date"
+                value={baseIso}
+                max={lastIso || undefined}
+                onChange={(e) => setBaseIso(e.target.value)}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300 tabular-nums"
+              />
+            </div>
+
+            <div>
+              <div className="text-xs font-medium text-slate-600">Resolution</div>
+              <select
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value as IndexResolution)}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly (avg)</option>
+                <option value="monthly">Monthly (avg)</option>
+              </select>
+            </div>
+
+            <div>
+              <div className="text-xs font-medium text-slate-600">Smoothing (daily only)</div>
+              <select
+                value={smoothDays}
+                disabled={resolution !== "daily"}
+                onChange={(e) => setSmoothDays(Number(e.target.value))}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 disabled:opacity-50"
+              >
+                {SMOOTHING_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n === 1 ? "None" : `Trailing ${n}-day avg`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            {series.map((s) => {
+              const on = selected.includes(s.key);
+              return (
+                <button
+                  key={s.key}
+                  type="button"
+                  onClick={() => toggle(s.key)}
+                  className={`flex items-center gap-1 rounded-lg px-2 py-1 text-[12px] font-semibold ring-1 ring-slate-200 ${
+                    on ? "bg-slate-900 text-white" : "bg-white text-slate-700 hover:bg-slate-50"
+                  }`}
+                >
+                  <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: s.color }} />
+                  {s.label} ({s.unitLabel})
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="mt-2 text-[11px] text-slate-500">
+            Flows are averaged per period; capacity keeps its last monthly report. The base is the{" "}
+            {resolution === "daily" ? "day" : resolution === "weekly" ? "week" : "month"} containing the start date
+            {basePeriod ? ` (${periodLabel(basePeriod, resolution)})` : ""}.
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <Card title="Indexed to 100" right={lastIso ? `Latest ${formatDDMMYYYY(lastIso)}` : null}>
+            {loading ? (
+              <div className="text-sm text-slate-600">Loading series…</div>
+            ) : !chosen.length ? (
+              <div className="text-sm text-slate-600">Select at least one series.</div>
+            ) : !chartData.length ? (
+              <div className="text-sm text-slate-600">Pick a start date before the latest data.</div>
+            ) : (
+              <>
+                <div className="h-[380px] sm:h-[460px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 12, right: 24, bottom: 12, left: 12 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                      <YAxis tick={{ fontSize: 12 }} domain={["auto", "auto"]} tickFormatter={(v) => fmtNum(Number(v), 0)} />
+                      <Tooltip
+                        wrapperStyle={{ outline: "none" }}
+                        formatter={(v: any, _name: any, item: any) => {
+                          const s = series.find((x) => x.key === item?.dataKey);
+                          const rawV = item?.payload?.[`${item?.dataKey}__raw`];
+                          return [
+                            `${fmtNum(Number(v), 1)} (${fmtNum(rawV, 2)} ${s?.unitLabel ?? ""})`,
+                            s?.label ?? String(item?.dataKey),
+                          ];
+                        }}
+                      />
+                      <Legend />
+                      <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="4 3" />
+                      {indexed
+                        .filter((r) => r.index)
+                        .map((r) => (
+                          <Line
+                            key={r.series.key}
+                            type="monotone"
+                            dataKey={r.series.key}
+                            name={r.series.label}
+                            dot={false}
+                            strokeWidth={2}
+                            stroke={r.series.color}
+                            connectNulls
+                          />
+                        ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+
+                {missingBase.length ? (
+                  <div className="mt-2 text-xs text-amber-700">
+                    No value in the base period for {missingBase.map((r) => r.series.label).join(", ")}; pick a later start
+                    date to include {missingBase.length === 1 ? "it" : "them"}.
+                  </div>
+                ) : null}
+
+                <div className="mt-4 overflow-auto rounded-xl ring-1 ring-slate-200">
+                  <table className="w-full border-collapse bg-white text-left text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Series</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">Base value</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">Latest value</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">Latest index</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {indexed.map((r) => (
+                        <tr key={r.series.key} className="border-t border-slate-100">
+                          <td className="px-3 py-2 font-medium text-slate-900">
+                            <span className="inline-flex items-center gap-2">
+                              <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: r.series.color }} />
+                              {r.series.label}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-700">
+                            {r.base != null ? `${fmtNum(r.base)} ${r.series.unitLabel}` : "—"}
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-700">
+                            {r.latest ? `${fmtNum(r.latest.value)} ${r.series.unitLabel}` : "—"}
+                            {r.latest ? (
+                              <span className="ml-1 text-xs text-slate-500">({periodLabel(r.latest.period, resolution)})</span>
+                            ) : null}
+                          </td>
+                          <td className="px-3 py-2 text-right font-semibold tabular-nums text-slate-900">
+                            {fmtNum(r.latest?.index, 1)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
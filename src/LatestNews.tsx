@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
+import { loadDoc, saveDoc } from "./seriesStore";
 
 type NewsItem = {
   id: string;
@@ -67,11 +68,10 @@ function isRelevant(item: NewsItem) {
   return mentionsIndia && mentionsPower;
 }
 
-function loadCache(): NewsItem[] | null {
+// Cached in browser storage (./seriesStore docs); older builds kept it in localStorage under the same key
+async function loadCache(): Promise<NewsItem[] | null> {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    if (!raw) return null;
-    const obj = JSON.parse(raw);
+    const obj = await loadDoc<{ ts?: unknown; items?: unknown }>(CACHE_KEY, CACHE_KEY);
     if (!obj || typeof obj !== "object") return null;
     if (typeof obj.ts !== "number" || !Array.isArray(obj.items)) return null;
     if (Date.now() - obj.ts > CACHE_TTL_MS) return null;
@@ -81,9 +81,9 @@ function loadCache(): NewsItem[] | null {
   }
 }
 
-function saveCache(items: NewsItem[]) {
+async function saveCache(items: NewsItem[]) {
   try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify({ ts: Date.now(), items }));
+    await saveDoc(CACHE_KEY, { ts: Date.now(), items }, CACHE_KEY);
   } catch {
     // ignore
   }
@@ -202,7 +202,7 @@ export default function LatestNews() {
 
     try {
       if (!force) {
-        const cached = loadCache();
+        const cached = await loadCache();
         if (cached) {
           setItems(cached);
           setLoading(false);
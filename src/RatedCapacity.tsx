@@ -9,6 +9,12 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import { parseCSV } from "./csv";
+import { isoMinusDays, isoPlusDays } from "./dates";
+import { loadStoredMix, type MixRow } from "./generationMix";
+import { impliedMonthlyPLF } from "./impliedPlf";
+import { loadDoc, saveDoc, storageErrorMessage } from "./seriesStore";
+import { SOURCES, type SourceKey } from "./sources";
 
 /**
  * Rated Capacity Tab
@@ -17,34 +23,15 @@ import {
  *
  * IMPORTANT:
  * - Does NOT change formatting/behavior of the Rated Capacity card above (manual inputs still allowed)
- * - Uses localStorage keys:
- *    - ratedCapacity_installed
- *    - ratedCapacity_plf
+ * - Saves installed capacity, PLF and PLF mode as browser storage docs (./seriesStore) named
+ *   after the localStorage keys older builds used (ratedCapacity_installed, ratedCapacity_plf,
+ *   ratedCapacity_plfMode), which are moved over on first load
  * - Reads initial installed capacities from /data/Capacity.csv (single-row CSV)
  * - Reads historical monthly capacities from /data/capacity.csv (or /data/Capacity.csv fallback)
+ * - Implied PLF per source = monthly generation (the Generation Mix tab's saved data) /
+ *   (historical capacity × hours); plfMode picks manual vs implied
  */
 
-type SourceKey =
-  | "Coal"
-  | "Oil & Gas"
-  | "Nuclear"
-  | "Hydro"
-  | "Solar"
-  | "Wind"
-  | "Small-Hydro"
-  | "Bio Power";
-
-const SOURCES: SourceKey[] = [
-  "Coal",
-  "Oil & Gas",
-  "Nuclear",
-  "Hydro",
-  "Solar",
-  "Wind",
-  "Small-Hydro",
-  "Bio Power",
-];
-
 function round2(n: number) {
   return Math.round(n * 100) / 100;
 }
@@ -63,46 +50,9 @@ function sumSources(obj: Record<string, number>, keys: string[]) {
   return keys.reduce((acc, k) => acc + safeNum(obj[k]), 0);
 }
 
-function parseCSVSimple(text: string) {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  if (!lines.length) return { header: [], rows: [] as string[][] };
-
-  const parseLine = (line: string) => {
-    const out: string[] = [];
-    let cur = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      const next = line[i + 1];
-
-      if (ch === '"' && inQuotes && next === '"') {
-        cur += '"';
-        i++;
-        continue;
-      }
-      if (ch === '"') {
-        inQuotes = !inQuotes;
-        continue;
-      }
-      if (ch === "," && !inQuotes) {
-        out.push(cur.trim());
-        cur = "";
-        continue;
-      }
-      cur += ch;
-    }
-    out.push(cur.trim());
-    return out;
-  };
-
-  const header = parseLine(lines[0]);
-  const rows = lines.slice(1).map(parseLine);
-  return { header, rows };
+// One number per source from a saved object; missing / invalid entries are 0
+function perSource(obj: Record<string, unknown> | null | undefined) {
+  return Object.fromEntries(SOURCES.map((s) => [s, safeNum(obj?.[s])])) as Record<SourceKey, number>;
 }
 
 function Card({
@@ -276,16 +226,6 @@ function inputValueToMonthKey(v: string) {
    Pulls monthly totals from the SAME capacity.csv data already loaded
 ========================================================= */
 
-function isoMinusDays(iso: string, days: number) {
-  const d = new Date(iso + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() - days);
-  return d.toISOString().slice(0, 10);
-}
-function isoPlusDays(iso: string, days: number) {
-  const d = new Date(iso + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() + days);
-  return d.toISOString().slice(0, 10);
-}
 function clamp(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, n));
 }
@@ -878,36 +818,17 @@ export default function RatedCapacity() {
   // ----------------------------
   const INSTALLED_KEY = "ratedCapacity_installed";
   const PLF_KEY = "ratedCapacity_plf";
+  const PLF_MODE_KEY = "ratedCapacity_plfMode";
 
-  const [installed, setInstalled] = useState<Record<SourceKey, number>>(() => {
-    const base = Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<
-      SourceKey,
-      number
-    >;
-    try {
-      const raw = localStorage.getItem(INSTALLED_KEY);
-      if (raw) {
-        const obj = JSON.parse(raw);
-        for (const s of SOURCES) base[s] = safeNum(obj?.[s]);
-      }
-    } catch {}
-    return base;
-  });
-
-  const [plf, setPlf] = useState<Record<SourceKey, number>>(() => {
-    const base = Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<
-      SourceKey,
-      number
-    >;
-    try {
-      const raw = localStorage.getItem(PLF_KEY);
-      if (raw) {
-        const obj = JSON.parse(raw);
-        for (const s of SOURCES) base[s] = safeNum(obj?.[s]);
-      }
-    } catch {}
-    return base;
-  });
+  const [installed, setInstalled] = useState<Record<SourceKey, number>>(() => perSource(null));
+  const [plf, setPlf] = useState<Record<SourceKey, number>>(() => perSource(null));
+
+  // "implied": use measured PLF (generation / capacity) where available, manual PLF otherwise
+  const [plfMode, setPlfMode] = useState<"manual" | "implied">("manual");
+
+  // Saved inputs load asynchronously; nothing is written back until they have
+  const [inputsLoaded, setInputsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   const [capacityCsvMissing, setCapacityCsvMissing] = useState(false);
   const [capacityCsvMsg, setCapacityCsvMsg] = useState<string | null>(null);
@@ -915,13 +836,13 @@ export default function RatedCapacity() {
   useEffect(() => {
     let cancelled = false;
 
-    async function loadCapacitySingleRow() {
+    async function loadCapacitySingleRow(saved: Record<SourceKey, number>) {
       try {
         const res = await fetch(`/data/Capacity.csv?v=${Date.now()}`);
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
         const text = await res.text();
-        const { header, rows } = parseCSVSimple(text);
-        if (!header.length || !rows.length) throw new Error("Empty CSV");
+        const { header, rows } = parseCSV(text, { header: true });
+        if (!header || !header.length || !rows.length) throw new Error("Empty CSV");
 
         const row = rows[0] || [];
         const map: Record<string, string> = {};
@@ -929,7 +850,7 @@ export default function RatedCapacity() {
           map[h] = row[i] ?? "";
         });
 
-        const next = { ...installed };
+        const next = { ...saved };
         let any = false;
         for (const s of SOURCES) {
           const v = safeNum(map[s]);
@@ -952,43 +873,55 @@ export default function RatedCapacity() {
       }
     }
 
-    const hasNonZeroLocal = Object.values(installed).some((v) => Number(v) !== 0);
-    if (!hasNonZeroLocal) loadCapacitySingleRow();
+    async function loadInputs() {
+      const [savedInstalled, savedPlf, savedMode] = await Promise.all([
+        loadDoc<Record<string, unknown>>(INSTALLED_KEY, INSTALLED_KEY).catch(() => null),
+        loadDoc<Record<string, unknown>>(PLF_KEY, PLF_KEY).catch(() => null),
+        // older builds stored the bare word, not JSON
+        loadDoc<string>(PLF_MODE_KEY, PLF_MODE_KEY, (raw) => raw.replace(/"/g, "")).catch(() => null),
+      ]);
+      if (cancelled) return;
+
+      const nextInstalled = perSource(savedInstalled);
+      setInstalled(nextInstalled);
+      setPlf(perSource(savedPlf));
+      setPlfMode(savedMode === "implied" ? "implied" : "manual");
+      setInputsLoaded(true);
+
+      const hasNonZeroSaved = Object.values(nextInstalled).some((v) => Number(v) !== 0);
+      if (!hasNonZeroSaved) loadCapacitySingleRow(nextInstalled);
+    }
 
+    loadInputs();
     return () => {
       cancelled = true;
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const saveInput = (name: string, value: unknown) =>
+    saveDoc(name, value, name)
+      .then(() => setStorageError(null))
+      .catch((e) => setStorageError(storageErrorMessage(e, "the capacity inputs")));
+
   useEffect(() => {
-    try {
-      localStorage.setItem(INSTALLED_KEY, JSON.stringify(installed));
-    } catch {}
-  }, [installed]);
+    if (inputsLoaded) saveInput(INSTALLED_KEY, installed);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [installed, inputsLoaded]);
 
   useEffect(() => {
-    try {
-      localStorage.setItem(PLF_KEY, JSON.stringify(plf));
-    } catch {}
-  }, [plf]);
+    if (inputsLoaded) saveInput(PLF_KEY, plf);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [plf, inputsLoaded]);
+
+  useEffect(() => {
+    if (inputsLoaded) saveInput(PLF_MODE_KEY, plfMode);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [plfMode, inputsLoaded]);
 
   const installedTotal = useMemo(() => {
     return sumSources(installed as unknown as Record<string, number>, SOURCES);
   }, [installed]);
 
-  const ratedBySource = useMemo(() => {
-    const out: Record<SourceKey, number> = {} as any;
-    for (const s of SOURCES) {
-      out[s] = round2(safeNum(installed[s]) * (safeNum(plf[s]) / 100));
-    }
-    return out;
-  }, [installed, plf]);
-
-  const ratedTotal = useMemo(() => {
-    return sumSources(ratedBySource as unknown as Record<string, number>, SOURCES);
-  }, [ratedBySource]);
-
   // ----------------------------
   // Historical Capacity
   // ----------------------------
@@ -1030,8 +963,8 @@ export default function RatedCapacity() {
           "/data/Capacity.csv",
         ]);
 
-        const { header, rows } = parseCSVSimple(text);
-        if (!header.length || !rows.length) throw new Error("Empty CSV");
+        const { header, rows, errors: csvErrors } = parseCSV(text, { header: true });
+        if (!header || !header.length || !rows.length) throw new Error("Empty CSV");
 
         const normHeaders = header.map(normalizeHeader);
 
@@ -1072,6 +1005,8 @@ export default function RatedCapacity() {
             setHistoryError(
               `Loaded ${path} but found 0 valid rows. Ensure Month/Date values are MM/YYYY or DD/MM/YY.`
             );
+          } else if (csvErrors.length) {
+            setHistoryError(`Loaded ${path} with issues: ${csvErrors.join(" ")}`);
           }
         }
       } catch {
@@ -1162,6 +1097,58 @@ export default function RatedCapacity() {
   const startMonthInputValue = useMemo(() => monthKeyToInputValue(startMonth), [startMonth]);
   const endMonthInputValue = useMemo(() => monthKeyToInputValue(endMonth), [endMonth]);
 
+  // ----------------------------
+  // Implied PLF (generation mix × capacity history)
+  // ----------------------------
+  const [mix, setMix] = useState<MixRow[]>([]);
+  const [impliedMonth, setImpliedMonth] = useState<string>("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // No generation data: the implied PLF card explains what it needs
+    loadStoredMix()
+      .catch(() => [] as MixRow[])
+      .then((rows) => !cancelled && setMix(rows));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const impliedRows = useMemo(() => impliedMonthlyPLF(mix, history), [mix, history]);
+
+  useEffect(() => {
+    if (!impliedRows.length) return;
+    const months = impliedRows.map((r) => r.month);
+    setImpliedMonth((prev) => (prev && months.includes(prev) ? prev : months[months.length - 1]));
+  }, [impliedRows]);
+
+  const impliedRow = useMemo(
+    () => impliedRows.find((r) => r.month === impliedMonth) ?? null,
+    [impliedRows, impliedMonth]
+  );
+
+  const effectivePlf = useMemo(() => {
+    const out = {} as Record<SourceKey, number>;
+    for (const s of SOURCES) {
+      const measured = impliedRow?.plf[s];
+      out[s] = plfMode === "implied" && measured != null ? measured : safeNum(plf[s]);
+    }
+    return out;
+  }, [plf, plfMode, impliedRow]);
+
+  const ratedBySource = useMemo(() => {
+    const out: Record<SourceKey, number> = {} as any;
+    for (const s of SOURCES) {
+      out[s] = round2(safeNum(installed[s]) * (effectivePlf[s] / 100));
+    }
+    return out;
+  }, [installed, effectivePlf]);
+
+  const ratedTotal = useMemo(() => {
+    return sumSources(ratedBySource as unknown as Record<string, number>, SOURCES);
+  }, [ratedBySource]);
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div className="mx-auto max-w-7xl px-4 py-8">
@@ -1176,6 +1163,12 @@ export default function RatedCapacity() {
               </div>
             ) : null}
 
+            {storageError ? (
+              <div className="mb-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-medium text-rose-700">
+                {storageError}
+              </div>
+            ) : null}
+
             <div className="overflow-hidden rounded-2xl ring-1 ring-slate-200">
               <table className="w-full border-collapse bg-white text-left text-sm">
                 <thead className="bg-slate-50">
@@ -1244,6 +1237,63 @@ export default function RatedCapacity() {
                     </td>
                   </tr>
 
+                  <tr className="border-t border-slate-100 bg-slate-50/60">
+                    <td className="px-3 py-2 font-bold text-slate-900">
+                      <div>Implied PLF %</div>
+                      {impliedRows.length ? (
+                        <select
+                          value={impliedMonth}
+                          onChange={(e) => setImpliedMonth(e.target.value)}
+                          className="mt-1 rounded-lg border border-slate-200 bg-white px-1 py-0.5 text-xs font-medium text-slate-700"
+                        >
+                          {impliedRows
+                            .slice()
+                            .reverse()
+                            .map((r) => (
+                              <option key={r.month} value={r.month}>
+                                {r.month}
+                                {r.days < r.daysInMonth ? ` (${r.days}d)` : ""}
+                              </option>
+                            ))}
+                        </select>
+                      ) : (
+                        <div className="text-xs font-medium text-slate-500">no generation mix data</div>
+                      )}
+                    </td>
+                    {SOURCES.map((s) => {
+                      const v = impliedRow?.plf[s];
+                      return (
+                        <td key={s} className="px-3 py-2 text-right tabular-nums text-slate-700">
+                          {v != null ? fmt2(v) : "—"}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-right font-semibold tabular-nums text-slate-700">
+                      {impliedRow?.totalPlf != null ? fmt2(impliedRow.totalPlf) : "—"}
+                    </td>
+                  </tr>
+
+                  <tr className="border-t border-slate-100 bg-slate-50/60">
+                    <td className="px-3 py-2 font-bold text-slate-900">Variance (pp, implied − manual)</td>
+                    {SOURCES.map((s) => {
+                      const v = impliedRow?.plf[s];
+                      if (v == null) {
+                        return (
+                          <td key={s} className="px-3 py-2 text-right tabular-nums text-slate-500">
+                            —
+                          </td>
+                        );
+                      }
+                      const diff = round2(v - safeNum(plf[s]));
+                      return (
+                        <td key={s} className={`px-3 py-2 text-right font-semibold tabular-nums ${netColorClass(diff)}`}>
+                          {`${diff > 0 ? "+" : ""}${fmt2(diff)}`}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-right font-semibold tabular-nums text-slate-500">—</td>
+                  </tr>
+
                   <tr className="border-t border-slate-100">
                     <td className="px-3 py-2 font-bold text-slate-900">Rated Capacity</td>
                     {SOURCES.map((s) => (
@@ -1262,8 +1312,24 @@ export default function RatedCapacity() {
               </table>
             </div>
 
-            <div className="mt-3 text-xs text-slate-600">
-              Rated Capacity (GW) = Installed Capacity × (PLF / 100). Values are editable and saved locally in your browser.
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-600">
+              <span>
+                Rated Capacity (GW) = Installed Capacity × (PLF / 100). Values are editable and saved locally in your browser.
+              </span>
+              <label className="flex items-center gap-2">
+                <span className="font-medium text-slate-700">PLF used</span>
+                <select
+                  value={plfMode}
+                  onChange={(e) => setPlfMode(e.target.value as "manual" | "implied")}
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                >
+                  <option value="manual">Manual inputs</option>
+                  <option value="implied">Implied (measured), manual where missing</option>
+                </select>
+              </label>
+            </div>
+            <div className="mt-1 text-xs text-slate-600">
+              Implied PLF = monthly generation (MU) / (capacity in capacity.csv (GW) × days with data × 24h).
             </div>
           </Card>
 
@@ -1403,6 +1469,57 @@ export default function RatedCapacity() {
             </div>
           </Card>
 
+          {/* ===========================
+              Implied PLF by month
+              =========================== */}
+          <Card title="Implied PLF by month" right={<div className="text-xs text-slate-500">%</div>}>
+            {!impliedRows.length ? (
+              <div className="text-sm text-slate-600">
+                Needs fuel-wise generation (data imported in the Generation Mix tab) for months covered by
+                capacity.csv.
+              </div>
+            ) : (
+              <div className="overflow-auto rounded-2xl ring-1 ring-slate-200">
+                <table className="w-full border-collapse bg-white text-left text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-2 py-2 text-xs font-semibold text-slate-700">Month</th>
+                      {SOURCES.map((s) => (
+                        <th key={s} className="px-2 py-2 text-right text-xs font-semibold text-slate-700">
+                          {s}
+                        </th>
+                      ))}
+                      <th className="px-2 py-2 text-right text-xs font-semibold text-slate-700">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {impliedRows
+                      .slice(-12)
+                      .reverse()
+                      .map((r) => (
+                        <tr key={r.month} className="border-t border-slate-100">
+                          <td className="px-2 py-2 font-medium text-slate-900">
+                            {r.month}
+                            {r.days < r.daysInMonth ? (
+                              <span className="ml-1 text-xs text-slate-500">({r.days}d)</span>
+                            ) : null}
+                          </td>
+                          {SOURCES.map((s) => (
+                            <td key={s} className="px-2 py-2 text-right tabular-nums text-slate-700">
+                              {r.plf[s] != null ? fmt2(r.plf[s]!) : "—"}
+                            </td>
+                          ))}
+                          <td className="px-2 py-2 text-right font-semibold tabular-nums text-slate-900">
+                            {r.totalPlf != null ? fmt2(r.totalPlf) : "—"}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+
           {/* ===========================
               Capacity (NEW) — RTM-like card below Historical Capacity
               =========================== */}
@@ -0,0 +1,142 @@
+/* -----------------------------
+   Event annotations for the time-series charts
+   - Stored per dashboard type next to the series (`tusk_india_${type}_annotations_v1`)
+   - A one-day annotation draws as a vertical line, a date range as a shaded band
+   - Charts have category x-axes (one label per day / week / month), so an annotation is
+     snapped to the first and last chart periods it overlaps
+----------------------------- */
+
+export type AnnotationCategory = "weather" | "policy" | "market" | "outage" | "other";
+
+export type Annotation = {
+  id: string;
+  /** ISO date. */
+  start: string;
+  /** ISO date, inclusive; absent for a single day. */
+  end?: string;
+  label: string;
+  category: AnnotationCategory;
+};
+
+export const ANNOTATION_CATEGORIES: Array<{ key: AnnotationCategory; label: string; color: string }> = [
+  { key: "weather", label: "Weather (e.g. heatwave)", color: "#ea580c" },
+  { key: "policy", label: "Policy / tariff order", color: "#7c3aed" },
+  { key: "market", label: "Market (e.g. IEX coupling)", color: "#0891b2" },
+  { key: "outage", label: "Plant outage", color: "#be123c" },
+  { key: "other", label: "Other", color: "#475569" },
+];
+
+export function annotationColor(category: AnnotationCategory) {
+  return ANNOTATION_CATEGORIES.find((c) => c.key === category)?.color ?? "#475569";
+}
+
+export function annotationsStorageKey(type: string) {
+  return `tusk_india_${type}_annotations_v1`;
+}
+
+const ISO_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function newAnnotationId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Validates one record; returns an error message instead of throwing so imports can list them. */
+function toAnnotation(value: unknown, idx: number): Annotation | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return `Item ${idx + 1}: not an object.`;
+  const raw = value as Record<string, unknown>;
+  const start = String(raw.start ?? "");
+  const end = raw.end == null || raw.end === "" ? undefined : String(raw.end);
+  const label = String(raw.label ?? "").trim();
+  if (!ISO_RE.test(start)) return `Item ${idx + 1}: start must be YYYY-MM-DD.`;
+  if (end != null && (!ISO_RE.test(end) || end < start)) return `Item ${idx + 1}: end must be YYYY-MM-DD on/after start.`;
+  if (!label) return `Item ${idx + 1}: label is empty.`;
+  const category = ANNOTATION_CATEGORIES.some((c) => c.key === raw.category) ? (raw.category as AnnotationCategory) : "other";
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : newAnnotationId(),
+    start,
+    end: end && end !== start ? end : undefined,
+    label,
+    category,
+  };
+}
+
+export function sortAnnotations(list: Annotation[]) {
+  return [...list].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : a.label.localeCompare(b.label)));
+}
+
+export function loadAnnotations(type: string): Annotation[] {
+  try {
+    const raw = localStorage.getItem(annotationsStorageKey(type));
+    if (!raw) return [];
+    const arr: unknown = JSON.parse(raw);
+    if (!Array.isArray(arr)) return [];
+    return sortAnnotations(arr.map(toAnnotation).filter((a): a is Annotation => typeof a !== "string"));
+  } catch {
+    return [];
+  }
+}
+
+export function saveAnnotations(type: string, list: Annotation[]) {
+  try {
+    localStorage.setItem(annotationsStorageKey(type), JSON.stringify(list));
+  } catch {}
+}
+
+export function annotationsToJSON(type: string, list: Annotation[]) {
+  return JSON.stringify({ type, version: 1, annotations: list }, null, 2);
+}
+
+/** Accepts the export format or a bare array. */
+export function parseAnnotationsJSON(text: string): { annotations: Annotation[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { annotations: [], errors: ["File is not valid JSON."] };
+  }
+  const arr: unknown =
+    Array.isArray(data) ? data : data && typeof data === "object" ? (data as { annotations?: unknown }).annotations : null;
+  if (!Array.isArray(arr)) return { annotations: [], errors: ["Expected an array of annotations."] };
+
+  const annotations: Annotation[] = [];
+  const errors: string[] = [];
+  arr.forEach((raw, i) => {
+    const a = toAnnotation(raw, i);
+    if (typeof a === "string") errors.push(a);
+    else annotations.push(a);
+  });
+  return { annotations, errors };
+}
+
+/** Imported records replace stored ones with the same id; the rest are added. */
+export function mergeAnnotations(existing: Annotation[], incoming: Annotation[]) {
+  const byId = new Map(existing.map((a) => [a.id, a]));
+  for (const a of incoming) byId.set(a.id, a);
+  return sortAnnotations(Array.from(byId.values()));
+}
+
+/* -----------------------------
+   Chart overlays
+----------------------------- */
+
+/** A chart x-axis category and the calendar days it covers. */
+export type ChartPeriod = { label: string; start: string; end: string };
+
+export type AnnotationOverlay = { annotation: Annotation; x1: string; x2: string };
+
+export function annotationOverlays(list: Annotation[], periods: ChartPeriod[]): AnnotationOverlay[] {
+  if (!periods.length) return [];
+  const out: AnnotationOverlay[] = [];
+  for (const a of list) {
+    const end = a.end ?? a.start;
+    let first: ChartPeriod | null = null;
+    let last: ChartPeriod | null = null;
+    for (const p of periods) {
+      if (p.end < a.start || p.start > end) continue;
+      if (!first) first = p;
+      last = p;
+    }
+    if (first && last) out.push({ annotation: a, x1: first.label, x2: last.label });
+  }
+  return out;
+}
@@ -0,0 +1,95 @@
+/* -----------------------------
+   Comparison baseline for growth figures (the "YoY" columns)
+   - years_ago: the same period N years earlier (N = 1 is the classic YoY)
+   - avg_3y: mean of the same period in each of the last 3 years
+   - ref_fy: the same period in one reference year (e.g. FY20, before the FY21 base effect;
+     CY20 when the dashboard runs on calendar years)
+   Every caller already knows how to shift its own period back by k years, so a baseline
+   is just the list of k's to average over.
+----------------------------- */
+
+import { DEFAULT_CALENDAR, type CalendarSettings } from "./calendarSettings";
+import { fyLabelFromIso } from "./fiscalYear";
+
+export type BaselineMode = "years_ago" | "avg_3y" | "ref_fy";
+
+export type Baseline = {
+  mode: BaselineMode;
+  /** For years_ago. */
+  years: number;
+  /** For ref_fy, e.g. "FY20" or "CY20". */
+  fy: string;
+};
+
+export const DEFAULT_BASELINE: Baseline = { mode: "years_ago", years: 1, fy: "FY20" };
+
+export const BASELINE_YEARS_AGO = [1, 2, 3, 4, 5];
+
+function yearNumber(label: string) {
+  return Number(label.slice(2));
+}
+
+export function isDefaultBaseline(b: Baseline) {
+  return b.mode === "years_ago" && b.years === 1;
+}
+
+/**
+ * Years back to compare a period against; `anchorIso` is a date inside the period (its start,
+ * or the end of a trailing window). Empty when the period has no baseline, e.g. the reference FY itself.
+ */
+export function baselineYearOffsets(b: Baseline, anchorIso: string, cal: CalendarSettings = DEFAULT_CALENDAR): number[] {
+  if (b.mode === "avg_3y") return [1, 2, 3];
+  if (b.mode === "ref_fy") {
+    const k = yearNumber(fyLabelFromIso(anchorIso, cal)) - yearNumber(b.fy);
+    return k > 0 ? [k] : [];
+  }
+  return [Math.max(1, Math.round(b.years))];
+}
+
+/** Mean of `valueAt(k)` over the offsets; null when there are none or any year is missing. */
+export function baselineMean(offsets: number[], valueAt: (yearsBack: number) => number | null | undefined) {
+  if (!offsets.length) return null;
+  let sum = 0;
+  for (const k of offsets) {
+    const v = valueAt(k);
+    if (v == null || !Number.isFinite(v)) return null;
+    sum += v;
+  }
+  return sum / offsets.length;
+}
+
+/** Short name for labels: "PY", "2Y ago", "3Y avg", "FY20". */
+export function baselineShortLabel(b: Baseline) {
+  if (b.mode === "avg_3y") return "3Y avg";
+  if (b.mode === "ref_fy") return b.fy;
+  return b.years === 1 ? "PY" : `${b.years}Y ago`;
+}
+
+/** Growth column name: "YoY" for the default, otherwise "vs <baseline>". */
+export function growthLabel(b: Baseline) {
+  return isDefaultBaseline(b) ? "YoY" : `vs ${baselineShortLabel(b)}`;
+}
+
+export function baselineStorageKey(type: string) {
+  return `tusk_india_${type}_baseline_v1`;
+}
+
+export function loadBaseline(type: string): Baseline {
+  try {
+    const raw = localStorage.getItem(baselineStorageKey(type));
+    if (!raw) return DEFAULT_BASELINE;
+    const obj = JSON.parse(raw);
+    const mode: BaselineMode = obj?.mode === "avg_3y" || obj?.mode === "ref_fy" ? obj.mode : "years_ago";
+    const years = BASELINE_YEARS_AGO.includes(Number(obj?.years)) ? Number(obj.years) : 1;
+    const fy = typeof obj?.fy === "string" && /^[FC]Y\d{2}$/.test(obj.fy) ? obj.fy : DEFAULT_BASELINE.fy;
+    return { mode, years, fy };
+  } catch {
+    return DEFAULT_BASELINE;
+  }
+}
+
+export function saveBaseline(type: string, b: Baseline) {
+  try {
+    localStorage.setItem(baselineStorageKey(type), JSON.stringify(b));
+  } catch {}
+}
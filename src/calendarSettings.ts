@@ -0,0 +1,90 @@
+/* -----------------------------
+   Calendar settings shared by every tab (set in the header, saved in localStorage)
+   - Year: fiscal, starting on the 1st of fyStartMonth (India: April), or calendar (Jan–Dec)
+   - Week start: 0 = Sunday … 6 = Saturday (Monday by default; the grid operator's week is Sun–Sat)
+   Year labels are a 2-letter prefix + 2-digit end year ("FY25", "CY25"), so they sort and
+   step back the same way in both modes (see ./fiscalYear).
+----------------------------- */
+
+import { isoPlusDays } from "./dates";
+
+export type YearMode = "fiscal" | "calendar";
+
+export type CalendarSettings = {
+  yearMode: YearMode;
+  /** 1 = January … 12 = December; only used in fiscal mode. */
+  fyStartMonth: number;
+  /** 0 = Sunday … 6 = Saturday. */
+  weekStart: number;
+};
+
+export const DEFAULT_CALENDAR: CalendarSettings = { yearMode: "fiscal", fyStartMonth: 4, weekStart: 1 };
+
+export const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const CALENDAR_STORAGE_KEY = "tusk_india_calendar_v1";
+
+/** First month (1–12) of the reporting year. */
+export function yearStartMonth(cal: CalendarSettings) {
+  return cal.yearMode === "calendar" ? 1 : cal.fyStartMonth;
+}
+
+export function yearPrefix(cal: CalendarSettings) {
+  return cal.yearMode === "calendar" ? "CY" : "FY";
+}
+
+/** "Apr–Mar", "Jan–Dec", … */
+export function yearSpanLabel(cal: CalendarSettings) {
+  const start = yearStartMonth(cal) - 1;
+  return `${MONTH_NAMES[start]}–${MONTH_NAMES[(start + 11) % 12]}`;
+}
+
+/** Months of the reporting year in order, as 1–12. */
+export function yearMonthOrder(cal: CalendarSettings) {
+  const start = yearStartMonth(cal);
+  return Array.from({ length: 12 }, (_, i) => ((start - 1 + i) % 12) + 1);
+}
+
+/** Days since the start of the week containing `iso` (0 on the week's first day). */
+export function weekdayOffset(iso: string, cal: CalendarSettings) {
+  const dow = new Date(iso + "T00:00:00Z").getUTCDay();
+  return (dow - cal.weekStart + 7) % 7;
+}
+
+export function startOfWeekIso(iso: string, cal: CalendarSettings) {
+  return isoPlusDays(iso, -weekdayOffset(iso, cal));
+}
+
+export function isDefaultCalendar(cal: CalendarSettings) {
+  return (
+    cal.yearMode === DEFAULT_CALENDAR.yearMode &&
+    cal.fyStartMonth === DEFAULT_CALENDAR.fyStartMonth &&
+    cal.weekStart === DEFAULT_CALENDAR.weekStart
+  );
+}
+
+export function loadCalendarSettings(): CalendarSettings {
+  try {
+    const raw = localStorage.getItem(CALENDAR_STORAGE_KEY);
+    if (!raw) return DEFAULT_CALENDAR;
+    const obj = JSON.parse(raw);
+    const yearMode: YearMode = obj?.yearMode === "calendar" ? "calendar" : "fiscal";
+    const m = Number(obj?.fyStartMonth);
+    const w = Number(obj?.weekStart);
+    return {
+      yearMode,
+      fyStartMonth: Number.isInteger(m) && m >= 1 && m <= 12 ? m : DEFAULT_CALENDAR.fyStartMonth,
+      weekStart: Number.isInteger(w) && w >= 0 && w <= 6 ? w : DEFAULT_CALENDAR.weekStart,
+    };
+  } catch {
+    return DEFAULT_CALENDAR;
+  }
+}
+
+export function saveCalendarSettings(cal: CalendarSettings) {
+  try {
+    localStorage.setItem(CALENDAR_STORAGE_KEY, JSON.stringify(cal));
+  } catch {}
+}
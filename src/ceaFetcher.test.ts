@@ -0,0 +1,132 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from "vitest";
+import { createCEAFetcher, parseCEADailyReport } from "./ceaFetcher";
+import report15 from "./__fixtures__/cea/dgr_15-03-2025.csv?raw";
+import report16 from "./__fixtures__/cea/dgr_16-03-2025.csv?raw";
+import conventionalOnly from "./__fixtures__/cea/dgr_conventional_only.csv?raw";
+
+const FIXTURES: Record<string, string> = {
+  "dgr_15-03-2025.csv": report15,
+  "dgr_16-03-2025.csv": report16,
+};
+
+// Serves the saved reports by file name, 404 for everything else; records requested URLs
+function mockFetch() {
+  const urls: string[] = [];
+  const fetchImpl = async (url: string) => {
+    urls.push(url);
+    const body = FIXTURES[url.split("/").pop() ?? ""];
+    return body ? new Response(body, { status: 200 }) : new Response("Not found", { status: 404 });
+  };
+  return { urls, fetchImpl };
+}
+
+describe("parseCEADailyReport", () => {
+  it("adds total RE to All India actual generation by default", () => {
+    const { rows, errors } = parseCEADailyReport(report15);
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].date).toBe("2025-03-15");
+    expect(rows[0].value).toBeCloseTo(3912.45 + 690.65, 6);
+  });
+
+  it("reads only All India actual generation without RE", () => {
+    const { rows, errors } = parseCEADailyReport(report15, { includeRE: false });
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{ date: "2025-03-15", value: 3912.45 }]);
+  });
+
+  it("accepts the slash date and the 'All-India Total' / 'RE Total' row labels", () => {
+    const { rows, errors } = parseCEADailyReport(report16);
+    expect(errors).toEqual([]);
+    expect(rows[0].date).toBe("2025-03-16");
+    expect(rows[0].value).toBeCloseTo(3880 + 670, 6);
+  });
+
+  it("falls back to the expected date when the report has none", () => {
+    const { rows } = parseCEADailyReport(conventionalOnly, { includeRE: false, expectedDate: "2025-01-02" });
+    expect(rows).toEqual([{ date: "2025-01-02", value: 2100 }]);
+  });
+
+  it("reports a missing RE section instead of returning conventional generation only", () => {
+    const { rows, errors } = parseCEADailyReport(conventionalOnly, { expectedDate: "2025-01-02" });
+    expect(rows).toEqual([]);
+    expect(errors).toEqual(["CEA report 02-01-2025: total RE generation not found."]);
+  });
+
+  it("rejects a report dated differently from the day requested", () => {
+    const { rows, errors } = parseCEADailyReport(report15, { expectedDate: "2025-03-14" });
+    expect(rows).toEqual([]);
+    expect(errors).toEqual(["CEA report for 14-03-2025 is dated 15-03-2025."]);
+  });
+
+  it("reports a file without a date or All India row", () => {
+    expect(parseCEADailyReport("Region,Actual Today\nNorthern,10").errors).toEqual([
+      "CEA report: report date not found.",
+    ]);
+    expect(parseCEADailyReport("Region,Actual Today\nNorthern,10", { expectedDate: "2025-03-15" }).errors).toEqual([
+      "CEA report 15-03-2025: All India actual generation not found.",
+    ]);
+  });
+});
+
+describe("createCEAFetcher", () => {
+  it("requests one report per day from the configured base URL", async () => {
+    const { urls, fetchImpl } = mockFetch();
+    const fetcher = createCEAFetcher({ baseUrl: "http://localhost:8080/reports/", fetchImpl });
+    const { rows, errors } = await fetcher.fetchRange("2025-03-15", "2025-03-17");
+
+    expect(urls).toEqual([
+      "http://localhost:8080/reports/dgr_15-03-2025.csv",
+      "http://localhost:8080/reports/dgr_16-03-2025.csv",
+      "http://localhost:8080/reports/dgr_17-03-2025.csv",
+    ]);
+    expect(rows.map((r) => r.date)).toEqual(["2025-03-15", "2025-03-16"]);
+    expect(errors).toEqual(["CEA report for 17-03-2025 not published yet."]);
+  });
+
+  it("passes includeRE through and uses a custom report path", async () => {
+    const { urls, fetchImpl } = mockFetch();
+    const fetcher = createCEAFetcher({
+      baseUrl: "http://mock",
+      reportPath: (iso) => `daily/dgr_${iso.slice(8)}-${iso.slice(5, 7)}-${iso.slice(0, 4)}.csv`,
+      includeRE: false,
+      fetchImpl,
+    });
+    const { rows } = await fetcher.fetchRange("2025-03-15", "2025-03-15");
+    expect(urls).toEqual(["http://mock/daily/dgr_15-03-2025.csv"]);
+    expect(rows).toEqual([{ date: "2025-03-15", value: 3912.45 }]);
+  });
+
+  it("stops after maxDays and continues from the next day on the following call", async () => {
+    const { urls, fetchImpl } = mockFetch();
+    const fetcher = createCEAFetcher({ baseUrl: "http://mock", maxDays: 1, fetchImpl });
+
+    const first = await fetcher.fetchRange("2025-03-15", "2025-03-16");
+    expect(urls).toEqual(["http://mock/dgr_15-03-2025.csv"]);
+    expect(first.rows.map((r) => r.date)).toEqual(["2025-03-15"]);
+    expect(first.errors).toEqual(["Stopped after 1 days; fetch again for the rest."]);
+
+    const second = await fetcher.fetchRange("2025-03-16", "2025-03-16");
+    expect(second.rows.map((r) => r.date)).toEqual(["2025-03-16"]);
+    expect(second.errors).toEqual([]);
+  });
+
+  it("reports HTTP errors and unreachable hosts per day", async () => {
+    let calls = 0;
+    const fetcher = createCEAFetcher({
+      baseUrl: "http://mock",
+      fetchImpl: async () => {
+        calls += 1;
+        if (calls === 1) return new Response("", { status: 500 });
+        throw new TypeError("Failed to fetch");
+      },
+    });
+    const { rows, errors } = await fetcher.fetchRange("2025-03-15", "2025-03-16");
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      "CEA report for 15-03-2025: HTTP 500",
+      "CEA report for 16-03-2025: could not reach http://mock.",
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { parseCSV } from "./csv";
+import { isoPlusDays } from "./dates";
+
+/* -----------------------------
+   CEA daily generation report fetcher
+   - Parses the CSV/TSV export of the CEA Daily Generation Report into {date, value}
+   - value = All-India actual generation for the day (MU), plus total RE when includeRE
+   - baseUrl is configurable so a local mock server can stand in for CEA
+----------------------------- */
+
+export type DailyRow = { date: string; value: number };
+
+export type FetchResult = { rows: DailyRow[]; errors: string[] };
+
+/** Anything that can produce daily rows for an inclusive ISO date range. */
+export type DailySeriesFetcher = {
+  label: string;
+  fetchRange: (fromIso: string, toIso: string) => Promise<FetchResult>;
+};
+
+export type CEAFetcherConfig = {
+  baseUrl: string;
+  /** Relative report path for a day; default `dgr_DD-MM-YYYY.csv`. */
+  reportPath?: (iso: string) => string;
+  includeRE?: boolean;
+  /** Upper bound on days requested per fetchRange call. */
+  maxDays?: number;
+  fetchImpl?: (url: string) => Promise<Response>;
+};
+
+export type CEAParseOptions = {
+  includeRE?: boolean;
+  /** Used when the report does not state its own date. */
+  expectedDate?: string;
+};
+
+const TOTAL_ROW = /^all[\s-]*india(\s+total)?$/i;
+const RE_TOTAL_ROW = /^(total\s*(re|res|renewables?)(\s+generation)?|(re|res|renewables?)\s*total)$/i;
+
+function toDDMMYYYY(iso: string) {
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function dateFromText(s: string) {
+  const r = s.match(/(\d{2})[-/.](\d{2})[-/.](\d{4})/);
+  if (!r) return null;
+  const [, dd, mm, yyyy] = r;
+  const d = new Date(Date.UTC(Number(yyyy), Number(mm) - 1, Number(dd)));
+  if (Number.isNaN(d.getTime()) || d.getUTCDate() !== Number(dd) || d.getUTCMonth() !== Number(mm) - 1) return null;
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function parseNumber(s: string | undefined) {
+  if (s == null) return null;
+  const t = s.replace(/,/g, "").trim();
+  if (!t || t === "-") return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Column holding today's actual generation in a header row, or -1
+function actualColumnIndex(cells: string[]) {
+  const norm = cells.map((c) => c.toLowerCase().replace(/\s+/g, " "));
+  const today = norm.findIndex((c) => c.includes("actual") && /\b(to)?day\b/.test(c));
+  if (today >= 0) return today;
+  return norm.findIndex((c) => c.includes("actual"));
+}
+
+/** Value in `rowMatch` row, read from the actual column of the closest header above it. */
+function findActual(rows: string[][], rowMatch: RegExp) {
+  let col = -1;
+  for (const cells of rows) {
+    const idx = actualColumnIndex(cells);
+    const head = cells[0] ?? "";
+    if (idx >= 0 && !rowMatch.test(head)) {
+      col = idx;
+      continue;
+    }
+    if (col >= 0 && rowMatch.test(head)) {
+      return parseNumber(cells[col]);
+    }
+  }
+  return null;
+}
+
+export function parseCEADailyReport(text: string, opts: CEAParseOptions = {}): FetchResult {
+  const includeRE = opts.includeRE ?? true;
+  const { rows, errors: csvErrors } = parseCSV(text, { header: false });
+
+  let date: string | null = null;
+  for (const line of rows.slice(0, 10).map((cells) => cells.join(" "))) {
+    if (/date/i.test(line)) {
+      date = dateFromText(line);
+      if (date) break;
+    }
+  }
+  date = date ?? opts.expectedDate ?? null;
+  if (!date) return { rows: [], errors: [...csvErrors, "CEA report: report date not found."] };
+
+  const label = toDDMMYYYY(date);
+  if (opts.expectedDate && date !== opts.expectedDate) {
+    return { rows: [], errors: [...csvErrors, `CEA report for ${toDDMMYYYY(opts.expectedDate)} is dated ${label}.`] };
+  }
+
+  const conventional = findActual(rows, TOTAL_ROW);
+  if (conventional == null) return { rows: [], errors: [...csvErrors, `CEA report ${label}: All India actual generation not found.`] };
+
+  if (!includeRE) return { rows: [{ date, value: conventional }], errors: csvErrors };
+
+  const re = findActual(rows, RE_TOTAL_ROW);
+  if (re == null) return { rows: [], errors: [...csvErrors, `CEA report ${label}: total RE generation not found.`] };
+
+  return { rows: [{ date, value: conventional + re }], errors: csvErrors };
+}
+
+export function createCEAFetcher(config: CEAFetcherConfig): DailySeriesFetcher {
+  const {
+    baseUrl,
+    reportPath = (iso: string) => `dgr_${toDDMMYYYY(iso)}.csv`,
+    includeRE = true,
+    maxDays = 31,
+    fetchImpl = (url: string) => fetch(url),
+  } = config;
+
+  const root = baseUrl.replace(/\/+$/, "");
+
+  return {
+    label: "CEA daily generation report",
+    async fetchRange(fromIso: string, toIso: string) {
+      const rows: DailyRow[] = [];
+      const errors: string[] = [];
+
+      let cur = fromIso;
+      let n = 0;
+      while (cur <= toIso && n < maxDays) {
+        const url = `${root}/${reportPath(cur)}`;
+        try {
+          const res = await fetchImpl(url);
+          if (res.status === 404) errors.push(`CEA report for ${toDDMMYYYY(cur)} not published yet.`);
+          else if (!res.ok) errors.push(`CEA report for ${toDDMMYYYY(cur)}: HTTP ${res.status}`);
+          else {
+            const parsed = parseCEADailyReport(await res.text(), { includeRE, expectedDate: cur });
+            rows.push(...parsed.rows);
+            errors.push(...parsed.errors);
+          }
+        } catch {
+          errors.push(`CEA report for ${toDDMMYYYY(cur)}: could not reach ${root}.`);
+        }
+        cur = isoPlusDays(cur, 1);
+        n += 1;
+      }
+
+      if (cur <= toIso) errors.push(`Stopped after ${maxDays} days; fetch again for the rest.`);
+      return { rows, errors };
+    },
+  };
+}
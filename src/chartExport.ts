@@ -0,0 +1,184 @@
+/* -----------------------------
+   Chart export (SVG / PNG / clipboard)
+   - Collects the Recharts <svg> surfaces inside a container (and hand-drawn charts marked
+     with data-chart-export, e.g. the calendar heatmap), stacks them vertically
+   - Adds a title on top, the chart legend (Recharts draws it as HTML) and a caption
+     with the source CSV and as-of date underneath
+----------------------------- */
+
+export type ChartCaption = {
+  title: string;
+  source: string;
+  /** Display date of the latest data point. */
+  asOf: string;
+};
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const FONT = "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif";
+const PAD = 16;
+const TITLE_H = 28;
+const LEGEND_ROW_H = 18;
+const CAPTION_H = 22;
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+type LegendItem = { label: string; color: string; dashed: boolean };
+
+function legendItems(container: HTMLElement): LegendItem[] {
+  const items: LegendItem[] = [];
+  container.querySelectorAll(".recharts-legend-item").forEach((li) => {
+    const label = (li.querySelector(".recharts-legend-item-text")?.textContent || li.textContent || "").trim();
+    const icon = li.querySelector("svg path, svg line, svg rect");
+    const color =
+      icon?.getAttribute("stroke") && icon.getAttribute("stroke") !== "none"
+        ? icon.getAttribute("stroke")!
+        : icon?.getAttribute("fill") || "#64748b";
+    const dashed = !!icon?.getAttribute("stroke-dasharray");
+    if (label) items.push({ label, color, dashed });
+  });
+  return items;
+}
+
+/** Builds a standalone SVG document for every chart in `container`; null if there is none. */
+export function buildChartSVG(container: HTMLElement, caption: ChartCaption) {
+  const surfaces = Array.from(
+    container.querySelectorAll<SVGSVGElement>("svg.recharts-surface, svg[data-chart-export]")
+  ).filter(
+    // legend icons are tiny recharts-surface svgs too
+    (svg) => !svg.closest(".recharts-legend-wrapper")
+  );
+  if (!surfaces.length) return null;
+
+  const sizes = surfaces.map((svg) => {
+    const r = svg.getBoundingClientRect();
+    return {
+      w: Math.round(r.width || Number(svg.getAttribute("width")) || 0),
+      h: Math.round(r.height || Number(svg.getAttribute("height")) || 0),
+    };
+  });
+  const chartW = Math.max(...sizes.map((s) => s.w));
+  const width = chartW + 2 * PAD;
+
+  // Legend laid out in rows that fit the chart width (≈7px per character)
+  const legend = legendItems(container);
+  const legendRows: Array<Array<LegendItem & { x: number }>> = [];
+  let row: Array<LegendItem & { x: number }> = [];
+  let x = 0;
+  for (const item of legend) {
+    const w = 22 + item.label.length * 7 + 16;
+    if (x + w > chartW && row.length) {
+      legendRows.push(row);
+      row = [];
+      x = 0;
+    }
+    row.push({ ...item, x });
+    x += w;
+  }
+  if (row.length) legendRows.push(row);
+
+  const chartsH = sizes.reduce((a, s) => a + s.h, 0) + (sizes.length - 1) * 8;
+  const legendH = legendRows.length * LEGEND_ROW_H;
+  const height = PAD + TITLE_H + chartsH + (legendH ? legendH + 8 : 0) + CAPTION_H + PAD;
+
+  const parts: string[] = [];
+  parts.push(`<rect x="0" y="0" width="${width}" height="${height}" fill="#ffffff"/>`);
+  parts.push(
+    `<text x="${PAD}" y="${PAD + 18}" font-size="16" font-weight="600" fill="#0f172a">${escapeXml(caption.title)}</text>`
+  );
+
+  let y = PAD + TITLE_H;
+  surfaces.forEach((svg, i) => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute("x", String(PAD));
+    clone.setAttribute("y", String(y));
+    clone.setAttribute("width", String(sizes[i].w));
+    clone.setAttribute("height", String(sizes[i].h));
+    clone.removeAttribute("style");
+    parts.push(new XMLSerializer().serializeToString(clone));
+    y += sizes[i].h + 8;
+  });
+  y -= 8;
+
+  if (legendRows.length) {
+    y += 8;
+    for (const r of legendRows) {
+      for (const item of r) {
+        const lx = PAD + item.x;
+        parts.push(
+          `<line x1="${lx}" y1="${y + 9}" x2="${lx + 16}" y2="${y + 9}" stroke="${escapeXml(item.color)}" stroke-width="3"${
+            item.dashed ? ' stroke-dasharray="4 3"' : ""
+          }/>`
+        );
+        parts.push(`<text x="${lx + 22}" y="${y + 13}" font-size="12" fill="#334155">${escapeXml(item.label)}</text>`);
+      }
+      y += LEGEND_ROW_H;
+    }
+  }
+
+  parts.push(
+    `<text x="${PAD}" y="${y + 16}" font-size="11" fill="#64748b">${escapeXml(
+      `Source: ${caption.source} · As of ${caption.asOf}`
+    )}</text>`
+  );
+
+  const svg =
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">` +
+    parts.join("") +
+    `</svg>`;
+  return { svg, width, height };
+}
+
+export function svgToPngBlob(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+    img.onload = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) throw new Error("Canvas is not available.");
+        ctx.scale(scale, scale);
+        ctx.drawImage(img, 0, 0, width, height);
+        canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode PNG."))), "image/png");
+      } catch (e) {
+        reject(e);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render chart SVG."));
+    };
+    img.src = url;
+  });
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Copies the chart as PNG (falls back to the SVG markup as text where images can't be written). */
+export async function copyChartToClipboard(svg: string, width: number, height: number) {
+  if (typeof ClipboardItem !== "undefined" && navigator.clipboard?.write) {
+    const png = await svgToPngBlob(svg, width, height);
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+    return "png" as const;
+  }
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(svg);
+    return "svg" as const;
+  }
+  throw new Error("Clipboard is not available in this browser.");
+}
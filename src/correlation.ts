@@ -0,0 +1,148 @@
+/* -----------------------------
+   Cross-series correlation helpers
+   - Series are Map<isoDate, value> as used by every dashboard tab
+   - Lag convention: pair X on day d with Y on day d + lag
+     (positive lag => X leads Y)
+----------------------------- */
+
+import { isoMinusDays, isoPlusDays } from "./dates";
+
+export type SeriesMap = Map<string, number>;
+
+export type SeriesTransform = "level" | "dod_pct" | "yoy_pct";
+
+function sameDayPrevYear(iso: string) {
+  const y = Number(iso.slice(0, 4));
+  const m = Number(iso.slice(5, 7));
+  const d = Number(iso.slice(8, 10));
+  const dt = new Date(Date.UTC(y - 1, m - 1, d));
+  return dt.getUTCMonth() === m - 1 ? dt.toISOString().slice(0, 10) : null;
+}
+
+export function transformSeries(series: SeriesMap, mode: SeriesTransform): SeriesMap {
+  if (mode === "level") return series;
+
+  const out: SeriesMap = new Map();
+  for (const [date, value] of series) {
+    const prevIso = mode === "dod_pct" ? isoMinusDays(date, 1) : sameDayPrevYear(date);
+    const prev = prevIso ? series.get(prevIso) : undefined;
+    if (prev == null || prev === 0) continue;
+    out.set(date, ((value - prev) / prev) * 100);
+  }
+  return out;
+}
+
+export function pearson(xs: number[], ys: number[]) {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+
+  let sx = 0;
+  let sy = 0;
+  for (let i = 0; i < n; i++) {
+    sx += xs[i];
+    sy += ys[i];
+  }
+  const mx = sx / n;
+  const my = sy / n;
+
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    cov += dx * dy;
+    vx += dx * dx;
+    vy += dy * dy;
+  }
+  if (vx === 0 || vy === 0) return null;
+  return cov / Math.sqrt(vx * vy);
+}
+
+/** Pairs X(d) with Y(d + lag) for every d in [fromIso, toIso] where both exist. */
+export function pairSeries(x: SeriesMap, y: SeriesMap, lagDays: number, fromIso: string, toIso: string) {
+  const out: Array<{ date: string; x: number; y: number }> = [];
+  let cur = fromIso;
+  while (cur <= toIso) {
+    const xv = x.get(cur);
+    if (xv != null) {
+      const yv = y.get(lagDays ? isoPlusDays(cur, lagDays) : cur);
+      if (yv != null) out.push({ date: cur, x: xv, y: yv });
+    }
+    cur = isoPlusDays(cur, 1);
+  }
+  return out;
+}
+
+export function laggedCorrelation(x: SeriesMap, y: SeriesMap, lagDays: number, fromIso: string, toIso: string) {
+  const pairs = pairSeries(x, y, lagDays, fromIso, toIso);
+  const r = pearson(
+    pairs.map((p) => p.x),
+    pairs.map((p) => p.y)
+  );
+  return { r, n: pairs.length };
+}
+
+export function crossCorrelation(x: SeriesMap, y: SeriesMap, maxLag: number, fromIso: string, toIso: string) {
+  const out: Array<{ lag: number; r: number | null; n: number }> = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const { r, n } = laggedCorrelation(x, y, lag, fromIso, toIso);
+    out.push({ lag, r, n });
+  }
+  return out;
+}
+
+/**
+ * Trailing-window correlation ending on each day of [fromIso, toIso].
+ * Windows with fewer than minObs paired days are reported as null.
+ */
+export function rollingCorrelation(
+  x: SeriesMap,
+  y: SeriesMap,
+  lagDays: number,
+  fromIso: string,
+  toIso: string,
+  windowDays = 90,
+  minObs = Math.ceil(windowDays * 0.6)
+) {
+  const start = isoMinusDays(fromIso, windowDays - 1);
+  const pairs = pairSeries(x, y, lagDays, start, toIso);
+
+  const out: Array<{ date: string; r: number | null; n: number }> = [];
+  let lo = 0;
+  let hi = 0;
+  let cur = fromIso;
+  while (cur <= toIso) {
+    const winStart = isoMinusDays(cur, windowDays - 1);
+    while (hi < pairs.length && pairs[hi].date <= cur) hi++;
+    while (lo < hi && pairs[lo].date < winStart) lo++;
+
+    const win = pairs.slice(lo, hi);
+    const r =
+      win.length >= minObs
+        ? pearson(
+            win.map((p) => p.x),
+            win.map((p) => p.y)
+          )
+        : null;
+    out.push({ date: cur, r, n: win.length });
+    cur = isoPlusDays(cur, 1);
+  }
+  return out;
+}
+
+/** Common date span covered by every series (empty maps are ignored). */
+export function overlapRange(series: SeriesMap[]) {
+  let from = "";
+  let to = "";
+  for (const s of series) {
+    if (!s.size) continue;
+    const keys = Array.from(s.keys()).sort();
+    const first = keys[0];
+    const last = keys[keys.length - 1];
+    if (!from || first > from) from = first;
+    if (!to || last < to) to = last;
+  }
+  if (!from || !to || from > to) return null;
+  return { from, to };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { looksLikeHeader, parseCSV, sniffDelimiter, stripBOM, tokenizeCSV } from "./csv";
+
+describe("tokenizeCSV", () => {
+  it("keeps delimiters inside quoted fields", () => {
+    const { records, errors } = tokenizeCSV('date,value\n01/04/2024,"3,449"\n', ",");
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      ["date", "value"],
+      ["01/04/2024", "3,449"],
+    ]);
+  });
+
+  it('unescapes "" inside quoted fields', () => {
+    const { records } = tokenizeCSV('name,note\nCoal,"the ""big"" one"\n', ",");
+    expect(records[1]).toEqual(["Coal", 'the "big" one']);
+  });
+
+  it("keeps newlines inside quoted fields", () => {
+    const { records } = tokenizeCSV('a,b\r\n"line 1\nline 2",2\r\n3,4', ",");
+    expect(records).toEqual([
+      ["a", "b"],
+      ["line 1\nline 2", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("drops blank records and trims cells unless told not to", () => {
+    expect(tokenizeCSV("a , b\n\n , \n1,2\n", ",").records).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+    expect(tokenizeCSV("a , b\n", ",", false).records).toEqual([["a ", " b"]]);
+  });
+
+  it("reports a quote that is never closed instead of swallowing the file", () => {
+    const { records, errors } = tokenizeCSV('a,b\n1,2\n3,"4\n5,6\n7,8\n', ",");
+    expect(records).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Line 3: quoted field is never closed/);
+  });
+});
+
+describe("stripBOM", () => {
+  it("removes a leading byte order mark only", () => {
+    expect(stripBOM("\uFEFFdate,value")).toBe("date,value");
+    expect(stripBOM("date,value")).toBe("date,value");
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it("picks the delimiter that splits every line the same way", () => {
+    expect(sniffDelimiter("date,value\n01/01/2020,1\n02/01/2020,2\n")).toBe(",");
+    expect(sniffDelimiter("date;value\n01/01/2020;1\n02/01/2020;2\n")).toBe(";");
+    expect(sniffDelimiter("date\tvalue\n01/01/2020\t1\n02/01/2020\t2\n")).toBe("\t");
+  });
+
+  it("prefers ; over decimal commas", () => {
+    expect(sniffDelimiter("01/01/2020;1,5\n02/01/2020;2,5\n")).toBe(";");
+    expect(sniffDelimiter("date;coal;solar\n01/01/2020;1,5;2,5\n02/01/2020;3,5;4,5\n")).toBe(";");
+  });
+
+  it("ignores delimiters inside quotes", () => {
+    expect(sniffDelimiter('date;value\n01/01/2020;"1,234,567"\n02/01/2020;"2,345,678"\n')).toBe(";");
+  });
+
+  it("falls back to , for a single column", () => {
+    expect(sniffDelimiter("value\n1\n2\n")).toBe(",");
+  });
+});
+
+describe("looksLikeHeader", () => {
+  it("treats a row of labels as a header", () => {
+    expect(looksLikeHeader(["Date", "Peak Demand (MW)"])).toBe(true);
+  });
+
+  it("does not treat a data row as a header", () => {
+    expect(looksLikeHeader(["01/04/2024", "212,345"])).toBe(false);
+    expect(looksLikeHeader(["Total", "3,449"])).toBe(false);
+  });
+});
+
+describe("parseCSV", () => {
+  it("detects the header, the BOM and the delimiter", () => {
+    const out = parseCSV('\uFEFFdate;value\n01/04/2024;"3,449"\n02/04/2024;3500\n');
+    expect(out).toEqual({
+      header: ["date", "value"],
+      rows: [
+        ["01/04/2024", "3,449"],
+        ["02/04/2024", "3500"],
+      ],
+      delimiter: ";",
+      errors: [],
+    });
+  });
+
+  it("returns every row when there is no header", () => {
+    const out = parseCSV("01/04/2024,1\n02/04/2024,2\n");
+    expect(out.header).toBeNull();
+    expect(out.rows).toHaveLength(2);
+  });
+
+  it("follows an explicit header option and delimiter", () => {
+    const out = parseCSV("1\t2\n3\t4\n", { header: true, delimiter: "\t" });
+    expect(out.header).toEqual(["1", "2"]);
+    expect(out.rows).toEqual([["3", "4"]]);
+  });
+
+  it("passes on the unterminated-quote error", () => {
+    expect(parseCSV('date,value\n01/04/2024,"3,449\n').errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,185 @@
+/* -----------------------------
+   Shared CSV parsing (RFC 4180)
+   - Quoted fields, escaped quotes (""), delimiters and newlines inside quotes
+   - Strips a leading UTF-8 BOM (our public/data/*.csv files start with one)
+   - Sniffs the delimiter (",", ";" or tab) unless one is given; commas that only ever sit
+     between digits (decimal commas, 1,5) lose to a ";" or tab that splits every line
+   - Detects a header row unless told whether there is one
+   - A quote that is never closed is reported in `errors` (its record is dropped) instead of
+     swallowing the rest of the file
+----------------------------- */
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvOptions = {
+  delimiter?: CsvDelimiter;
+  /** true: first row is the header; false: no header; "auto" (default): detect. */
+  header?: boolean | "auto";
+  /** Trim whitespace around unquoted and quoted cell content (default true). */
+  trim?: boolean;
+};
+
+export type ParsedCsv = {
+  header: string[] | null;
+  rows: string[][];
+  delimiter: CsvDelimiter;
+  errors: string[];
+};
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+export function stripBOM(text: string) {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Picks the delimiter that splits the first few records into the most columns
+ * consistently. Delimiters inside quotes are ignored. Falls back to ",".
+ */
+export function sniffDelimiter(text: string): CsvDelimiter {
+  const sample = stripBOM(text).slice(0, 8192);
+
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+
+  for (const delim of DELIMITERS) {
+    const counts: number[] = [];
+    let inQuotes = false;
+    let n = 0;
+    let betweenDigits = true;
+    for (let i = 0; i < sample.length && counts.length < 10; i++) {
+      const ch = sample[i];
+      if (ch === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && ch === delim) {
+        n++;
+        if (!/\d/.test(sample[i - 1] ?? "") || !/\d/.test(sample[i + 1] ?? "")) betweenDigits = false;
+      } else if (!inQuotes && ch === "\n") {
+        counts.push(n);
+        n = 0;
+      }
+    }
+    if (n) counts.push(n);
+
+    const nonZero = counts.filter((c) => c > 0);
+    if (!nonZero.length) continue;
+
+    // Reward delimiters that appear on most lines with a stable count
+    const mode = nonZero.sort((a, b) => a - b)[Math.floor(nonZero.length / 2)];
+    const consistent = counts.filter((c) => c === mode).length;
+    // Every comma between digits looks like decimal commas: count it at half weight
+    const score = (consistent * 100 + mode) / (delim === "," && betweenDigits ? 2 : 1);
+    if (score > bestScore) {
+      best = delim;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/** Splits text into records of raw cells. Blank records are dropped. */
+export function tokenizeCSV(text: string, delimiter: CsvDelimiter, trim = true) {
+  const src = stripBOM(text);
+  const records: string[][] = [];
+  const errors: string[] = [];
+
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let i = 0;
+  let line = 1;
+  let quoteLine = 0;
+
+  const endCell = () => {
+    row.push(trim ? cell.trim() : cell);
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some((c) => c !== "")) records.push(row);
+    row = [];
+  };
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === "\n") line += 1;
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+        i += 1;
+        continue;
+      }
+      cell += ch;
+      i += 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      // Opening quote only counts at the start of a cell (ignoring leading spaces)
+      if (!cell.trim()) {
+        cell = "";
+        inQuotes = true;
+        quoteLine = line;
+      } else cell += ch;
+      i += 1;
+      continue;
+    }
+
+    if (ch === delimiter) {
+      endCell();
+      i += 1;
+      continue;
+    }
+
+    if (ch === "\r" || ch === "\n") {
+      endRow();
+      i += ch === "\r" && src[i + 1] === "\n" ? 2 : 1;
+      continue;
+    }
+
+    cell += ch;
+    i += 1;
+  }
+
+  if (inQuotes) {
+    errors.push(`Line ${quoteLine}: quoted field is never closed; the rest of the file was skipped.`);
+  } else if (cell !== "" || row.length) endRow();
+  return { records, errors };
+}
+
+function isNumericCell(s: string) {
+  const t = s.replace(/,/g, "").trim();
+  return t !== "" && Number.isFinite(Number(t));
+}
+
+function isDateLikeCell(s: string) {
+  return /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/.test(s.trim());
+}
+
+/** A header row has no numeric cells and does not start with a date. */
+export function looksLikeHeader(row: string[]) {
+  if (!row.length) return false;
+  if (isDateLikeCell(row[0] ?? "")) return false;
+  return row.every((c) => c === "" || !isNumericCell(c));
+}
+
+export function parseCSV(text: string, opts: CsvOptions = {}): ParsedCsv {
+  const delimiter = opts.delimiter ?? sniffDelimiter(text);
+  const { records: rows, errors } = tokenizeCSV(text, delimiter, opts.trim ?? true);
+
+  const headerMode = opts.header ?? "auto";
+  const hasHeader = headerMode === "auto" ? rows.length > 0 && looksLikeHeader(rows[0]) : headerMode;
+
+  if (hasHeader && rows.length) {
+    const [header, ...rest] = rows;
+    return { header, rows: rest, delimiter, errors };
+  }
+  return { header: null, rows, delimiter, errors };
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  addedOverrides,
+  effectiveSeries,
+  emptyLayers,
+  layerOf,
+  stillPinned,
+  underlyingValue,
+  withLayerRows,
+  withLegacyCopy,
+  withUserValues,
+  withoutOverrides,
+  type DataLayers,
+} from "./dataLayers";
+
+function layers(
+  base: Record<string, number>,
+  auto: Record<string, number> = {},
+  override: Record<string, number | null> = {}
+): DataLayers {
+  return {
+    base: new Map(Object.entries(base)),
+    auto: new Map(Object.entries(auto)),
+    override: new Map(Object.entries(override)),
+  };
+}
+
+describe("layer precedence", () => {
+  const l = layers(
+    { "2024-01-01": 1, "2024-01-02": 2, "2024-01-03": 3 },
+    { "2024-01-02": 20, "2024-01-03": 30, "2024-01-04": 40 },
+    { "2024-01-03": 300, "2024-01-05": 500 }
+  );
+
+  it("shows override over auto over base", () => {
+    expect([...effectiveSeries(l)]).toEqual([
+      ["2024-01-01", 1],
+      ["2024-01-02", 20],
+      ["2024-01-03", 300],
+      ["2024-01-04", 40],
+      ["2024-01-05", 500],
+    ]);
+    expect(layerOf(l, "2024-01-01")).toBe("base");
+    expect(layerOf(l, "2024-01-02")).toBe("auto");
+    expect(layerOf(l, "2024-01-03")).toBe("override");
+    expect(layerOf(l, "2024-01-09")).toBeNull();
+  });
+
+  it("gives the value below the override", () => {
+    expect(underlyingValue(l, "2024-01-03")).toBe(30);
+    expect(underlyingValue(l, "2024-01-01")).toBe(1);
+    expect(underlyingValue(l, "2024-01-05")).toBeNull();
+  });
+
+  it("hides a day whose override is a null tombstone", () => {
+    const deleted = layers({ "2024-01-01": 1, "2024-01-02": 2 }, {}, { "2024-01-02": null });
+    expect([...effectiveSeries(deleted).keys()]).toEqual(["2024-01-01"]);
+    expect(layerOf(deleted, "2024-01-02")).toBeNull();
+  });
+});
+
+describe("withUserValues", () => {
+  it("keeps only the overrides that change what the layers below give", () => {
+    const l = layers({ "2024-01-01": 1, "2024-01-02": 2 }, {}, { "2024-01-01": 10 });
+    const next = withUserValues(l, [
+      { date: "2024-01-01", value: 1 },
+      { date: "2024-01-02", value: 5 },
+      { date: "2024-01-03", value: 7 },
+    ]);
+    expect([...next.override]).toEqual([
+      ["2024-01-02", 5],
+      ["2024-01-03", 7],
+    ]);
+  });
+
+  it("records a deletion as a tombstone only where a lower layer has the day", () => {
+    const l = layers({ "2024-01-01": 1 }, {}, { "2024-01-02": 2 });
+    const next = withUserValues(l, [
+      { date: "2024-01-01", value: null },
+      { date: "2024-01-02", value: null },
+    ]);
+    expect([...next.override]).toEqual([["2024-01-01", null]]);
+    expect(effectiveSeries(next).size).toBe(0);
+  });
+});
+
+describe("withLayerRows", () => {
+  it("replaces the base layer and drops overrides the new rows now match", () => {
+    const l = layers({ "2024-01-01": 1, "2024-01-02": 2 }, {}, { "2024-01-01": 10, "2024-01-02": 20 });
+    const next = withLayerRows(l, "base", new Map([["2024-01-01", 10]]), true);
+    expect([...next.base]).toEqual([["2024-01-01", 10]]);
+    expect([...next.override]).toEqual([["2024-01-02", 20]]);
+  });
+
+  it("merges into the auto layer without replacing it", () => {
+    const l = layers({}, { "2024-01-01": 1 });
+    const next = withLayerRows(l, "auto", new Map([["2024-01-02", 2]]), false);
+    expect([...next.auto.keys()]).toEqual(["2024-01-01", "2024-01-02"]);
+  });
+});
+
+describe("withLegacyCopy", () => {
+  const csv = layers({ "2024-01-01": 1, "2024-01-02": 2, "2024-01-03": 3, "2024-01-04": 4 });
+
+  it("pins the days where the old copy differs from the CSV", () => {
+    const legacy = new Map([
+      ["2024-01-01", 1],
+      ["2024-01-02", 22],
+      ["2024-01-03", 3],
+    ]);
+    const next = withLegacyCopy(csv, legacy);
+    expect([...next.override]).toEqual([["2024-01-02", 22]]);
+    expect(effectiveSeries(next).get("2024-01-04")).toBe(4);
+  });
+
+  it("treats days missing from the copy as deleted only inside its date range", () => {
+    const legacy = new Map([
+      ["2024-01-01", 1],
+      ["2024-01-03", 3],
+    ]);
+    const next = withLegacyCopy(csv, legacy);
+    expect([...next.override]).toEqual([["2024-01-02", null]]);
+  });
+
+  it("leaves existing overrides alone and pins nothing for an empty copy", () => {
+    const edited = { ...csv, override: new Map<string, number | null>([["2024-01-02", 200]]) };
+    const next = withLegacyCopy(edited, new Map([["2024-01-02", 22]]));
+    expect([...next.override]).toEqual([["2024-01-02", 200]]);
+    expect(withLegacyCopy(csv, new Map())).toBe(csv);
+  });
+
+  it("reports the pinned days until they are edited or reset", () => {
+    const edited = { ...csv, override: new Map<string, number | null>([["2024-01-04", 40]]) };
+    const legacy = new Map([
+      ["2024-01-01", 11],
+      ["2024-01-03", 3],
+    ]);
+    const next = withLegacyCopy(edited, legacy);
+    const pins = addedOverrides(edited, next);
+    expect([...pins]).toEqual([
+      ["2024-01-01", 11],
+      ["2024-01-02", null],
+    ]);
+    expect(stillPinned(next, pins)).toEqual(["2024-01-01", "2024-01-02"]);
+
+    const changed = withUserValues(next, [{ date: "2024-01-01", value: 12 }]);
+    expect(stillPinned(changed, pins)).toEqual(["2024-01-02"]);
+    const reset = withoutOverrides(changed, stillPinned(changed, pins));
+    expect(stillPinned(reset, pins)).toEqual([]);
+    expect(Object.fromEntries(reset.override)).toEqual({ "2024-01-01": 12, "2024-01-04": 40 });
+  });
+});
+
+describe("emptyLayers", () => {
+  it("has no days", () => {
+    expect(effectiveSeries(emptyLayers()).size).toBe(0);
+  });
+});
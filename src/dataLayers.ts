@@ -0,0 +1,128 @@
+/* -----------------------------
+   Layered daily series: what a day shows is the first layer with a value for it in
+   DATA_LAYER_PRECEDENCE (override → auto → base)
+   - base: the tab's default CSV, replaced wholesale on every load
+   - auto: rows from the tab's auto-fetcher
+   - override: the user's edits (form, grid, paste, imports, sample data); null = day deleted
+   Overrides are only kept where they change what the layers below give, so setting a day
+   back to its base value, or "reset to base", removes the override.
+   Older builds stored the whole edited series as one copy; withLegacyCopy turns it into
+   overrides once, against the first default CSV loaded after the upgrade. Those "pins" are
+   remembered (legacyPins) so they can be told apart from edits and reset to base together.
+----------------------------- */
+
+export type DataLayer = "override" | "auto" | "base";
+
+export const DATA_LAYER_PRECEDENCE: DataLayer[] = ["override", "auto", "base"];
+
+export const DATA_LAYER_LABELS: Record<DataLayer, string> = {
+  override: "Edited",
+  auto: "Auto-fetched",
+  base: "Default CSV",
+};
+
+export type DataLayers = {
+  override: Map<string, number | null>;
+  auto: Map<string, number>;
+  base: Map<string, number>;
+};
+
+export function emptyLayers(): DataLayers {
+  return { override: new Map(), auto: new Map(), base: new Map() };
+}
+
+/** The value a day would show without its override. */
+export function underlyingValue(layers: DataLayers, iso: string) {
+  return layers.auto.get(iso) ?? layers.base.get(iso) ?? null;
+}
+
+/** Which layer the shown value of a day comes from; null when the day has no value. */
+export function layerOf(layers: DataLayers, iso: string): DataLayer | null {
+  for (const layer of DATA_LAYER_PRECEDENCE) {
+    if (!layers[layer].has(iso)) continue;
+    return layers[layer].get(iso) == null ? null : layer;
+  }
+  return null;
+}
+
+export function effectiveSeries(layers: DataLayers) {
+  const out = new Map<string, number>();
+  const dates = new Set([...layers.base.keys(), ...layers.auto.keys(), ...layers.override.keys()]);
+  for (const iso of [...dates].sort()) {
+    const v = layers.override.has(iso) ? layers.override.get(iso) : underlyingValue(layers, iso);
+    if (v != null) out.set(iso, v);
+  }
+  return out;
+}
+
+/** Record what the user wants a day to show (null = no value) as the smallest override. */
+export function withUserValues(layers: DataLayers, changes: Array<{ date: string; value: number | null }>): DataLayers {
+  const override = new Map(layers.override);
+  for (const c of changes) {
+    if (c.value === underlyingValue(layers, c.date)) override.delete(c.date);
+    else override.set(c.date, c.value);
+  }
+  return { ...layers, override };
+}
+
+/** New rows for the base or auto layer; `replace` drops the layer's other days (default CSV reload). */
+export function withLayerRows(layers: DataLayers, layer: "auto" | "base", rows: Map<string, number>, replace: boolean): DataLayers {
+  const next = replace ? new Map(rows) : new Map([...layers[layer], ...rows]);
+  const updated = { ...layers, [layer]: next };
+  // An override that now matches the layers below it is no longer needed
+  const override = new Map(layers.override);
+  for (const [iso, v] of layers.override) {
+    if (v === underlyingValue(updated, iso)) override.delete(iso);
+  }
+  return { ...updated, override };
+}
+
+/**
+ * The days where an old whole-series copy differs from the layers become overrides. Layer days
+ * missing from the copy count as deleted only inside its date range (later ones are new rows);
+ * days that already have an override keep it.
+ */
+export function withLegacyCopy(layers: DataLayers, legacy: Map<string, number>): DataLayers {
+  if (!legacy.size) return layers;
+  const dates = [...legacy.keys()].sort();
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+
+  const changes: Array<{ date: string; value: number | null }> = [];
+  for (const [date, value] of legacy) {
+    if (!layers.override.has(date)) changes.push({ date, value });
+  }
+  for (const date of new Set([...layers.base.keys(), ...layers.auto.keys()])) {
+    if (date >= first && date <= last && !legacy.has(date) && !layers.override.has(date)) {
+      changes.push({ date, value: null });
+    }
+  }
+  return withUserValues(layers, changes);
+}
+
+/** The overrides `after` adds or changes over `before`: the days a withLegacyCopy call pinned. */
+export function addedOverrides(before: DataLayers, after: DataLayers) {
+  const out = new Map<string, number | null>();
+  for (const [iso, v] of after.override) {
+    if (!before.override.has(iso) || before.override.get(iso) !== v) out.set(iso, v);
+  }
+  return out;
+}
+
+/** The pinned days that still hold the pinned value (not edited or reset since), sorted. */
+export function stillPinned(layers: DataLayers, pins: Map<string, number | null>) {
+  return [...pins]
+    .filter(([iso, v]) => layers.override.has(iso) && layers.override.get(iso) === v)
+    .map(([iso]) => iso)
+    .sort();
+}
+
+export function legacyPinsDocName(type: string) {
+  return `legacy_pins:${type}`;
+}
+
+export function withoutOverrides(layers: DataLayers, isos: string[]): DataLayers {
+  const override = new Map(layers.override);
+  for (const iso of isos) override.delete(iso);
+  return { ...layers, override };
+}
@@ -0,0 +1,145 @@
+/* -----------------------------
+   Data health checks for a daily series
+   - gap: dates missing between the first and last record (reported as ranges)
+   - duplicate: a date repeated in an imported file, or overwriting a different stored value
+   - outlier: value beyond N σ of the trailing rolling window (current day excluded)
+   - jump: day-over-day change above a % threshold
+   - parse: rows csvParse skipped
+----------------------------- */
+
+import { daysBetween, isoPlusDays } from "./dates";
+
+export type DataIssueKind = "gap" | "duplicate" | "outlier" | "jump" | "parse";
+
+export type DataIssue = {
+  kind: DataIssueKind;
+  /** ISO date the finding points at (start of range for gaps); absent for parse errors. */
+  date?: string;
+  endDate?: string;
+  message: string;
+};
+
+export type DataHealthOptions = {
+  /** Trailing window, in calendar days, for the outlier check. */
+  window?: number;
+  sigma?: number;
+  /** Day-over-day change, in %, that counts as a jump. */
+  jumpPct?: number;
+};
+
+type Point = { date: string; value: number };
+
+export function findGaps(sorted: Point[]): DataIssue[] {
+  const out: DataIssue[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const missing = daysBetween(sorted[i - 1].date, sorted[i].date) - 1;
+    if (missing <= 0) continue;
+    const start = isoPlusDays(sorted[i - 1].date, 1);
+    const end = isoPlusDays(sorted[i].date, -1);
+    out.push({
+      kind: "gap",
+      date: start,
+      endDate: end,
+      message: missing === 1 ? "1 missing day" : `${missing} missing days`,
+    });
+  }
+  return out;
+}
+
+/**
+ * Duplicates within `incoming` (the file keeps its last value) and dates where `incoming`
+ * replaces a different value already in `existing`.
+ */
+export function findDuplicates(
+  incoming: Point[],
+  existing: Map<string, number> = new Map(),
+  fmt: (n: number) => string = String
+): DataIssue[] {
+  const seen = new Map<string, number[]>();
+  for (const r of incoming) {
+    if (!seen.has(r.date)) seen.set(r.date, []);
+    seen.get(r.date)!.push(r.value);
+  }
+
+  const out: DataIssue[] = [];
+  for (const [date, values] of seen) {
+    const kept = values[values.length - 1];
+    if (values.length > 1) {
+      out.push({
+        kind: "duplicate",
+        date,
+        message: `${values.length} rows in file (${values.map(fmt).join(", ")}); kept ${fmt(kept)}`,
+      });
+    }
+    const prev = existing.get(date);
+    if (prev != null && prev !== kept) {
+      out.push({ kind: "duplicate", date, message: `Replaced stored ${fmt(prev)} with ${fmt(kept)}` });
+    }
+  }
+  return out.sort((a, b) => (a.date! < b.date! ? -1 : a.date! > b.date! ? 1 : 0));
+}
+
+export function findRollingOutliers(
+  sorted: Point[],
+  window = 30,
+  sigma = 3,
+  fmt: (n: number) => string = String
+): DataIssue[] {
+  const out: DataIssue[] = [];
+  const minObs = Math.max(7, Math.floor(window / 2));
+  for (let i = minObs; i < sorted.length; i++) {
+    const from = isoPlusDays(sorted[i].date, -window);
+    const prior: number[] = [];
+    for (let j = i - 1; j >= 0 && sorted[j].date >= from; j--) prior.push(sorted[j].value);
+    if (prior.length < minObs) continue;
+
+    const mean = prior.reduce((a, b) => a + b, 0) / prior.length;
+    const sd = Math.sqrt(prior.reduce((a, b) => a + (b - mean) * (b - mean), 0) / prior.length);
+    if (!sd) continue;
+
+    const z = (sorted[i].value - mean) / sd;
+    if (Math.abs(z) > sigma) {
+      out.push({
+        kind: "outlier",
+        date: sorted[i].date,
+        message: `${fmt(sorted[i].value)} is ${z > 0 ? "+" : ""}${z.toFixed(1)}σ from the ${window}-day mean ${fmt(mean)}`,
+      });
+    }
+  }
+  return out;
+}
+
+export function findJumps(sorted: Point[], thresholdPct = 25, fmt: (n: number) => string = String): DataIssue[] {
+  const out: DataIssue[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const cur = sorted[i];
+    if (daysBetween(prev.date, cur.date) !== 1 || prev.value === 0) continue;
+    const pct = ((cur.value - prev.value) / Math.abs(prev.value)) * 100;
+    if (Math.abs(pct) > thresholdPct) {
+      out.push({
+        kind: "jump",
+        date: cur.date,
+        message: `${fmt(prev.value)} → ${fmt(cur.value)} (${pct > 0 ? "+" : ""}${pct.toFixed(1)}% DoD)`,
+      });
+    }
+  }
+  return out;
+}
+
+/** Series checks plus any import findings, newest first (parse errors last). */
+export function dataHealthReport(
+  sorted: Point[],
+  importIssues: DataIssue[],
+  opts: DataHealthOptions = {},
+  fmt: (n: number) => string = String
+): DataIssue[] {
+  const { window = 30, sigma = 3, jumpPct = 25 } = opts;
+  const dated = [
+    ...findGaps(sorted),
+    ...importIssues.filter((i) => i.date),
+    ...findRollingOutliers(sorted, window, sigma, fmt),
+    ...findJumps(sorted, jumpPct, fmt),
+  ].sort((a, b) => (a.date! < b.date! ? 1 : a.date! > b.date! ? -1 : 0));
+  return [...dated, ...importIssues.filter((i) => !i.date)];
+}
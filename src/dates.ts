@@ -0,0 +1,69 @@
+/* -----------------------------
+   Date input parsing shared by CSV loaders and the entry forms, plus ISO date arithmetic
+----------------------------- */
+
+/** ISO date `days` calendar days later (negative for earlier). */
+export function isoPlusDays(iso: string, days: number) {
+  const d = new Date(iso + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function isoMinusDays(iso: string, days: number) {
+  return isoPlusDays(iso, -days);
+}
+
+/** Today's date in the browser's time zone, as ISO. */
+export function localTodayIso() {
+  const t = new Date();
+  return `${t.getFullYear()}-${String(t.getMonth() + 1).padStart(2, "0")}-${String(t.getDate()).padStart(2, "0")}`;
+}
+
+/** Calendar days from `fromIso` to `toIso` (negative when `toIso` is earlier). */
+export function daysBetween(fromIso: string, toIso: string) {
+  return Math.round((Date.parse(toIso + "T00:00:00Z") - Date.parse(fromIso + "T00:00:00Z")) / 86400000);
+}
+
+export function parseISOKey(s: string) {
+  const ok = /^\d{4}-\d{2}-\d{2}$/.test(s);
+  if (!ok) return null;
+  const d = new Date(s + "T00:00:00Z");
+  return Number.isNaN(d.getTime()) ? null : s;
+}
+
+// Parse DD/MM/YYYY -> ISO; also accept DD-MM-YYYY and ISO.
+export function parseInputDate(s: unknown) {
+  if (typeof s !== "string") return null;
+  const t = s.trim();
+
+  // ✅ preferred: dd/mm/yyyy
+  if (/^\d{2}\/\d{2}\/\d{4}$/.test(t)) {
+    const [dd, mm, yyyy] = t.split("/").map(Number);
+    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+    if (Number.isNaN(d.getTime())) return null;
+    if (
+      d.getUTCFullYear() !== yyyy ||
+      d.getUTCMonth() !== mm - 1 ||
+      d.getUTCDate() !== dd
+    )
+      return null;
+    return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+  }
+
+  // Back-compat: dd-mm-yyyy
+  if (/^\d{2}-\d{2}-\d{4}$/.test(t)) {
+    const [dd, mm, yyyy] = t.split("-").map(Number);
+    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+    if (Number.isNaN(d.getTime())) return null;
+    if (
+      d.getUTCFullYear() !== yyyy ||
+      d.getUTCMonth() !== mm - 1 ||
+      d.getUTCDate() !== dd
+    )
+      return null;
+    return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(t)) return parseISOKey(t);
+  return null;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { isoPlusDays } from "./dates";
+import { decomposeDaily } from "./decomposition";
+
+const START = "2023-01-02";
+
+/** Daily series from START: f(i) for day i, skipping the days in `gaps`. */
+function series(days: number, f: (i: number) => number, gaps: number[] = []) {
+  return Array.from({ length: days }, (_, i) => i)
+    .filter((i) => !gaps.includes(i))
+    .map((i) => ({ date: isoPlusDays(START, i), value: f(i) }));
+}
+
+const weeklySine = (i: number) => 10 * Math.sin((2 * Math.PI * i) / 7);
+
+describe("decomposeDaily", () => {
+  it("splits every observed day into trend + seasonal + residual", () => {
+    const f = (i: number) => 500 + 3 * i + weeklySine(i) + ((i * 37) % 11) - 5;
+    const out = decomposeDaily(series(120, f, [30, 31, 32, 77]));
+    expect(out.points).toHaveLength(120);
+    expect(out.periods).toEqual([7]);
+    for (const [i, p] of out.points.entries()) {
+      if ([30, 31, 32, 77].includes(i)) {
+        expect(p.interpolated).toBe(true);
+        expect(p.observed).toBeNull();
+        expect(p.residual).toBeNull();
+      } else {
+        expect(p.trend + p.seasonal + p.residual!).toBeCloseTo(f(i), 9);
+      }
+    }
+  });
+
+  it("recovers a weekly sine on a linear trend", () => {
+    const out = decomposeDaily(series(140, (i) => 200 + 0.5 * i + weeklySine(i)));
+    // The trend window shrinks at the edges, so only the middle is exact
+    for (const [i, p] of out.points.entries()) {
+      if (i < 14 || i >= 126) continue;
+      expect(p.trend).toBeCloseTo(200 + 0.5 * i, 0);
+      expect(p.seasonal).toBeCloseTo(weeklySine(i), 0);
+      expect(Math.abs(p.residual!)).toBeLessThan(0.5);
+    }
+  });
+
+  it("fits the annual cycle from two years of data", () => {
+    const annual = (i: number) => 50 * Math.sin((2 * Math.PI * i) / 365);
+    const out = decomposeDaily(series(800, (i) => 1000 + annual(i) + weeklySine(i)));
+    expect(out.periods).toEqual([7, 365]);
+    // Day-of-year phases drift by a day over the leap year, and the annual curve is smoothed
+    for (const [i, p] of out.points.entries()) {
+      if (i < 200 || i >= 600) continue;
+      expect(Math.abs(p.seasonal - annual(i) - weeklySine(i))).toBeLessThan(3);
+      expect(Math.abs(p.trend - 1000)).toBeLessThan(3);
+    }
+  });
+
+  it("flags a one-off spike as an outlier", () => {
+    const out = decomposeDaily(series(140, (i) => 200 + 0.5 * i + weeklySine(i) + (i === 70 ? 80 : 0)));
+    expect(out.outliers.map((p) => p.date)).toEqual([isoPlusDays(START, 70)]);
+  });
+
+  it("needs two weeks of data", () => {
+    expect(decomposeDaily(series(13, weeklySine)).points).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+/* -----------------------------
+   STL-style seasonal decomposition of a daily series
+   y = trend + seasonal + residual
+   - Seasonal is the sum of a weekly (7d) and an annual (365d) cycle; the annual cycle
+     is only fitted when the series covers at least two years
+   - Missing days are linearly interpolated for fitting; they get no observed/residual value
+   - Like STL, trend and seasonal are refined over a few passes, with robustness weights
+     (bisquare on residuals) so one-off spikes do not bend the seasonal curve
+----------------------------- */
+
+export type DecompositionPoint = {
+  date: string;
+  observed: number | null;
+  trend: number;
+  seasonal: number;
+  residual: number | null;
+  interpolated: boolean;
+};
+
+export type ResidualStats = { mean: number; sd: number; p1: number; p2: number; m1: number; m2: number };
+
+export type Decomposition = {
+  points: DecompositionPoint[];
+  /** Seasonal periods fitted, in days. */
+  periods: number[];
+  residualStats: ResidualStats | null;
+  /** Days whose residual lies outside mean ± 2σ. */
+  outliers: DecompositionPoint[];
+};
+
+export type DecompositionOptions = {
+  /** Centered trend window in days (odd); default 365 with an annual cycle, else 15. */
+  trendWindow?: number;
+  passes?: number;
+};
+
+const DAY_MS = 86400000;
+
+function isoToUtc(iso: string) {
+  return Date.UTC(Number(iso.slice(0, 4)), Number(iso.slice(5, 7)) - 1, Number(iso.slice(8, 10)));
+}
+
+function utcToIso(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+// Cycle position: weekday for the weekly cycle, day-of-year for the annual one (leap-year Dec 31 shares slot 364)
+function phaseOf(ms: number, period: number) {
+  const d = new Date(ms);
+  if (period === 7) return d.getUTCDay();
+  const doy = Math.floor((ms - Date.UTC(d.getUTCFullYear(), 0, 1)) / DAY_MS);
+  return Math.min(doy, 364);
+}
+
+/** Weighted centered moving average; the window shrinks at the edges. */
+function weightedMovingAverage(values: number[], weights: number[], window: number) {
+  const half = Math.floor(window / 2);
+  const out = new Array<number>(values.length);
+  let sw = 0;
+  let swx = 0;
+  let lo = 0;
+  let hi = -1;
+  for (let i = 0; i < values.length; i++) {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    while (hi < to) {
+      hi++;
+      sw += weights[hi];
+      swx += weights[hi] * values[hi];
+    }
+    while (lo < from) {
+      sw -= weights[lo];
+      swx -= weights[lo] * values[lo];
+      lo++;
+    }
+    out[i] = sw > 0 ? swx / sw : values[i];
+  }
+  return out;
+}
+
+/** Weighted mean per cycle position, smoothed around the cycle and centred on zero. */
+function seasonalCycle(values: number[], weights: number[], phases: number[], period: number) {
+  const sum = new Array<number>(period).fill(0);
+  const wsum = new Array<number>(period).fill(0);
+  for (let i = 0; i < values.length; i++) {
+    sum[phases[i]] += weights[i] * values[i];
+    wsum[phases[i]] += weights[i];
+  }
+  const raw = sum.map((s, p) => (wsum[p] > 0 ? s / wsum[p] : 0));
+
+  // Annual cycle: ±7 day circular smoothing so the curve is not just day-to-day noise
+  const half = period === 7 ? 0 : 7;
+  const cycle = raw.map((_, p) => {
+    let acc = 0;
+    for (let k = -half; k <= half; k++) acc += raw[(p + k + period) % period];
+    return acc / (2 * half + 1);
+  });
+
+  const mean = cycle.reduce((a, b) => a + b, 0) / period;
+  return cycle.map((c) => c - mean);
+}
+
+function bisquareWeights(residuals: number[]) {
+  const abs = residuals.map(Math.abs).sort((a, b) => a - b);
+  const median = abs.length ? abs[Math.floor(abs.length / 2)] : 0;
+  const h = 6 * median;
+  if (!h) return residuals.map(() => 1);
+  return residuals.map((r) => {
+    const u = Math.abs(r) / h;
+    return u < 1 ? (1 - u * u) ** 2 : 0;
+  });
+}
+
+export function decomposeDaily(
+  series: Array<{ date: string; value: number }>,
+  opts: DecompositionOptions = {}
+): Decomposition {
+  const empty: Decomposition = { points: [], periods: [], residualStats: null, outliers: [] };
+  if (series.length < 14) return empty;
+
+  const sorted = [...series].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  const start = isoToUtc(sorted[0].date);
+  const n = Math.round((isoToUtc(sorted[sorted.length - 1].date) - start) / DAY_MS) + 1;
+
+  // Contiguous daily grid, gaps interpolated
+  const observed = new Array<number | null>(n).fill(null);
+  for (const p of sorted) observed[Math.round((isoToUtc(p.date) - start) / DAY_MS)] = p.value;
+
+  const y = new Array<number>(n);
+  let prevIdx = -1;
+  for (let i = 0; i < n; i++) {
+    if (observed[i] == null) continue;
+    y[i] = observed[i]!;
+    if (prevIdx >= 0 && i - prevIdx > 1) {
+      const a = observed[prevIdx]!;
+      const b = observed[i]!;
+      for (let j = prevIdx + 1; j < i; j++) y[j] = a + ((b - a) * (j - prevIdx)) / (i - prevIdx);
+    }
+    prevIdx = i;
+  }
+
+  const periods = n >= 2 * 365 ? [7, 365] : [7];
+  const phases = periods.map((p) => Array.from({ length: n }, (_, i) => phaseOf(start + i * DAY_MS, p)));
+
+  let trendWindow = opts.trendWindow ?? (periods.includes(365) ? 365 : 15);
+  if (trendWindow % 2 === 0) trendWindow += 1;
+  const passes = opts.passes ?? 3;
+
+  // Interpolated days carry no information of their own
+  const baseWeights = observed.map((v): number => (v == null ? 0 : 1));
+  let weights = baseWeights.slice();
+
+  let trend = weightedMovingAverage(y, weights, trendWindow);
+  const seasonals = periods.map(() => new Array<number>(n).fill(0));
+
+  for (let pass = 0; pass < passes; pass++) {
+    for (let k = 0; k < periods.length; k++) {
+      const others = (i: number) => seasonals.reduce((acc, s, j) => (j === k ? acc : acc + s[i]), 0);
+      const detrended = y.map((v, i) => v - trend[i] - others(i));
+      const cycle = seasonalCycle(detrended, weights, phases[k], periods[k]);
+      seasonals[k] = phases[k].map((p) => cycle[p]);
+    }
+
+    const seasonal = y.map((_, i) => seasonals.reduce((acc, s) => acc + s[i], 0));
+    trend = weightedMovingAverage(y.map((v, i) => v - seasonal[i]), weights, trendWindow);
+
+    const residual = y.map((v, i) => v - trend[i] - seasonal[i]);
+    const robust = bisquareWeights(residual.filter((_, i) => baseWeights[i] > 0));
+    let r = 0;
+    weights = baseWeights.map((w) => (w > 0 ? robust[r++] : 0));
+  }
+
+  const points: DecompositionPoint[] = [];
+  for (let i = 0; i < n; i++) {
+    const seasonal = seasonals.reduce((acc, s) => acc + s[i], 0);
+    const obs = observed[i];
+    points.push({
+      date: utcToIso(start + i * DAY_MS),
+      observed: obs,
+      trend: trend[i],
+      seasonal,
+      residual: obs != null ? obs - trend[i] - seasonal : null,
+      interpolated: obs == null,
+    });
+  }
+
+  const res = points.filter((p) => p.residual != null).map((p) => p.residual!);
+  if (res.length < 2) return { points, periods, residualStats: null, outliers: [] };
+
+  const mean = res.reduce((a, b) => a + b, 0) / res.length;
+  const sd = Math.sqrt(res.reduce((a, b) => a + (b - mean) * (b - mean), 0) / res.length);
+  const residualStats = { mean, sd, p1: mean + sd, p2: mean + 2 * sd, m1: mean - sd, m2: mean - 2 * sd };
+  const outliers = points.filter(
+    (p) => p.residual != null && (p.residual > residualStats.p2 || p.residual < residualStats.m2)
+  );
+
+  return { points, periods, residualStats, outliers };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyChanges,
+  describeJournalEntry,
+  diffSeries,
+  stateAfterEntry,
+  type JournalAction,
+  type JournalChange,
+  type JournalEntry,
+} from "./editJournal";
+
+function series(obj: Record<string, number>) {
+  return new Map(Object.entries(obj));
+}
+
+function entry(id: string, action: JournalAction, changes: JournalChange[]): JournalEntry {
+  return { id, at: "2024-04-01T10:00:00.000Z", user: "tester", action, source: "manual", changes };
+}
+
+describe("diffSeries", () => {
+  it("lists changed, added and deleted days by date", () => {
+    const prev = series({ "2024-01-03": 3, "2024-01-01": 1, "2024-01-02": 2 });
+    const next = series({ "2024-01-04": 4, "2024-01-01": 1, "2024-01-02": 20 });
+    expect(diffSeries(prev, next)).toEqual([
+      { date: "2024-01-02", before: 2, after: 20 },
+      { date: "2024-01-03", before: 3, after: null },
+      { date: "2024-01-04", before: null, after: 4 },
+    ]);
+  });
+
+  it("is empty for equal series", () => {
+    expect(diffSeries(series({ "2024-01-01": 1 }), series({ "2024-01-01": 1 }))).toEqual([]);
+  });
+});
+
+describe("applyChanges", () => {
+  const prev = series({ "2024-01-01": 1, "2024-01-02": 2, "2024-01-03": 3 });
+  const next = series({ "2024-01-01": 1, "2024-01-02": 20, "2024-01-04": 4 });
+  const changes = diffSeries(prev, next);
+
+  it("replays a diff forward", () => {
+    expect(applyChanges(prev, changes, "forward")).toEqual(next);
+  });
+
+  it("undoes it going back, so undo then redo is the identity", () => {
+    const undone = applyChanges(next, changes, "back");
+    expect(undone).toEqual(prev);
+    expect(applyChanges(undone, changes, "forward")).toEqual(next);
+  });
+
+  it("does not modify the map it is given", () => {
+    applyChanges(prev, changes, "forward");
+    expect(prev.get("2024-01-03")).toBe(3);
+  });
+});
+
+describe("stateAfterEntry", () => {
+  const s0 = series({ "2024-01-01": 1 });
+  const s1 = series({ "2024-01-01": 1, "2024-01-02": 2 });
+  const s2 = series({ "2024-01-01": 10, "2024-01-02": 2 });
+  const s3 = series({ "2024-01-01": 10 });
+  const journal = [
+    entry("a", "import", diffSeries(s0, s1)),
+    entry("b", "edit", diffSeries(s1, s2)),
+    entry("c", "delete", diffSeries(s2, s3)),
+  ];
+
+  it("rolls later entries back to the data right after an entry", () => {
+    expect(stateAfterEntry(s3, journal, "a")).toEqual(s1);
+    expect(stateAfterEntry(s3, journal, "b")).toEqual(s2);
+    expect(stateAfterEntry(s3, journal, "c")).toEqual(s3);
+  });
+
+  it("is null for an entry that is not in the journal", () => {
+    expect(stateAfterEntry(s3, journal, "zz")).toBeNull();
+  });
+});
+
+describe("describeJournalEntry", () => {
+  it("names the action and the source", () => {
+    expect(describeJournalEntry({ ...entry("a", "import", []), source: "march.csv" })).toBe("Imported · march.csv");
+  });
+});
@@ -0,0 +1,139 @@
+/* -----------------------------
+   Edit journal for a dashboard series (audit log + undo / redo)
+   - Every change to the data is one entry: who, when, what kind of edit, its source
+     (manual, import file name, default CSV, pre-upgrade copy, auto-fetch) and the per-day before → after values
+   - Append-only: undo, redo and "revert to here" are entries too, so the log always
+     replays to the current data
+   - Stored next to the series in browser storage (./seriesStore docs), last MAX_JOURNAL_ENTRIES
+     kept; without IndexedDB it lasts for the session only (it would eat the localStorage quota)
+----------------------------- */
+
+import { loadDoc, saveDoc } from "./seriesStore";
+
+export type JournalAction =
+  | "edit"
+  | "delete"
+  | "clear"
+  | "import"
+  | "default_csv"
+  | "legacy_copy"
+  | "auto_fetch"
+  | "sample"
+  | "reset"
+  | "undo"
+  | "redo"
+  | "revert";
+
+/** null = no value for the day (added / deleted). */
+export type JournalChange = { date: string; before: number | null; after: number | null };
+
+export type JournalEntry = {
+  id: string;
+  /** ISO timestamp. */
+  at: string;
+  user: string;
+  action: JournalAction;
+  /** "manual", a file name, a CSV path, a fetcher label, or the entry undone / reverted to. */
+  source: string;
+  changes: JournalChange[];
+  /** undo / redo / revert: the entry acted on. */
+  ref?: string;
+};
+
+export const JOURNAL_ACTION_LABELS: Record<JournalAction, string> = {
+  edit: "Edited",
+  delete: "Deleted",
+  clear: "Cleared all",
+  import: "Imported",
+  default_csv: "Loaded default CSV",
+  legacy_copy: "Kept pre-upgrade edits",
+  auto_fetch: "Auto-fetched",
+  sample: "Loaded sample",
+  reset: "Reset to base",
+  undo: "Undo",
+  redo: "Redo",
+  revert: "Reverted",
+};
+
+export const MAX_JOURNAL_ENTRIES = 200;
+
+export const DEFAULT_EDITOR = "this browser";
+
+const EDITOR_KEY = "tusk_india_editor_v1";
+
+export function newJournalId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Per-day differences from `prev` to `next`, by date. */
+export function diffSeries(prev: Map<string, number>, next: Map<string, number>): JournalChange[] {
+  const out: JournalChange[] = [];
+  for (const [date, after] of next) {
+    const before = prev.get(date);
+    if (before !== after) out.push({ date, before: before ?? null, after });
+  }
+  for (const [date, before] of prev) {
+    if (!next.has(date)) out.push({ date, before, after: null });
+  }
+  return out.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/** Apply changes forward (before → after) or back (after → before). */
+export function applyChanges(map: Map<string, number>, changes: JournalChange[], direction: "forward" | "back") {
+  const next = new Map(map);
+  for (const c of changes) {
+    const v = direction === "forward" ? c.after : c.before;
+    if (v == null) next.delete(c.date);
+    else next.set(c.date, v);
+  }
+  return next;
+}
+
+/** The data as it was right after `entryId`: later entries rolled back, newest first. */
+export function stateAfterEntry(current: Map<string, number>, journal: JournalEntry[], entryId: string) {
+  const idx = journal.findIndex((e) => e.id === entryId);
+  if (idx < 0) return null;
+  let map = current;
+  for (let i = journal.length - 1; i > idx; i--) map = applyChanges(map, journal[i].changes, "back");
+  return map;
+}
+
+export function journalDocName(type: string) {
+  return `journal:${type}`;
+}
+
+export async function loadJournal(type: string): Promise<JournalEntry[]> {
+  const doc = await loadDoc<JournalEntry[]>(journalDocName(type));
+  return Array.isArray(doc) ? doc : [];
+}
+
+export function saveJournal(type: string, journal: JournalEntry[]) {
+  return saveDoc(journalDocName(type), journal.slice(-MAX_JOURNAL_ENTRIES));
+}
+
+export function loadEditorName() {
+  try {
+    return localStorage.getItem(EDITOR_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveEditorName(name: string) {
+  try {
+    localStorage.setItem(EDITOR_KEY, name);
+  } catch {}
+}
+
+/** Local date and time, dd-mm-yyyy hh:mm. */
+export function formatJournalTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "—";
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${p(d.getDate())}-${p(d.getMonth() + 1)}-${d.getFullYear()} ${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+/** One-line description of an entry, e.g. "Imported · march.csv". */
+export function describeJournalEntry(e: JournalEntry) {
+  return `${JOURNAL_ACTION_LABELS[e.action]} · ${e.source}`;
+}
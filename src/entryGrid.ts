@@ -0,0 +1,91 @@
+/* -----------------------------
+   Input rules for the entries grid (the "Recent entries" card)
+   - Values: as in the Add / Update form, thousands separators allowed; blank is not a value
+   - Pasted blocks (Excel / Google Sheets copy cells as tab-separated rows):
+     - date + value columns: one entry per row, dates in any form parseInputDate accepts
+     - a single column of values: the grid lists newest first, so the cells fill the selected
+       date and then successively older days, as they would on screen; blank cells skipped
+     - a first row that is neither a date nor a value is taken as a header and skipped
+     - dates after today are rejected
+----------------------------- */
+
+import { isoMinusDays, localTodayIso, parseInputDate } from "./dates";
+
+export type PastedEntries = {
+  entries: Array<{ date: string; value: number }>;
+  errors: string[];
+};
+
+export function parseInputValue(text: string) {
+  const t = String(text).trim().replace(/,/g, "");
+  if (!t) return null;
+  const v = Number(t);
+  return Number.isFinite(v) ? v : null;
+}
+
+/** Rows of cells; quotes Excel adds around multi-line cells are dropped. */
+export function splitPastedBlock(text: string) {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+  return lines.map((line) => line.split("\t").map((c) => c.trim().replace(/^"([\s\S]*)"$/, "$1").trim()));
+}
+
+function displayDate(iso: string) {
+  return iso.split("-").reverse().join("/");
+}
+
+export function pastedEntries(text: string, anchorIso: string | null, todayIso = localTodayIso()): PastedEntries {
+  const rows = splitPastedBlock(text);
+  const entries: PastedEntries["entries"] = [];
+  const errors: string[] = [];
+  if (!rows.length) return { entries, errors };
+
+  const isHeader = (cells: string[]) =>
+    cells.every((c) => !c || (!parseInputDate(c) && parseInputValue(c) == null));
+  const start = rows.length > 1 && isHeader(rows[0]) ? 1 : 0;
+
+  const twoColumns = rows.slice(start).some((cells) => cells.filter(Boolean).length >= 2);
+
+  if (!twoColumns) {
+    if (!anchorIso) {
+      return { entries, errors: ["Select a row first: a single column of values is pasted from that date back."] };
+    }
+    for (let i = start; i < rows.length; i++) {
+      const raw = rows[i][0] ?? "";
+      if (!raw) continue;
+      const v = parseInputValue(raw);
+      if (v == null) {
+        errors.push(`Row ${i + 1}: invalid value '${raw}'`);
+        continue;
+      }
+      const date = isoMinusDays(anchorIso, i - start);
+      if (date > todayIso) {
+        errors.push(`Row ${i + 1}: ${displayDate(date)} is after today`);
+        continue;
+      }
+      entries.push({ date, value: v });
+    }
+    return { entries, errors };
+  }
+
+  for (let i = start; i < rows.length; i++) {
+    const [dRaw = "", vRaw = ""] = rows[i];
+    if (!dRaw && !vRaw) continue;
+    const date = parseInputDate(dRaw);
+    if (!date) {
+      errors.push(`Row ${i + 1}: invalid date '${dRaw}' (expected DD/MM/YYYY)`);
+      continue;
+    }
+    if (date > todayIso) {
+      errors.push(`Row ${i + 1}: ${displayDate(date)} is after today`);
+      continue;
+    }
+    const v = parseInputValue(vRaw);
+    if (v == null) {
+      errors.push(`Row ${i + 1}: invalid value '${vRaw}'`);
+      continue;
+    }
+    entries.push({ date, value: v });
+  }
+  return { entries, errors };
+}
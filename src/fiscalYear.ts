@@ -0,0 +1,51 @@
+/* -----------------------------
+   Reporting-year helpers, labelled by end year. With the default (Indian) fiscal year,
+   1 April – 31 March: FY25 = Apr-24..Mar-25. See ./calendarSettings for the other modes.
+----------------------------- */
+
+import { DEFAULT_CALENDAR, yearPrefix, yearStartMonth, type CalendarSettings } from "./calendarSettings";
+
+function fyEndYearFromLabel(fy: string) {
+  return 2000 + Number(fy.slice(2));
+}
+
+export function fyLabelFromIso(iso: string, cal: CalendarSettings = DEFAULT_CALENDAR) {
+  const y = Number(iso.slice(0, 4));
+  const m = Number(iso.slice(5, 7));
+  const start = yearStartMonth(cal);
+  const fyEndYear = start > 1 && m >= start ? y + 1 : y;
+  return `${yearPrefix(cal)}${String(fyEndYear).slice(2)}`;
+}
+
+export function fyStartIsoFromFYLabel(fy: string, cal: CalendarSettings = DEFAULT_CALENDAR) {
+  const start = yearStartMonth(cal);
+  const startYear = start > 1 ? fyEndYearFromLabel(fy) - 1 : fyEndYearFromLabel(fy);
+  return `${startYear}-${String(start).padStart(2, "0")}-01`;
+}
+
+export function fyEndIsoFromFYLabel(fy: string, cal: CalendarSettings = DEFAULT_CALENDAR) {
+  const start = yearStartMonth(cal);
+  // Day 0 of the start month in the end year = last day of the month before it
+  const end = new Date(Date.UTC(fyEndYearFromLabel(fy), start > 1 ? start - 1 : 12, 0));
+  return end.toISOString().slice(0, 10);
+}
+
+export function prevFYLabel(fy: string) {
+  return `${fy.slice(0, 2)}${String(Number(fy.slice(2)) - 1).padStart(2, "0")}`;
+}
+
+// Same calendar day deltaYears away; 29 Feb falls back to the month end.
+export function isoAddYears(iso: string, deltaYears: number) {
+  const y = Number(iso.slice(0, 4));
+  const m = Number(iso.slice(5, 7));
+  const d = Number(iso.slice(8, 10));
+  const tryDt = new Date(Date.UTC(y + deltaYears, m - 1, d));
+  if (
+    tryDt.getUTCFullYear() === y + deltaYears &&
+    tryDt.getUTCMonth() === m - 1 &&
+    tryDt.getUTCDate() === d
+  )
+    return tryDt.toISOString().slice(0, 10);
+  const lastDay = new Date(Date.UTC(y + deltaYears, m, 0));
+  return lastDay.toISOString().slice(0, 10);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { isoPlusDays } from "./dates";
+import { backtestModels, forecastDaily } from "./forecast";
+
+const START = "2023-01-02";
+const WEEK = [100, 110, 120, 130, 140, 80, 70];
+
+/** Daily series from START: f(i) for day i. */
+function series(days: number, f: (i: number) => number) {
+  return Array.from({ length: days }, (_, i) => ({ date: isoPlusDays(START, i), value: f(i) }));
+}
+
+const weekly = (i: number) => WEEK[i % 7];
+const trended = (i: number) => WEEK[i % 7] + 0.5 * i;
+
+describe("forecastDaily", () => {
+  it("seasonal naive repeats the last week from the day after the last date", () => {
+    const s = series(28, weekly);
+    const fc = forecastDaily(s, "seasonal_naive", 10);
+    expect(fc[0].date).toBe(isoPlusDays(START, 28));
+    expect(fc.map((p) => p.value)).toEqual([...WEEK, ...WEEK.slice(0, 3)]);
+  });
+
+  it("Holt-Winters follows a weekly season on a linear trend", () => {
+    const s = series(140, trended);
+    const fc = forecastDaily(s, "holt_winters", 14);
+    fc.forEach((p, i) => expect(p.value).toBeCloseTo(trended(140 + i), 0));
+  });
+
+  it("DOW + YoY recovers an exact weekday + last-year relation", () => {
+    const y: number[] = [];
+    for (let i = 0; i < 500; i++) y.push(i < 364 ? WEEK[i % 7] + 20 * Math.sin(i / 29) : 10 * (i % 7) + 0.8 * y[i - 364]);
+    const s = series(500, (i) => y[i]);
+    const fc = forecastDaily(s, "dow_yoy", 30);
+    fc.forEach((p, i) => expect(p.value).toBeCloseTo(10 * ((500 + i) % 7) + 0.8 * y[500 + i - 364], 6));
+  });
+
+  it("returns nothing when the model needs more history", () => {
+    expect(forecastDaily(series(200, weekly), "dow_yoy", 30)).toEqual([]);
+    expect(forecastDaily(series(20, weekly), "holt_winters", 30)).toEqual([]);
+  });
+
+  it("has no interval without a backtest, and one around the forecast with it", () => {
+    const short = forecastDaily(series(20, weekly), "seasonal_naive", 30);
+    expect(short).toHaveLength(30);
+    expect(short.every((p) => p.lower == null && p.upper == null)).toBe(true);
+
+    const fc = forecastDaily(series(200, (i) => trended(i) + (i % 3) * 4), "seasonal_naive", 7);
+    for (const p of fc) {
+      expect(p.lower!).toBeLessThan(p.value);
+      expect(p.upper!).toBeGreaterThan(p.value);
+    }
+  });
+});
+
+describe("backtestModels", () => {
+  it("scores a model that fits the series exactly at 0% MAPE", () => {
+    const rows = backtestModels(series(200, weekly), [7, 30]);
+    const naive = rows.find((r) => r.model === "seasonal_naive")!;
+    expect(naive.origins).toBe(8);
+    expect(naive.mape[7]).toBeCloseTo(0, 9);
+    expect(naive.mape[30]).toBeCloseTo(0, 9);
+  });
+
+  it("measures MAPE over steps 1..h of every origin", () => {
+    // Naive misses a trend of 0.5/day by 3.5 for every step; actuals grow with the origin
+    const rows = backtestModels(series(120, trended), [7]);
+    const naive = rows.find((r) => r.model === "seasonal_naive")!;
+    let sum = 0;
+    let count = 0;
+    for (let k = 8; k >= 1; k--) {
+      const cut = 120 - 7 - (k - 1) * 14;
+      for (let s = 0; s < 7; s++) {
+        sum += (3.5 / trended(cut + s)) * 100;
+        count += 1;
+      }
+    }
+    expect(naive.mape[7]).toBeCloseTo(sum / count, 9);
+  });
+
+  it("leaves MAPE empty for a model with too little history", () => {
+    const rows = backtestModels(series(200, weekly), [7]);
+    const yoy = rows.find((r) => r.model === "dow_yoy")!;
+    expect(yoy.origins).toBe(0);
+    expect(yoy.mape[7]).toBeNull();
+  });
+});
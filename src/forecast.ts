@@ -0,0 +1,233 @@
+/* -----------------------------
+   Short-range forecasts of a daily series
+   - seasonal_naive: repeat the last observed week
+   - holt_winters: additive level/trend/weekly season, smoothing params picked by one-step SSE
+   - dow_yoy: least squares y(t) = a[dow] + b × y(t − 364) (364 keeps the weekday aligned)
+   - Intervals come from the model's own backtest errors at each horizon step; with too little
+     history for a backtest there is no interval (lower / upper null) rather than a zero-width one
+----------------------------- */
+
+export type ForecastModel = "seasonal_naive" | "holt_winters" | "dow_yoy";
+
+export const FORECAST_MODELS: Array<{ key: ForecastModel; label: string }> = [
+  { key: "seasonal_naive", label: "Seasonal naive (weekly)" },
+  { key: "holt_winters", label: "Holt-Winters (additive, weekly)" },
+  { key: "dow_yoy", label: "Day-of-week + YoY regression" },
+];
+
+/** lower / upper: the interval, null when no backtest origin had enough history. */
+export type ForecastPoint = { date: string; value: number; lower: number | null; upper: number | null };
+
+export type BacktestRow = {
+  model: ForecastModel;
+  label: string;
+  /** MAPE % over steps 1..h for each horizon h; null when the model could not be backtested. */
+  mape: Record<number, number | null>;
+  origins: number;
+};
+
+export const BACKTEST_HORIZONS = [7, 30, 90];
+
+const DAY_MS = 86400000;
+const SEASON = 7;
+const YEAR_LAG = 364;
+
+function isoToUtc(iso: string) {
+  return Date.UTC(Number(iso.slice(0, 4)), Number(iso.slice(5, 7)) - 1, Number(iso.slice(8, 10)));
+}
+
+function utcToIso(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** Contiguous daily values from the first to the last date, gaps linearly interpolated. */
+function toDailyGrid(series: Array<{ date: string; value: number }>) {
+  const sorted = [...series].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  if (!sorted.length) return { start: 0, y: [] as number[] };
+
+  const start = isoToUtc(sorted[0].date);
+  const n = Math.round((isoToUtc(sorted[sorted.length - 1].date) - start) / DAY_MS) + 1;
+  const y = new Array<number>(n);
+  let prev = -1;
+  for (const p of sorted) {
+    const i = Math.round((isoToUtc(p.date) - start) / DAY_MS);
+    y[i] = p.value;
+    if (prev >= 0 && i - prev > 1) {
+      for (let j = prev + 1; j < i; j++) y[j] = y[prev] + ((p.value - y[prev]) * (j - prev)) / (i - prev);
+    }
+    prev = i;
+  }
+  return { start, y };
+}
+
+function minHistory(model: ForecastModel) {
+  if (model === "dow_yoy") return YEAR_LAG + 8 * SEASON;
+  if (model === "holt_winters") return 4 * SEASON;
+  return SEASON;
+}
+
+function seasonalNaive(y: number[], h: number) {
+  const n = y.length;
+  return Array.from({ length: h }, (_, i) => y[n - SEASON + (i % SEASON)]);
+}
+
+function holtWintersRun(y: number[], alpha: number, beta: number, gamma: number) {
+  // Initial level/trend from the first two weeks, season from the first week
+  const w1 = y.slice(0, SEASON);
+  const w2 = y.slice(SEASON, 2 * SEASON);
+  const m1 = w1.reduce((a, b) => a + b, 0) / SEASON;
+  const m2 = w2.reduce((a, b) => a + b, 0) / SEASON;
+  let level = m1;
+  let trend = (m2 - m1) / SEASON;
+  const season = w1.map((v) => v - m1);
+
+  let sse = 0;
+  for (let t = SEASON; t < y.length; t++) {
+    const s = season[t % SEASON];
+    const pred = level + trend + s;
+    sse += (y[t] - pred) * (y[t] - pred);
+
+    const prevLevel = level;
+    level = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    season[t % SEASON] = gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+  return { level, trend, season, sse };
+}
+
+function holtWinters(y: number[], h: number) {
+  let best: ReturnType<typeof holtWintersRun> | null = null;
+  for (const alpha of [0.1, 0.3, 0.5]) {
+    for (const beta of [0.01, 0.05]) {
+      for (const gamma of [0.05, 0.2]) {
+        const run = holtWintersRun(y, alpha, beta, gamma);
+        if (!best || run.sse < best.sse) best = run;
+      }
+    }
+  }
+  const { level, trend, season } = best!;
+  const n = y.length;
+  return Array.from({ length: h }, (_, i) => level + (i + 1) * trend + season[(n + i) % SEASON]);
+}
+
+/** Solves A x = b by Gaussian elimination with partial pivoting; null if singular. */
+function solveLinear(A: number[][], b: number[]) {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let piv = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[piv][c])) piv = r;
+    if (Math.abs(M[piv][c]) < 1e-9) return null;
+    [M[c], M[piv]] = [M[piv], M[c]];
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = M[r][c] / M[c][c];
+      for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+  return M.map((row, i) => row[n] / row[i]);
+}
+
+function dowYoY(y: number[], h: number, start: number) {
+  const n = y.length;
+  const dow = (i: number) => new Date(start + i * DAY_MS).getUTCDay();
+
+  // Fit on the most recent year: 7 weekday intercepts + 1 slope on the value 364 days earlier
+  const p = SEASON + 1;
+  const XtX = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const Xty = new Array<number>(p).fill(0);
+  for (let t = Math.max(YEAR_LAG, n - 365); t < n; t++) {
+    const x = new Array<number>(p).fill(0);
+    x[dow(t)] = 1;
+    x[SEASON] = y[t - YEAR_LAG];
+    for (let i = 0; i < p; i++) {
+      Xty[i] += x[i] * y[t];
+      for (let j = 0; j < p; j++) XtX[i][j] += x[i] * x[j];
+    }
+  }
+  const coef = solveLinear(XtX, Xty);
+  if (!coef) return null;
+
+  // Steps beyond 364 days would need forecasts of their own lag; horizons here stay under that
+  return Array.from({ length: h }, (_, i) => coef[dow(n + i)] + coef[SEASON] * y[n + i - YEAR_LAG]);
+}
+
+function forecastGrid(model: ForecastModel, y: number[], start: number, h: number) {
+  if (y.length < minHistory(model)) return null;
+  if (model === "seasonal_naive") return seasonalNaive(y, h);
+  if (model === "holt_winters") return holtWinters(y, h);
+  return dowYoY(y, Math.min(h, YEAR_LAG), start);
+}
+
+/**
+ * Rolling-origin backtest: forecasts from `origins` cut-off points (every 14 days, newest last)
+ * and collects errors per step ahead.
+ */
+function backtestErrors(model: ForecastModel, y: number[], start: number, maxH: number, origins = 8) {
+  const errors: number[][] = Array.from({ length: maxH }, () => []);
+  const ape: number[][] = Array.from({ length: maxH }, () => []);
+  let used = 0;
+
+  for (let k = origins; k >= 1; k--) {
+    const cut = y.length - maxH - (k - 1) * 14;
+    if (cut < minHistory(model)) continue;
+    const fc = forecastGrid(model, y.slice(0, cut), start, maxH);
+    if (!fc) continue;
+    used += 1;
+    for (let s = 0; s < maxH && cut + s < y.length; s++) {
+      const actual = y[cut + s];
+      const err = actual - fc[s];
+      errors[s].push(err);
+      if (actual !== 0) ape[s].push(Math.abs(err / actual) * 100);
+    }
+  }
+  return { errors, ape, used };
+}
+
+export function backtestModels(series: Array<{ date: string; value: number }>, horizons = BACKTEST_HORIZONS): BacktestRow[] {
+  const { start, y } = toDailyGrid(series);
+  const maxH = Math.max(...horizons);
+
+  return FORECAST_MODELS.map(({ key, label }) => {
+    const { ape, used } = backtestErrors(key, y, start, maxH);
+    const mape: Record<number, number | null> = {};
+    for (const h of horizons) {
+      const vals = ape.slice(0, h).flat();
+      mape[h] = used && vals.length ? vals.reduce((a, b) => a + b, 0) / vals.length : null;
+    }
+    return { model: key, label, mape, origins: used };
+  });
+}
+
+/**
+ * Forecasts `horizon` days after the last date. The band is ± z × RMSE of backtest errors
+ * around each step (±3 days), so it widens as the model's own track record gets worse.
+ */
+export function forecastDaily(
+  series: Array<{ date: string; value: number }>,
+  model: ForecastModel,
+  horizon: number,
+  z = 1.96
+): ForecastPoint[] {
+  const { start, y } = toDailyGrid(series);
+  const fc = forecastGrid(model, y, start, horizon);
+  if (!fc) return [];
+
+  const { errors, used } = backtestErrors(model, y, start, horizon);
+  const rmseAt = (s: number) => {
+    const vals = errors.slice(Math.max(0, s - 3), s + 4).flat();
+    return used && vals.length ? Math.sqrt(vals.reduce((a, e) => a + e * e, 0) / vals.length) : null;
+  };
+
+  const lastMs = start + (y.length - 1) * DAY_MS;
+  return fc.map((value, i) => {
+    const rmse = rmseAt(i);
+    const half = rmse == null ? null : z * rmse;
+    return {
+      date: utcToIso(lastMs + (i + 1) * DAY_MS),
+      value,
+      lower: half == null ? null : value - half,
+      upper: half == null ? null : value + half,
+    };
+  });
+}
@@ -0,0 +1,112 @@
+/* -----------------------------
+   FY-over-FY overlay: one line per reporting year (FY or calendar year, see ./calendarSettings)
+   on a shared calendar axis
+   - daily: the day's value; rolling: trailing N-day sum/avg; monthly: month sum/avg
+     (window and month values go through ./gapPolicy like the rest of the dashboard)
+   - Daily slots are calendar positions from the year's first day to its last, 29-Feb
+     included, so a given date always lines up with the same date in other years
+   - Band: min..max of the prior FYs at each slot (needs two of them)
+   - Rolling windows go through windowAggregator (./gapPolicy): aggregateRange per window
+     is too slow for 366 slots × several FYs × a 365-day window
+----------------------------- */
+
+import { DEFAULT_CALENDAR, MONTH_NAMES, yearMonthOrder, yearStartMonth, type CalendarSettings } from "./calendarSettings";
+import { isoPlusDays } from "./dates";
+import { aggregateRange, windowAggregator, type GapPolicy, type RangeAggregate, type SeriesBounds } from "./gapPolicy";
+import { fyLabelFromIso, fyStartIsoFromFYLabel, prevFYLabel } from "./fiscalYear";
+
+export type FYOverlayMode = "daily" | "rolling" | "monthly";
+
+export type FYOverlayRow = {
+  label: string;
+  __band: [number, number] | null;
+  [fy: string]: number | string | [number, number] | null;
+};
+
+/** Prior-FY line colours, most recent first. */
+export const FY_OVERLAY_COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#4f46e5", "#0d9488"];
+
+// "MM-DD" for every day of a reporting year that contains 29-Feb-2024, 366 slots
+function daySlots(cal: CalendarSettings) {
+  const start = yearStartMonth(cal);
+  const first = `${start > 2 ? 2023 : 2024}-${String(start).padStart(2, "0")}-01`;
+  const last = isoPlusDays(`${Number(first.slice(0, 4)) + 1}${first.slice(4)}`, -1);
+  const out: string[] = [];
+  for (let cur = first; cur <= last; cur = isoPlusDays(cur, 1)) out.push(cur.slice(5));
+  return out;
+}
+
+function slotLabel(mmdd: string) {
+  return `${mmdd.slice(3)} ${MONTH_NAMES[Number(mmdd.slice(0, 2)) - 1]}`;
+}
+
+/** Calendar date of slot `mmdd` within `fy`; null for 29-Feb in a non-leap year. */
+function slotDate(fy: string, mmdd: string, cal: CalendarSettings) {
+  const startYear = Number(fyStartIsoFromFYLabel(fy, cal).slice(0, 4));
+  const year = Number(mmdd.slice(0, 2)) >= yearStartMonth(cal) ? startYear : startYear + 1;
+  const iso = `${year}-${mmdd}`;
+  return isoPlusDays(iso, 0) === iso ? iso : null;
+}
+
+export function buildFYOverlay(
+  lookup: Map<string, number>,
+  bounds: SeriesBounds,
+  opts: {
+    mode: FYOverlayMode;
+    calcMode: "sum" | "avg";
+    gapPolicy: GapPolicy;
+    /** Trailing window for the rolling mode, in days. */
+    window: number;
+    /** Prior FYs to show next to the current one. */
+    priorYears: number;
+    calendar?: CalendarSettings;
+  }
+) {
+  const cal = opts.calendar ?? DEFAULT_CALENDAR;
+  const current = fyLabelFromIso(bounds.lastIso, cal);
+  const firstFY = fyLabelFromIso(bounds.firstIso, cal);
+  const fys = [current];
+  while (fys.length <= opts.priorYears) {
+    const prev = prevFYLabel(fys[0]);
+    if (Number(prev.slice(2)) < Number(firstFY.slice(2))) break;
+    fys.unshift(prev);
+  }
+  const prior = fys.slice(0, -1);
+
+  const pick = (a: RangeAggregate) => (opts.calcMode === "sum" ? a.sum : a.avg);
+  const agg =
+    opts.mode === "rolling"
+      ? windowAggregator(lookup, bounds, opts.gapPolicy)
+      : (start: string, end: string) => aggregateRange(lookup, start, end, opts.gapPolicy, bounds);
+
+  const slots =
+    opts.mode === "monthly"
+      ? yearMonthOrder(cal).map((m) => ({ label: MONTH_NAMES[m - 1], mmdd: `${String(m).padStart(2, "0")}-01` }))
+      : daySlots(cal).map((mmdd) => ({ label: slotLabel(mmdd), mmdd }));
+
+  const valueAt = (fy: string, mmdd: string): number | null => {
+    const iso = slotDate(fy, mmdd, cal);
+    if (!iso || iso > bounds.lastIso || iso < bounds.firstIso.slice(0, 8) + "01") return null;
+    if (opts.mode === "daily") return lookup.get(iso) ?? null;
+    if (opts.mode === "rolling") {
+      if (iso < bounds.firstIso) return null;
+      return pick(agg(isoPlusDays(iso, -(opts.window - 1)), iso));
+    }
+    const nextMonth = isoPlusDays(`${iso.slice(0, 7)}-28`, 4).slice(0, 7);
+    return pick(agg(iso, isoPlusDays(`${nextMonth}-01`, -1)));
+  };
+
+  const rows: FYOverlayRow[] = slots.map(({ label, mmdd }) => {
+    const row: FYOverlayRow = { label, __band: null };
+    const priorVals: number[] = [];
+    for (const fy of fys) {
+      const v = valueAt(fy, mmdd);
+      row[fy] = v;
+      if (v != null && fy !== current) priorVals.push(v);
+    }
+    if (priorVals.length >= 2) row.__band = [Math.min(...priorVals), Math.max(...priorVals)];
+    return row;
+  });
+
+  return { current, prior, rows };
+}
@@ -0,0 +1,145 @@
+/* -----------------------------
+   Missing-day policy for period aggregates
+   - skip: use only recorded days (sum shrinks with every gap)
+   - interpolate: fill a missing day linearly between the nearest recorded days around it
+   - carry_forward: fill a missing day with the last recorded value before it
+   - scale: sum of recorded days scaled up to the full period (avg is unchanged)
+   Days outside the series' own first..last date are not gaps: ranges are clipped to them.
+   Charts that slide a window over every day use windowAggregator (prefix sums, same result).
+----------------------------- */
+
+import { daysBetween, isoPlusDays } from "./dates";
+
+export type GapPolicy = "skip" | "interpolate" | "carry_forward" | "scale";
+
+export const GAP_POLICIES: Array<{ key: GapPolicy; label: string }> = [
+  { key: "skip", label: "Skip missing days" },
+  { key: "interpolate", label: "Linear interpolate" },
+  { key: "carry_forward", label: "Carry forward" },
+  { key: "scale", label: "Scale to full period" },
+];
+
+export type RangeAggregate = {
+  sum: number | null;
+  avg: number | null;
+  /** Recorded days in the range. */
+  count: number;
+  /** Calendar days in the (clipped) range. */
+  days: number;
+  /** Recorded days as % of calendar days; null for an empty range. */
+  completeness: number | null;
+};
+
+export type SeriesBounds = { firstIso: string; lastIso: string };
+
+// How far to look for a neighbour when filling; longer outages stay unfilled
+const MAX_FILL_DAYS = 62;
+
+function nearest(lookup: Map<string, number>, iso: string, step: 1 | -1) {
+  let cur = iso;
+  for (let k = 1; k <= MAX_FILL_DAYS; k++) {
+    cur = isoPlusDays(cur, step);
+    const v = lookup.get(cur);
+    if (v != null) return { value: v, dist: k };
+  }
+  return null;
+}
+
+function fillValue(lookup: Map<string, number>, iso: string, policy: GapPolicy) {
+  if (policy === "carry_forward") return nearest(lookup, iso, -1)?.value ?? null;
+  if (policy !== "interpolate") return null;
+
+  const before = nearest(lookup, iso, -1);
+  const after = nearest(lookup, iso, 1);
+  if (before && after) return before.value + ((after.value - before.value) * before.dist) / (before.dist + after.dist);
+  return before?.value ?? after?.value ?? null;
+}
+
+export function aggregateRange(
+  lookup: Map<string, number>,
+  startIso: string,
+  endIso: string,
+  policy: GapPolicy,
+  bounds?: SeriesBounds
+): RangeAggregate {
+  const from = bounds && bounds.firstIso > startIso ? bounds.firstIso : startIso;
+  const to = bounds && bounds.lastIso < endIso ? bounds.lastIso : endIso;
+  if (from > to) return { sum: null, avg: null, count: 0, days: 0, completeness: null };
+
+  let sum = 0;
+  let count = 0;
+  let days = 0;
+  let filledSum = 0;
+  let filledCount = 0;
+
+  let cur = from;
+  while (cur <= to) {
+    days += 1;
+    const v = lookup.get(cur);
+    if (v != null) {
+      sum += v;
+      count += 1;
+    } else if (policy === "interpolate" || policy === "carry_forward") {
+      const f = fillValue(lookup, cur, policy);
+      if (f != null) {
+        filledSum += f;
+        filledCount += 1;
+      }
+    }
+    cur = isoPlusDays(cur, 1);
+  }
+
+  const completeness = (count / days) * 100;
+  if (!count && !filledCount) return { sum: null, avg: null, count, days, completeness };
+
+  if (policy === "scale") {
+    return { sum: (sum * days) / count, avg: sum / count, count, days, completeness };
+  }
+  const n = count + filledCount;
+  return { sum: sum + filledSum, avg: (sum + filledSum) / n, count, days, completeness };
+}
+
+/** aggregateRange (clipped to `bounds`) for any window, in O(1) after one pass over the series. */
+export function windowAggregator(lookup: Map<string, number>, bounds: SeriesBounds, policy: GapPolicy) {
+  const n = daysBetween(bounds.firstIso, bounds.lastIso) + 1;
+  const sum = new Float64Array(n + 1);
+  const count = new Int32Array(n + 1);
+  const filledSum = new Float64Array(n + 1);
+  const filledCount = new Int32Array(n + 1);
+
+  let cur = bounds.firstIso;
+  for (let i = 0; i < n; i++) {
+    sum[i + 1] = sum[i];
+    count[i + 1] = count[i];
+    filledSum[i + 1] = filledSum[i];
+    filledCount[i + 1] = filledCount[i];
+    const v = lookup.get(cur);
+    if (v != null) {
+      sum[i + 1] += v;
+      count[i + 1] += 1;
+    } else if (policy === "interpolate" || policy === "carry_forward") {
+      const f = fillValue(lookup, cur, policy);
+      if (f != null) {
+        filledSum[i + 1] += f;
+        filledCount[i + 1] += 1;
+      }
+    }
+    cur = isoPlusDays(cur, 1);
+  }
+
+  return (startIso: string, endIso: string): RangeAggregate => {
+    const from = Math.max(0, daysBetween(bounds.firstIso, startIso));
+    const to = Math.min(n - 1, daysBetween(bounds.firstIso, endIso));
+    if (from > to) return { sum: null, avg: null, count: 0, days: 0, completeness: null };
+
+    const days = to - from + 1;
+    const s = sum[to + 1] - sum[from];
+    const c = count[to + 1] - count[from];
+    const fs = filledSum[to + 1] - filledSum[from];
+    const fc = filledCount[to + 1] - filledCount[from];
+    const completeness = (c / days) * 100;
+    if (!c && !fc) return { sum: null, avg: null, count: c, days, completeness };
+    if (policy === "scale") return { sum: (s * days) / c, avg: s / c, count: c, days, completeness };
+    return { sum: s + fs, avg: (s + fs) / (c + fc), count: c, days, completeness };
+  };
+}
@@ -0,0 +1,222 @@
+import { DEFAULT_CALENDAR, type CalendarSettings } from "./calendarSettings";
+import { parseCSV } from "./csv";
+import { parseInputDate } from "./dates";
+import { fyEndIsoFromFYLabel, fyLabelFromIso, fyStartIsoFromFYLabel, isoAddYears, prevFYLabel } from "./fiscalYear";
+import { normalizeColumnName } from "./seriesExpression";
+import { loadSeries, type SeriesSpec } from "./seriesStore";
+import { RE_SOURCES, SOURCES, type SourceKey } from "./sources";
+
+/* -----------------------------
+   Fuel-wise daily generation (MU)
+   - Wide CSV: date + one column per source (headers matched loosely, see SOURCE_ALIASES)
+   - Source columns missing from the file are treated as 0; a blank or non-numeric cell in a
+     column that is there rejects the row (reported like csvParse row errors)
+----------------------------- */
+
+export type MixRow = { date: string; values: Record<SourceKey, number> };
+
+export const GENERATION_MIX_STORAGE_KEY = "tusk_india_generation-mix_v1";
+
+/** Stored rows, one record per date ({ [source]: MU }); older builds used GENERATION_MIX_STORAGE_KEY. */
+export const GENERATION_MIX_SERIES: SeriesSpec<Record<SourceKey, number>> = {
+  name: "generation-mix",
+  legacyKey: GENERATION_MIX_STORAGE_KEY,
+  parseLegacy: (obj) =>
+    new Map(
+      Object.entries(obj)
+        .filter(([d]) => /^\d{4}-\d{2}-\d{2}$/.test(d))
+        .map(([date, v]) => [date, mixValues(v as Record<string, unknown> | null)] as const)
+    ),
+};
+
+function mixValues(v: Record<string, unknown> | null | undefined) {
+  return Object.fromEntries(SOURCES.map((s) => [s, Number(v?.[s]) || 0])) as Record<SourceKey, number>;
+}
+
+const SOURCE_ALIASES: Record<SourceKey, string[]> = {
+  Coal: ["coal", "coal_lignite", "thermal"],
+  "Oil & Gas": ["oil_gas", "gas", "oil_and_gas", "gas_naphtha_diesel"],
+  Nuclear: ["nuclear"],
+  Hydro: ["hydro", "large_hydro"],
+  Solar: ["solar"],
+  Wind: ["wind"],
+  "Small-Hydro": ["small_hydro", "smallhydro", "shp"],
+  "Bio Power": ["bio_power", "biomass", "bio_mass", "bio"],
+};
+
+export function parseGenerationMixCSV(text: string) {
+  const { header, rows, errors: csvErrors } = parseCSV(text, { header: true });
+  const errors: string[] = [...csvErrors];
+  if (!header || !rows.length) return { rows: [] as MixRow[], errors: [...errors, "CSV has no header or rows."] };
+
+  const norm = header.map(normalizeColumnName);
+  const dateIdx = Math.max(0, norm.findIndex((h) => h.includes("date")));
+
+  const sourceIdx = {} as Record<SourceKey, number>;
+  for (const s of SOURCES) sourceIdx[s] = norm.findIndex((h) => SOURCE_ALIASES[s].includes(h));
+
+  const found = SOURCES.filter((s) => sourceIdx[s] >= 0);
+  if (!found.length) {
+    return { rows: [] as MixRow[], errors: [`No source columns found (expected e.g. ${SOURCES.join(", ")}).`] };
+  }
+
+  const byDate = new Map<string, MixRow>();
+  rows.forEach((cols, i) => {
+    const date = parseInputDate(cols[dateIdx]);
+    if (!date) {
+      errors.push(`Row ${i + 1}: invalid date '${cols[dateIdx] ?? ""}' (expected DD/MM/YYYY)`);
+      return;
+    }
+    const values = {} as Record<SourceKey, number>;
+    const bad: string[] = [];
+    for (const s of SOURCES) {
+      const idx = sourceIdx[s];
+      if (idx < 0) {
+        values[s] = 0;
+        continue;
+      }
+      const raw = String(cols[idx] ?? "").trim();
+      const n = Number(raw.replace(/,/g, ""));
+      if (!raw || !Number.isFinite(n)) bad.push(`${s}='${raw}'`);
+      else values[s] = n;
+    }
+    if (bad.length) {
+      errors.push(`Row ${i + 1}: invalid value ${bad.join(", ")}`);
+      return;
+    }
+    byDate.set(date, { date, values });
+  });
+
+  const out = Array.from(byDate.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  return { rows: out, errors };
+}
+
+/** Rows saved by the Generation Mix tab. */
+export async function loadStoredMix(): Promise<MixRow[]> {
+  const stored = await loadSeries(GENERATION_MIX_SERIES);
+  return mixRowsFromMap(stored);
+}
+
+export function mixRowsToMap(rows: MixRow[]) {
+  return new Map(rows.map((r) => [r.date, r.values] as const));
+}
+
+export function mixRowsFromMap(m: Map<string, Record<SourceKey, number>>): MixRow[] {
+  return Array.from(m, ([date, values]) => ({ date, values: mixValues(values) })).sort((a, b) =>
+    a.date < b.date ? -1 : a.date > b.date ? 1 : 0
+  );
+}
+
+export function mixTotal(values: Record<SourceKey, number>) {
+  return SOURCES.reduce((acc, s) => acc + (values[s] || 0), 0);
+}
+
+export function mixREShare(values: Record<SourceKey, number>, reSources: SourceKey[] = RE_SOURCES) {
+  const total = mixTotal(values);
+  if (!total) return null;
+  return (reSources.reduce((acc, s) => acc + (values[s] || 0), 0) / total) * 100;
+}
+
+/** Sums per-source generation by month (YYYY-MM). */
+export function mixByMonth(rows: MixRow[]) {
+  const map = new Map<string, MixRow>();
+  for (const r of rows) {
+    const m = r.date.slice(0, 7);
+    if (!map.has(m)) map.set(m, { date: m, values: Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number> });
+    const rec = map.get(m)!;
+    for (const s of SOURCES) rec.values[s] += r.values[s] || 0;
+  }
+  return Array.from(map.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/** Days whose RE share beat every earlier day in the series. */
+export function recordREShareDays(rows: MixRow[], reSources: SourceKey[] = RE_SOURCES) {
+  const out: Array<{ date: string; share: number; prevRecord: number | null }> = [];
+  let best: number | null = null;
+  for (const r of rows) {
+    const share = mixREShare(r.values, reSources);
+    if (share == null) continue;
+    if (best == null || share > best) {
+      out.push({ date: r.date, share, prevRecord: best });
+      best = share;
+    }
+  }
+  return out;
+}
+
+export type MixFYRow = {
+  fy: string;
+  total: number;
+  re: number;
+  reShare: number | null;
+  perSourceShare: Record<SourceKey, number | null>;
+  reShareChangePP: number | null;
+  isComplete: boolean;
+};
+
+/**
+ * FY (Apr–Mar by default, see ./calendarSettings) totals and RE share. Like the dashboard
+ * FY table, an incomplete FY is compared against the same period of the previous FY.
+ */
+export function mixFYRows(
+  rows: MixRow[],
+  reSources: SourceKey[] = RE_SOURCES,
+  calendar: CalendarSettings = DEFAULT_CALENDAR
+): MixFYRow[] {
+  if (!rows.length) return [];
+
+  const sumRange = (startIso: string, endIso: string) => {
+    let total = 0;
+    let re = 0;
+    for (const r of rows) {
+      if (r.date < startIso || r.date > endIso) continue;
+      total += mixTotal(r.values);
+      re += reSources.reduce((acc, s) => acc + (r.values[s] || 0), 0);
+    }
+    return total ? (re / total) * 100 : null;
+  };
+
+  const byFY = new Map<string, { rows: MixRow[]; maxDate: string }>();
+  for (const r of rows) {
+    const fy = fyLabelFromIso(r.date, calendar);
+    if (!byFY.has(fy)) byFY.set(fy, { rows: [], maxDate: r.date });
+    const rec = byFY.get(fy)!;
+    rec.rows.push(r);
+    if (r.date > rec.maxDate) rec.maxDate = r.date;
+  }
+
+  const fys = Array.from(byFY.keys()).sort((a, b) => Number(a.slice(2)) - Number(b.slice(2)));
+
+  return fys.map((fy) => {
+    const rec = byFY.get(fy)!;
+    const perSource = Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number>;
+    for (const r of rec.rows) for (const s of SOURCES) perSource[s] += r.values[s] || 0;
+
+    const total = mixTotal(perSource);
+    const re = reSources.reduce((acc, s) => acc + perSource[s], 0);
+    const reShare = total ? (re / total) * 100 : null;
+
+    const perSourceShare = Object.fromEntries(
+      SOURCES.map((s) => [s, total ? (perSource[s] / total) * 100 : null])
+    ) as Record<SourceKey, number | null>;
+
+    const isComplete = rec.maxDate >= fyEndIsoFromFYLabel(fy, calendar);
+    const prevFY = prevFYLabel(fy);
+    let prevShare: number | null = null;
+    if (byFY.has(prevFY)) {
+      const prevStart = fyStartIsoFromFYLabel(prevFY, calendar);
+      const prevEnd = isComplete ? fyEndIsoFromFYLabel(prevFY, calendar) : isoAddYears(rec.maxDate, -1);
+      prevShare = sumRange(prevStart, prevEnd);
+    }
+
+    return {
+      fy,
+      total,
+      re,
+      reShare,
+      perSourceShare,
+      reShareChangePP: reShare != null && prevShare != null ? reShare - prevShare : null,
+      isComplete,
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { type MixRow } from "./generationMix";
+import { SOURCES, type SourceKey } from "./sources";
+
+/* -----------------------------
+   Implied (measured) PLF per source
+   PLF % = generation (MU = GWh) / (installed capacity (GW) × hours) × 100
+   - Capacity comes from the monthly capacity.csv history (month key MM/YYYY)
+   - Hours = days with generation data in the month × 24, so partial months still work
+----------------------------- */
+
+export type CapacityMonthRow = { month: string; values: Record<SourceKey, number> };
+
+export type ImpliedPLFRow = {
+  month: string; // MM/YYYY
+  days: number;
+  daysInMonth: number;
+  generation: Record<SourceKey, number>;
+  capacity: Record<SourceKey, number>;
+  plf: Record<SourceKey, number | null>;
+  totalPlf: number | null;
+};
+
+function daysInMonth(mk: string) {
+  const [mm, yyyy] = mk.split("/").map(Number);
+  return new Date(Date.UTC(yyyy, mm, 0)).getUTCDate();
+}
+
+export function impliedPLF(generationMU: number, capacityGW: number, hours: number) {
+  if (!capacityGW || !hours) return null;
+  return (generationMU / (capacityGW * hours)) * 100;
+}
+
+export function impliedMonthlyPLF(mix: MixRow[], history: CapacityMonthRow[]): ImpliedPLFRow[] {
+  const genByMonth = new Map<string, { days: number; gen: Record<SourceKey, number> }>();
+  for (const r of mix) {
+    const mk = `${r.date.slice(5, 7)}/${r.date.slice(0, 4)}`;
+    if (!genByMonth.has(mk)) {
+      genByMonth.set(mk, { days: 0, gen: Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number> });
+    }
+    const rec = genByMonth.get(mk)!;
+    rec.days += 1;
+    for (const s of SOURCES) rec.gen[s] += r.values[s] || 0;
+  }
+
+  // Last row wins when capacity.csv repeats a month
+  const capByMonth = new Map(history.map((h) => [h.month, h.values] as const));
+
+  const out: ImpliedPLFRow[] = [];
+  for (const [month, { days, gen }] of genByMonth) {
+    const cap = capByMonth.get(month);
+    if (!cap) continue;
+    const hours = days * 24;
+
+    const plf = {} as Record<SourceKey, number | null>;
+    let genTotal = 0;
+    let capTotal = 0;
+    for (const s of SOURCES) {
+      plf[s] = impliedPLF(gen[s], cap[s], hours);
+      genTotal += gen[s];
+      capTotal += cap[s] || 0;
+    }
+
+    out.push({
+      month,
+      days,
+      daysInMonth: daysInMonth(month),
+      generation: gen,
+      capacity: cap,
+      plf,
+      totalPlf: impliedPLF(genTotal, capTotal, hours),
+    });
+  }
+
+  return out.sort((a, b) => {
+    const [am, ay] = a.month.split("/").map(Number);
+    const [bm, by] = b.month.split("/").map(Number);
+    return ay !== by ? ay - by : am - bm;
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { buildImportPreview, importDiffPct, resolveImport, takesIncoming } from "./importPreview";
+
+const existing = new Map([
+  ["2024-01-01", 100],
+  ["2024-01-02", 200],
+  ["2024-01-03", 0],
+  ["2024-01-04", 400],
+]);
+
+const incoming = [
+  { date: "2024-01-05", value: 500 },
+  { date: "2024-01-02", value: 210 },
+  { date: "2024-01-01", value: 100 },
+  { date: "2024-01-03", value: 30 },
+  { date: "2024-01-02", value: 250 },
+];
+
+describe("buildImportPreview", () => {
+  const preview = buildImportPreview(existing, incoming, ["Row 6: invalid date 'x'"], "jan.csv");
+
+  it("classifies each date as new, changed or unchanged", () => {
+    expect(preview.rows.map((r) => [r.date, r.status])).toEqual([
+      ["2024-01-01", "unchanged"],
+      ["2024-01-02", "changed"],
+      ["2024-01-03", "changed"],
+      ["2024-01-05", "new"],
+    ]);
+    expect(preview.counts).toEqual({ new: 1, changed: 2, unchanged: 1 });
+    expect(preview.rejected).toEqual(["Row 6: invalid date 'x'"]);
+    expect(preview.fileName).toBe("jan.csv");
+  });
+
+  it("keeps the last value of a date repeated in the file", () => {
+    const row = preview.rows.find((r) => r.date === "2024-01-02")!;
+    expect(row).toEqual({ date: "2024-01-02", existing: 200, incoming: 250, diffPct: 25, status: "changed" });
+  });
+
+  it("has no % difference for new dates or a stored 0", () => {
+    expect(preview.rows.find((r) => r.date === "2024-01-05")!.diffPct).toBeNull();
+    expect(preview.rows.find((r) => r.date === "2024-01-03")!.diffPct).toBeNull();
+  });
+});
+
+describe("importDiffPct", () => {
+  it("is relative to the size of the stored value", () => {
+    expect(importDiffPct(200, 150)).toBe(-25);
+    expect(importDiffPct(-200, -150)).toBe(25);
+    expect(importDiffPct(null, 5)).toBeNull();
+  });
+});
+
+describe("takesIncoming", () => {
+  const preview = buildImportPreview(existing, incoming, [], "jan.csv");
+  const row = (date: string) => preview.rows.find((r) => r.date === date)!;
+
+  it("always adds new dates and never touches unchanged ones", () => {
+    for (const s of ["keep", "incoming", "threshold"] as const) {
+      expect(takesIncoming(row("2024-01-05"), s, 10)).toBe(true);
+      expect(takesIncoming(row("2024-01-01"), s, 10)).toBe(false);
+    }
+  });
+
+  it("follows the strategy for changed dates", () => {
+    expect(takesIncoming(row("2024-01-02"), "keep", 10)).toBe(false);
+    expect(takesIncoming(row("2024-01-02"), "incoming", 10)).toBe(true);
+    expect(takesIncoming(row("2024-01-02"), "threshold", 10)).toBe(true);
+    expect(takesIncoming(row("2024-01-02"), "threshold", 30)).toBe(false);
+    expect(takesIncoming(row("2024-01-03"), "threshold", 1000)).toBe(true);
+  });
+});
+
+describe("resolveImport", () => {
+  it("merges per the bulk strategy with per-date overrides", () => {
+    const preview = buildImportPreview(existing, incoming, [], "jan.csv");
+    const next = resolveImport(existing, preview, "keep", { "2024-01-03": "incoming" }, 10);
+    expect(Object.fromEntries(next)).toEqual({
+      "2024-01-01": 100,
+      "2024-01-02": 200,
+      "2024-01-03": 30,
+      "2024-01-04": 400,
+      "2024-01-05": 500,
+    });
+    expect(existing.get("2024-01-03")).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+/* -----------------------------
+   Import preview: what a parsed CSV would do to the stored series before it is merged
+   - new: date not stored yet (always added)
+   - changed: stored with a different value (old vs new, % difference)
+   - unchanged: stored with the same value
+   - rejected: rows csvParse skipped
+   Changed dates follow a strategy, in bulk or per date:
+   - keep: keep the stored value
+   - incoming: take the file's value
+   - threshold: take the file's value only if it differs by more than N %
+----------------------------- */
+
+export type ImportRowStatus = "new" | "changed" | "unchanged";
+
+export type ImportStrategy = "keep" | "incoming" | "threshold";
+
+export type ImportPreviewRow = {
+  date: string;
+  existing: number | null;
+  incoming: number;
+  /** (incoming − existing) / |existing| × 100; null for new dates or a stored 0. */
+  diffPct: number | null;
+  status: ImportRowStatus;
+};
+
+export type ImportPreview = {
+  fileName: string;
+  rows: ImportPreviewRow[];
+  rejected: string[];
+  counts: Record<ImportRowStatus, number>;
+};
+
+export const IMPORT_STRATEGY_LABELS: Record<ImportStrategy, string> = {
+  keep: "Keep existing",
+  incoming: "Take incoming",
+  threshold: "Take incoming if difference > threshold",
+};
+
+export function importDiffPct(existing: number | null, incoming: number) {
+  if (existing == null || existing === 0) return null;
+  return ((incoming - existing) / Math.abs(existing)) * 100;
+}
+
+/** Compare parsed rows (a date repeated in the file keeps its last value) with the stored series. */
+export function buildImportPreview(
+  existing: Map<string, number>,
+  incoming: Array<{ date: string; value: number }>,
+  rejected: string[],
+  fileName: string
+): ImportPreview {
+  const byDate = new Map<string, number>();
+  for (const r of incoming) byDate.set(r.date, r.value);
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, changed: 0, unchanged: 0 };
+  const rows: ImportPreviewRow[] = [];
+  for (const [date, value] of byDate) {
+    const old = existing.get(date);
+    const status: ImportRowStatus = old == null ? "new" : old === value ? "unchanged" : "changed";
+    counts[status] += 1;
+    rows.push({ date, existing: old ?? null, incoming: value, diffPct: importDiffPct(old ?? null, value), status });
+  }
+  rows.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  return { fileName, rows, rejected, counts };
+}
+
+/** Whether a changed date takes the file's value; a change from 0 always exceeds the threshold. */
+export function takesIncoming(row: ImportPreviewRow, strategy: ImportStrategy, thresholdPct: number) {
+  if (row.status !== "changed") return row.status === "new";
+  if (strategy === "keep") return false;
+  if (strategy === "incoming") return true;
+  return row.diffPct == null || Math.abs(row.diffPct) > thresholdPct;
+}
+
+/** The series after the merge: new dates added, changed dates per their strategy. */
+export function resolveImport(
+  existing: Map<string, number>,
+  preview: ImportPreview,
+  bulk: ImportStrategy,
+  perRow: Record<string, ImportStrategy>,
+  thresholdPct: number
+) {
+  const next = new Map(existing);
+  for (const r of preview.rows) {
+    if (takesIncoming(r, perRow[r.date] ?? bulk, thresholdPct)) next.set(r.date, r.incoming);
+  }
+  return next;
+}
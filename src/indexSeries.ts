@@ -0,0 +1,110 @@
+/* -----------------------------
+   Rebased (start = 100) comparison of series with different units
+   - Flows (generation MU, demand GW, prices): period value = mean of recorded days,
+     optionally a trailing N-day mean first so a noisy base day doesn't skew the index
+   - Stocks (installed capacity, reported monthly): last reported value carried forward
+   - Index = value / value in the base period × 100
+----------------------------- */
+
+import { isoPlusDays } from "./dates";
+
+export type SeriesMap = Map<string, number>;
+
+export type IndexResolution = "daily" | "weekly" | "monthly";
+
+// A stock's last report is carried this far past its date (capacity.csv is monthly)
+const STOCK_CARRY_DAYS = 31;
+
+/**
+ * Start of the period containing `iso`: the day, the first day of its week
+ * (`weekStart`: 0 = Sunday, 1 = Monday, …) or the 1st of the month.
+ */
+export function periodStart(iso: string, res: IndexResolution, weekStart = 1) {
+  if (res === "monthly") return `${iso.slice(0, 7)}-01`;
+  if (res === "weekly") {
+    const dow = new Date(iso + "T00:00:00Z").getUTCDay();
+    return isoPlusDays(iso, -((dow - weekStart + 7) % 7));
+  }
+  return iso;
+}
+
+function nextPeriod(start: string, res: IndexResolution) {
+  if (res === "daily") return isoPlusDays(start, 1);
+  if (res === "weekly") return isoPlusDays(start, 7);
+  const y = Number(start.slice(0, 4));
+  const m = Number(start.slice(5, 7));
+  return m === 12 ? `${y + 1}-01-01` : `${y}-${String(m + 1).padStart(2, "0")}-01`;
+}
+
+function trailingMean(series: SeriesMap, window: number) {
+  if (window <= 1) return series;
+  const out: SeriesMap = new Map();
+  for (const date of series.keys()) {
+    let sum = 0;
+    let n = 0;
+    for (let k = 0; k < window; k++) {
+      const v = series.get(isoPlusDays(date, -k));
+      if (v != null) {
+        sum += v;
+        n += 1;
+      }
+    }
+    if (n) out.set(date, sum / n);
+  }
+  return out;
+}
+
+/** One value per period start between `from` and `to` (inclusive). */
+export function resampleSeries(
+  series: SeriesMap,
+  res: IndexResolution,
+  from: string,
+  to: string,
+  opts: { stock?: boolean; smoothDays?: number; weekStart?: number } = {}
+): SeriesMap {
+  const out: SeriesMap = new Map();
+  const dates = Array.from(series.keys()).sort();
+  if (!dates.length) return out;
+
+  if (opts.stock) {
+    // Last report on or before the period end, while it is still fresh
+    let i = -1;
+    for (let p = periodStart(from, res, opts.weekStart); p <= to; p = nextPeriod(p, res)) {
+      const end = isoPlusDays(nextPeriod(p, res), -1);
+      while (i + 1 < dates.length && dates[i + 1] <= end) i++;
+      if (i < 0) continue;
+      if (isoPlusDays(dates[i], STOCK_CARRY_DAYS) < p) continue;
+      out.set(p, series.get(dates[i])!);
+    }
+    return out;
+  }
+
+  const src = trailingMean(series, opts.smoothDays ?? 1);
+  const sums = new Map<string, { sum: number; n: number }>();
+  for (const [date, v] of src) {
+    if (date < periodStart(from, res, opts.weekStart) || date > to) continue;
+    const p = periodStart(date, res, opts.weekStart);
+    const acc = sums.get(p) ?? { sum: 0, n: 0 };
+    acc.sum += v;
+    acc.n += 1;
+    sums.set(p, acc);
+  }
+  for (const [p, { sum, n }] of sums) out.set(p, sum / n);
+  return out;
+}
+
+/** Index (base = 100) for every period; null when the base period has no value or is zero. */
+export function rebase(resampled: SeriesMap, basePeriod: string) {
+  const base = resampled.get(basePeriod);
+  if (base == null || base === 0) return null;
+  const out: SeriesMap = new Map();
+  for (const [p, v] of resampled) out.set(p, (v / base) * 100);
+  return { base, index: out };
+}
+
+/** All period starts from `from` to `to`. */
+export function periodRange(from: string, to: string, res: IndexResolution, weekStart = 1) {
+  const out: string[] = [];
+  for (let p = periodStart(from, res, weekStart); p <= to; p = nextPeriod(p, res)) out.push(p);
+  return out;
+}
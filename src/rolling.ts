@@ -0,0 +1,83 @@
+/* -----------------------------
+   Rolling statistics over a daily series (trailing windows ending on a date)
+   - Mean / sum go through ./gapPolicy (windowAggregator) so the missing-day policy applies
+   - Median: recorded days in the window only, one sliding pass over the history
+   - EMA: alpha = 2 / (N + 1), stepped one calendar day at a time; a missing day leaves
+     the average unchanged. Seeded with the mean of the first N days, so the first
+     N − 1 days have no value.
+----------------------------- */
+
+import { isoPlusDays } from "./dates";
+import type { SeriesBounds } from "./gapPolicy";
+
+export const ROLLING_WINDOWS = [7, 14, 30, 90, 365];
+
+export type RollingStat = "avg" | "sum" | "median" | "ema";
+
+// First index in ascending `sorted` whose value is >= v
+function lowerBound(sorted: number[], v: number) {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < v) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Median of recorded values in the `window` days ending on each date, with the share of days
+ * recorded; every date whose window holds a recorded day (up to lastIso + N − 1).
+ */
+export function rollingMedianSeries(lookup: Map<string, number>, bounds: SeriesBounds, window: number) {
+  const out = new Map<string, { value: number; completeness: number }>();
+  const vals: number[] = [];
+  const lastIso = isoPlusDays(bounds.lastIso, window - 1);
+
+  for (let cur = bounds.firstIso; cur <= lastIso; cur = isoPlusDays(cur, 1)) {
+    const v = lookup.get(cur);
+    if (v != null) vals.splice(lowerBound(vals, v), 0, v);
+    const dropped = lookup.get(isoPlusDays(cur, -window));
+    if (dropped != null) vals.splice(lowerBound(vals, dropped), 1);
+    if (!vals.length) continue;
+
+    const mid = Math.floor(vals.length / 2);
+    const value = vals.length % 2 ? vals[mid] : (vals[mid - 1] + vals[mid]) / 2;
+    out.set(cur, { value, completeness: (vals.length / window) * 100 });
+  }
+  return out;
+}
+
+/** EMA for every calendar day from the first recorded day + N − 1 to the last one. */
+export function emaSeries(sorted: Array<{ date: string; value: number }>, window: number) {
+  const out = new Map<string, number>();
+  if (!sorted.length) return out;
+
+  const lookup = new Map(sorted.map((d) => [d.date, d.value] as const));
+  const alpha = 2 / (window + 1);
+  const lastIso = sorted[sorted.length - 1].date;
+
+  let cur = sorted[0].date;
+  let day = 0;
+  let seedSum = 0;
+  let seedCount = 0;
+  let ema: number | null = null;
+
+  while (cur <= lastIso) {
+    const v = lookup.get(cur);
+    if (ema == null) {
+      if (v != null) {
+        seedSum += v;
+        seedCount += 1;
+      }
+      if (day >= window - 1 && seedCount) ema = seedSum / seedCount;
+    } else if (v != null) {
+      ema = alpha * v + (1 - alpha) * ema;
+    }
+    if (ema != null) out.set(cur, ema);
+    cur = isoPlusDays(cur, 1);
+    day += 1;
+  }
+  return out;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { compileSeriesExpression, missingColumns, normalizeColumnName } from "./seriesExpression";
+
+const ROW: Record<string, number | null> = {
+  coal: 10,
+  lignite: 4,
+  solar: 3,
+  wind: 2,
+  small_hydro: 6,
+  gas: 0,
+  nuclear: null,
+};
+
+function evaluate(source: string, row = ROW) {
+  return compileSeriesExpression(source).evaluate((c) => row[c] ?? null);
+}
+
+describe("normalizeColumnName", () => {
+  it("folds case, spaces and dashes to snake case", () => {
+    expect(normalizeColumnName("Small-Hydro")).toBe("small_hydro");
+    expect(normalizeColumnName("  Peak Demand (MW) ")).toBe("peak_demand_mw");
+    expect(normalizeColumnName("")).toBe("");
+  });
+});
+
+describe("compileSeriesExpression", () => {
+  it("reads a plain column", () => {
+    expect(evaluate("solar")).toBe(3);
+    expect(compileSeriesExpression("Solar").columns).toEqual(["solar"]);
+  });
+
+  it("gives * and / precedence over + and -, left to right", () => {
+    expect(evaluate("coal + solar * wind")).toBe(16);
+    expect(evaluate("coal - lignite - wind")).toBe(4);
+    expect(evaluate("coal / wind * solar")).toBe(15);
+    expect(evaluate("coal - solar * 2 + 1")).toBe(5);
+  });
+
+  it("follows parentheses", () => {
+    expect(evaluate("(coal + lignite) / 2")).toBe(7);
+    expect(evaluate("coal / (wind * (solar - 1))")).toBe(2.5);
+  });
+
+  it("handles unary minus", () => {
+    expect(evaluate("-solar")).toBe(-3);
+    expect(evaluate("coal * -wind")).toBe(-20);
+    expect(evaluate("-(coal - lignite)")).toBe(-6);
+    expect(evaluate("--solar")).toBe(3);
+  });
+
+  it("matches [bracketed] names the way headers are normalised", () => {
+    const expr = compileSeriesExpression("[Small-Hydro] + [ Solar ]");
+    expect(expr.columns).toEqual(["small_hydro", "solar"]);
+    expect(evaluate("[Small-Hydro] + [ Solar ]")).toBe(9);
+  });
+
+  it("lists each referenced column once", () => {
+    expect(compileSeriesExpression("solar + wind + solar / 2").columns).toEqual(["solar", "wind"]);
+  });
+
+  it("is null for a missing cell or a division by zero", () => {
+    expect(evaluate("coal + nuclear")).toBeNull();
+    expect(evaluate("-nuclear")).toBeNull();
+    expect(evaluate("coal / gas")).toBeNull();
+    expect(evaluate("coal / (solar - 3)")).toBeNull();
+    expect(evaluate("gas / coal")).toBe(0);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => compileSeriesExpression("solar +")).toThrow("Incomplete expression 'solar +'");
+    expect(() => compileSeriesExpression("(coal + lignite")).toThrow("Missing ')'");
+    expect(() => compileSeriesExpression("coal lignite")).toThrow("Unexpected trailing input");
+    expect(() => compileSeriesExpression("coal $ 2")).toThrow("Unexpected '$'");
+    expect(() => compileSeriesExpression("[Small-Hydro + 1")).toThrow("Unclosed '['");
+    expect(() => compileSeriesExpression("* coal")).toThrow("Unexpected '*'");
+  });
+});
+
+describe("missingColumns", () => {
+  it("reports the referenced columns the header does not have", () => {
+    const expr = compileSeriesExpression("coal + [Small-Hydro] + biomass");
+    expect(missingColumns(expr, ["Date", "Coal", "Small Hydro"])).toEqual(["biomass"]);
+    expect(missingColumns(expr, ["date", "coal", "small_hydro", "BIOMASS"])).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+/* -----------------------------
+   Series expressions over wide CSV columns
+   - A plain column name ("solar") or arithmetic over columns ("solar+wind", "(coal+lignite)/2")
+   - Column names are matched case-insensitively with spaces/dashes folded to "_",
+     so "small_hydro" matches a "Small-Hydro" header; [Small-Hydro] is also accepted
+   - Evaluates to null when a referenced cell is missing or a division is by zero
+----------------------------- */
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "col"; name: string }
+  | { kind: "neg"; arg: Node }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/"; left: Node; right: Node };
+
+export type SeriesExpression = {
+  source: string;
+  /** Normalised column names referenced by the expression. */
+  columns: string[];
+  evaluate: (get: (column: string) => number | null) => number | null;
+};
+
+export function normalizeColumnName(name: string) {
+  return (name || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** The expression's columns that a header (names as in the file) does not have. */
+export function missingColumns(expr: SeriesExpression, header: string[]) {
+  const have = new Set(header.map(normalizeColumnName));
+  return expr.columns.filter((c) => !have.has(c));
+}
+
+type Token = { t: "num"; v: number } | { t: "id"; v: string } | { t: "op"; v: string };
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if ("+-*/()".includes(ch)) {
+      out.push({ t: "op", v: ch });
+      i++;
+      continue;
+    }
+    if (ch === "[") {
+      const end = src.indexOf("]", i + 1);
+      if (end < 0) throw new Error(`Unclosed '[' in expression '${src}'`);
+      out.push({ t: "id", v: normalizeColumnName(src.slice(i + 1, end)) });
+      i = end + 1;
+      continue;
+    }
+    const num = src.slice(i).match(/^\d+(\.\d+)?/);
+    if (num) {
+      out.push({ t: "num", v: Number(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    const id = src.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (id) {
+      out.push({ t: "id", v: normalizeColumnName(id[0]) });
+      i += id[0].length;
+      continue;
+    }
+    throw new Error(`Unexpected '${ch}' in expression '${src}'`);
+  }
+  return out;
+}
+
+export function compileSeriesExpression(source: string): SeriesExpression {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (v: string) => {
+    const tk = peek();
+    return tk != null && tk.t === "op" && tk.v === v;
+  };
+
+  function parseExpr(): Node {
+    let left = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = (tokens[pos++] as { v: "+" | "-" }).v;
+      left = { kind: "bin", op, left, right: parseTerm() };
+    }
+    return left;
+  }
+
+  function parseTerm(): Node {
+    let left = parseFactor();
+    while (isOp("*") || isOp("/")) {
+      const op = (tokens[pos++] as { v: "*" | "/" }).v;
+      left = { kind: "bin", op, left, right: parseFactor() };
+    }
+    return left;
+  }
+
+  function parseFactor(): Node {
+    const tk = tokens[pos++];
+    if (!tk) throw new Error(`Incomplete expression '${source}'`);
+    if (tk.t === "num") return { kind: "num", value: tk.v };
+    if (tk.t === "id") return { kind: "col", name: tk.v };
+    if (tk.v === "-") return { kind: "neg", arg: parseFactor() };
+    if (tk.v === "(") {
+      const inner = parseExpr();
+      if (!isOp(")")) throw new Error(`Missing ')' in expression '${source}'`);
+      pos++;
+      return inner;
+    }
+    throw new Error(`Unexpected '${tk.v}' in expression '${source}'`);
+  }
+
+  const root = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected trailing input in expression '${source}'`);
+
+  const columns: string[] = [];
+  const collect = (n: Node) => {
+    if (n.kind === "col" && !columns.includes(n.name)) columns.push(n.name);
+    if (n.kind === "neg") collect(n.arg);
+    if (n.kind === "bin") {
+      collect(n.left);
+      collect(n.right);
+    }
+  };
+  collect(root);
+
+  const evalNode = (n: Node, get: (column: string) => number | null): number | null => {
+    if (n.kind === "num") return n.value;
+    if (n.kind === "col") return get(n.name);
+    if (n.kind === "neg") {
+      const v = evalNode(n.arg, get);
+      return v == null ? null : -v;
+    }
+    const a = evalNode(n.left, get);
+    const b = evalNode(n.right, get);
+    if (a == null || b == null) return null;
+    if (n.op === "+") return a + b;
+    if (n.op === "-") return a - b;
+    if (n.op === "*") return a * b;
+    return b === 0 ? null : a / b;
+  };
+
+  return { source, columns, evaluate: (get) => evalNode(root, get) };
+}
@@ -0,0 +1,245 @@
+/* -----------------------------
+   Browser storage for daily series (IndexedDB)
+   - "points": one record per series and date ({ series, date, value }), so saving a day is a
+     single put instead of re-serialising the whole map into one localStorage key
+   - "meta": one record per series ({ series, count, updatedAt, migratedFrom? }); its presence
+     means the series lives here
+   - "docs": small JSON documents by name (news / report caches)
+   - Schema version = IndexedDB database version; MIGRATIONS[i] upgrades version i to i + 1
+   - Data saved by older builds under the localStorage `_v1` keys is copied in on first load,
+     then the key is removed to free the ~5 MB localStorage quota
+   - Without IndexedDB (some private windows) the old localStorage keys are used as before
+----------------------------- */
+
+export const DB_NAME = "tusk_india";
+
+const MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  // 0 → 1: per-date points, per-series meta, JSON docs
+  (db) => {
+    const points = db.createObjectStore("points", { keyPath: ["series", "date"] });
+    points.createIndex("series", "series");
+    db.createObjectStore("meta", { keyPath: "series" });
+    db.createObjectStore("docs");
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export type StoreBackend = "indexeddb" | "localStorage";
+
+export type StorageStatus = {
+  backend: StoreBackend;
+  /** Bytes used / available to this origin (navigator.storage.estimate); null when unknown. */
+  usage: number | null;
+  quota: number | null;
+};
+
+/** How a series is named in the store and where older builds kept it. */
+export type SeriesSpec<T> = {
+  name: string;
+  legacyKey: string;
+  /** Entries of the legacy `{ [isoDate]: value }` object; invalid ones dropped. */
+  parseLegacy: (obj: Record<string, unknown>) => Map<string, T>;
+};
+
+type PointRecord<T> = { series: string; date: string; value: T };
+type MetaRecord = { series: string; count: number; updatedAt: string; migratedFrom?: string };
+
+function req<T>(r: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function txDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const r = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      r.onupgradeneeded = (e) => {
+        for (let v = e.oldVersion; v < SCHEMA_VERSION; v++) MIGRATIONS[v](r.result);
+      };
+      r.onsuccess = () => {
+        // Another tab opened a newer schema: let it upgrade, reopen on next use
+        r.result.onversionchange = () => {
+          r.result.close();
+          dbPromise = null;
+        };
+        resolve(r.result);
+      };
+      r.onerror = () => reject(r.error);
+      r.onblocked = () => reject(new Error("Storage upgrade blocked by another open tab"));
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+let backend: StoreBackend = "indexeddb";
+
+async function db() {
+  try {
+    const d = await openDB();
+    backend = "indexeddb";
+    return d;
+  } catch {
+    backend = "localStorage";
+    return null;
+  }
+}
+
+function readLegacy<T>(spec: SeriesSpec<T>) {
+  try {
+    const raw = localStorage.getItem(spec.legacyKey);
+    if (!raw) return new Map<string, T>();
+    return spec.parseLegacy(JSON.parse(raw) || {});
+  } catch {
+    return new Map<string, T>();
+  }
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return a === b || (typeof a === "object" && JSON.stringify(a) === JSON.stringify(b));
+}
+
+export async function loadSeries<T>(spec: SeriesSpec<T>): Promise<Map<string, T>> {
+  const d = await db();
+  if (!d) return readLegacy(spec);
+
+  const meta = await req<MetaRecord | undefined>(d.transaction("meta").objectStore("meta").get(spec.name));
+  if (meta) {
+    const tx = d.transaction("points");
+    const rows = await req<PointRecord<T>[]>(tx.objectStore("points").index("series").getAll(spec.name));
+    return new Map(rows.map((r) => [r.date, r.value] as const));
+  }
+
+  // First run on this schema: move the localStorage copy over
+  const legacy = readLegacy(spec);
+  const tx = d.transaction(["points", "meta"], "readwrite");
+  const points = tx.objectStore("points");
+  for (const [date, value] of legacy) points.put({ series: spec.name, date, value } satisfies PointRecord<T>);
+  tx.objectStore("meta").put({
+    series: spec.name,
+    count: legacy.size,
+    updatedAt: new Date().toISOString(),
+    ...(legacy.size ? { migratedFrom: spec.legacyKey } : {}),
+  } satisfies MetaRecord);
+  await txDone(tx);
+
+  try {
+    localStorage.removeItem(spec.legacyKey);
+  } catch {}
+  return legacy;
+}
+
+/** Persist the difference between two versions of a series (puts for new/changed days, deletes for removed ones). */
+export async function saveSeries<T>(spec: SeriesSpec<T>, prev: Map<string, T>, next: Map<string, T>) {
+  const d = await db();
+  if (!d) {
+    localStorage.setItem(spec.legacyKey, JSON.stringify(Object.fromEntries(next)));
+    return;
+  }
+
+  const tx = d.transaction(["points", "meta"], "readwrite");
+  const points = tx.objectStore("points");
+  for (const [date, value] of next) {
+    if (!prev.has(date) || !sameValue(prev.get(date), value)) {
+      points.put({ series: spec.name, date, value } satisfies PointRecord<T>);
+    }
+  }
+  for (const date of prev.keys()) {
+    if (!next.has(date)) points.delete([spec.name, date]);
+  }
+  const metaStore = tx.objectStore("meta");
+  const meta = await req<MetaRecord | undefined>(metaStore.get(spec.name));
+  metaStore.put({ ...meta, series: spec.name, count: next.size, updatedAt: new Date().toISOString() } satisfies MetaRecord);
+  await txDone(tx);
+}
+
+/**
+ * A cached JSON document; `legacyKey` is read (and removed) the first time. `parseLegacy`
+ * reads legacy values that were not stored as JSON.
+ */
+export async function loadDoc<T>(
+  name: string,
+  legacyKey?: string,
+  parseLegacy: (raw: string) => T = (raw) => JSON.parse(raw) as T
+): Promise<T | null> {
+  const d = await db();
+  const legacy = () => {
+    try {
+      const raw = legacyKey ? localStorage.getItem(legacyKey) : null;
+      return raw ? parseLegacy(raw) : null;
+    } catch {
+      return null;
+    }
+  };
+  if (!d) return legacy();
+
+  const doc = await req<T | undefined>(d.transaction("docs").objectStore("docs").get(name));
+  if (doc !== undefined) return doc;
+
+  const old = legacy();
+  if (old != null && legacyKey) {
+    await saveDoc(name, old);
+    try {
+      localStorage.removeItem(legacyKey);
+    } catch {}
+  }
+  return old;
+}
+
+export async function saveDoc<T>(name: string, value: T, legacyKey?: string) {
+  const d = await db();
+  if (!d) {
+    if (legacyKey) localStorage.setItem(legacyKey, JSON.stringify(value));
+    return;
+  }
+  const tx = d.transaction("docs", "readwrite");
+  tx.objectStore("docs").put(value, name);
+  await txDone(tx);
+}
+
+export async function storageStatus(): Promise<StorageStatus> {
+  await db();
+  try {
+    const est = await navigator.storage?.estimate?.();
+    return { backend, usage: est?.usage ?? null, quota: est?.quota ?? null };
+  } catch {
+    return { backend, usage: null, quota: null };
+  }
+}
+
+/** User-facing text for a failed read or write. */
+export function storageErrorMessage(e: unknown, what: string) {
+  const name = e instanceof DOMException || e instanceof Error ? e.name : "";
+  if (name === "QuotaExceededError") {
+    return `Browser storage is full: ${what} could not be saved. Clear data you no longer need (e.g. “Clear all” on another tab) and try again.`;
+  }
+  const detail = e instanceof Error && e.message ? ` (${e.message})` : "";
+  return `Could not save ${what} to browser storage${detail}.`;
+}
+
+export function formatBytes(n: number | null) {
+  if (n == null) return "—";
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
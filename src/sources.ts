@@ -0,0 +1,39 @@
+/* -----------------------------
+   Generation sources (fuel types)
+   - Shared by Rated Capacity (capacity.csv columns) and the Generation Mix tab
+----------------------------- */
+
+export type SourceKey =
+  | "Coal"
+  | "Oil & Gas"
+  | "Nuclear"
+  | "Hydro"
+  | "Solar"
+  | "Wind"
+  | "Small-Hydro"
+  | "Bio Power";
+
+export const SOURCES: SourceKey[] = [
+  "Coal",
+  "Oil & Gas",
+  "Nuclear",
+  "Hydro",
+  "Solar",
+  "Wind",
+  "Small-Hydro",
+  "Bio Power",
+];
+
+// MNRE definition of renewable energy: large hydro is reported separately
+export const RE_SOURCES: SourceKey[] = ["Solar", "Wind", "Small-Hydro", "Bio Power"];
+
+export const SOURCE_COLORS: Record<SourceKey, string> = {
+  Coal: "#334155",
+  "Oil & Gas": "#f97316",
+  Nuclear: "#a855f7",
+  Hydro: "#2563eb",
+  Solar: "#eab308",
+  Wind: "#16a34a",
+  "Small-Hydro": "#06b6d4",
+  "Bio Power": "#84cc16",
+};
@@ -0,0 +1,112 @@
+/* -----------------------------
+   Shareable view state in the URL query string
+   - ?tab=<slug> selects the App tab
+   - Dashboards add view/window/from/to/range/series/table (see DashboardUrlState)
+   - User changes push a history entry; back/forward fire popstate, which
+     App and the mounted dashboard listen to via onUrlChange
+----------------------------- */
+
+export const TAB_SLUGS = [
+  "generation",
+  "generation-mix",
+  "demand",
+  "supply",
+  "coal-plf",
+  "rtm-prices",
+  "correlations",
+  "indexed",
+  "rated-capacity",
+  "news",
+  "reports",
+] as const;
+
+export type TabSlug = (typeof TAB_SLUGS)[number];
+
+export function readUrlParams() {
+  return new URLSearchParams(window.location.search);
+}
+
+/** Replaces the query string; no-op when it would not change. */
+export function writeUrlParams(params: URLSearchParams, mode: "push" | "replace") {
+  const qs = params.toString();
+  if (qs === window.location.search.replace(/^\?/, "")) return;
+  const url = `${window.location.pathname}${qs ? `?${qs}` : ""}${window.location.hash}`;
+  if (mode === "push") window.history.pushState(null, "", url);
+  else window.history.replaceState(null, "", url);
+}
+
+/** Calls `cb` on back/forward navigation; returns the unsubscribe function. */
+export function onUrlChange(cb: () => void) {
+  window.addEventListener("popstate", cb);
+  return () => window.removeEventListener("popstate", cb);
+}
+
+export function tabIndexFromUrl() {
+  const idx = TAB_SLUGS.indexOf(readUrlParams().get("tab") as TabSlug);
+  return idx >= 0 ? idx : 0;
+}
+
+/* -----------------------------
+   Dashboard view state
+----------------------------- */
+
+export type SeriesFlags = { units: boolean; py: boolean; yoy: boolean; mom: boolean; ctrl: boolean };
+
+export type DashboardUrlState = {
+  view?: string;
+  /** Rolling window in days. */
+  window?: number;
+  from?: string;
+  to?: string;
+  range?: number;
+  series?: SeriesFlags;
+  table?: "monthly" | "weekly" | "yearly";
+};
+
+const SERIES_FLAG_KEYS: Array<keyof SeriesFlags> = ["units", "py", "yoy", "mom", "ctrl"];
+const ISO_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** State for dashboard `tab` from the URL; null when the URL is for another tab. */
+export function readDashboardUrlState(tab: string): DashboardUrlState | null {
+  const p = readUrlParams();
+  const urlTab = p.get("tab");
+  if (urlTab && urlTab !== tab) return null;
+
+  const out: DashboardUrlState = {};
+  const view = p.get("view");
+  if (view) out.view = view;
+
+  const win = Number(p.get("window"));
+  if (p.has("window") && Number.isInteger(win) && win > 0) out.window = win;
+
+  const from = p.get("from");
+  if (from && ISO_RE.test(from)) out.from = from;
+  const to = p.get("to");
+  if (to && ISO_RE.test(to)) out.to = to;
+
+  const range = Number(p.get("range"));
+  if (p.has("range") && Number.isFinite(range) && range > 0) out.range = range;
+
+  if (p.has("series")) {
+    const on = new Set((p.get("series") || "").split(",").filter(Boolean));
+    out.series = Object.fromEntries(SERIES_FLAG_KEYS.map((k) => [k, on.has(k)])) as SeriesFlags;
+  }
+
+  const table = p.get("table");
+  if (table === "monthly" || table === "weekly" || table === "yearly") out.table = table;
+
+  return out;
+}
+
+export function dashboardUrlParams(tab: string, s: Required<DashboardUrlState>) {
+  const p = new URLSearchParams();
+  p.set("tab", tab);
+  p.set("view", s.view);
+  if (s.view.startsWith("rolling")) p.set("window", String(s.window));
+  if (s.from) p.set("from", s.from);
+  if (s.to) p.set("to", s.to);
+  p.set("range", String(s.range));
+  p.set("series", SERIES_FLAG_KEYS.filter((k) => s.series[k]).join(","));
+  p.set("table", s.table);
+  return p;
+}
@@ -0,0 +1,271 @@
+/* -----------------------------
+   Minimal XLSX writer (no dependencies)
+   - One workbook = a few sheets of header + rows; a column's kind picks its cell style:
+     text, date (ISO string → Excel serial, dd/mm/yyyy), value (fixed decimals + unit suffix),
+     pct (signed %, green above 0 / red below 0 like pctColorClass), share (plain %, e.g. days recorded)
+   - Packaged as an uncompressed ZIP (store method), which Excel, LibreOffice and Sheets open
+----------------------------- */
+
+export type XlsxColumnKind = "text" | "date" | "value" | "pct" | "share";
+
+export type XlsxColumn = { header: string; kind: XlsxColumnKind; width?: number };
+
+export type XlsxSheet = {
+  /** Max 31 chars, no []:*?/\ (Excel rule). */
+  name: string;
+  columns: XlsxColumn[];
+  rows: Array<Array<string | number | null>>;
+};
+
+export type XlsxValueFormat = { decimals: number; suffix: string };
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_PKG_REL = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// cellXfs indices in styles.xml
+const STYLE = { text: 0, header: 1, date: 2, value: 3, pctZero: 4, pctUp: 5, pctDown: 6, pctNone: 7, share: 8 };
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function colName(i: number) {
+  let s = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+/** Days since 1899-12-30 (Excel's 1900 date system). */
+function excelSerial(iso: string) {
+  const ms = Date.UTC(Number(iso.slice(0, 4)), Number(iso.slice(5, 7)) - 1, Number(iso.slice(8, 10)));
+  return Math.round((ms - Date.UTC(1899, 11, 30)) / 86400000);
+}
+
+function valueNumFmt({ decimals, suffix }: XlsxValueFormat) {
+  const base = decimals > 0 ? `#,##0.${"0".repeat(decimals)}` : "#,##0";
+  return suffix ? `${base}"${suffix.replace(/"/g, "")}"` : base;
+}
+
+function stylesXml(value: XlsxValueFormat) {
+  const pct = '+0.00"%";-0.00"%";0.00"%"';
+  const font = (color?: string, bold = false) =>
+    `<font>${bold ? "<b/>" : ""}<sz val="11"/>${color ? `<color rgb="FF${color}"/>` : ""}<name val="Calibri"/></font>`;
+  return (
+    XML_HEAD +
+    `<styleSheet xmlns="${NS_MAIN}">` +
+    `<numFmts count="4">` +
+    `<numFmt numFmtId="164" formatCode="dd/mm/yyyy"/>` +
+    `<numFmt numFmtId="165" formatCode="${escapeXml(valueNumFmt(value))}"/>` +
+    `<numFmt numFmtId="166" formatCode="${escapeXml(pct)}"/>` +
+    `<numFmt numFmtId="167" formatCode="${escapeXml('0.0"%"')}"/>` +
+    `</numFmts>` +
+    // 0 default, 1 bold, 2 slate-600, 3 emerald-700, 4 rose-700, 5 slate-500
+    `<fonts count="6">${font()}${font(undefined, true)}${font("475569")}${font("047857")}${font("BE123C")}${font("64748B")}</fonts>` +
+    `<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>` +
+    `<fill><patternFill patternType="solid"><fgColor rgb="FFF8FAFC"/><bgColor indexed="64"/></patternFill></fill></fills>` +
+    `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+    `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+    `<cellXfs count="9">` +
+    `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+    `<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>` +
+    `<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+    `<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+    `<xf numFmtId="166" fontId="2" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>` +
+    `<xf numFmtId="166" fontId="3" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>` +
+    `<xf numFmtId="166" fontId="4" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>` +
+    `<xf numFmtId="0" fontId="5" fillId="0" borderId="0" xfId="0" applyFont="1"/>` +
+    `<xf numFmtId="167" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+    `</cellXfs>` +
+    `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>` +
+    `</styleSheet>`
+  );
+}
+
+function cellXml(ref: string, kind: XlsxColumnKind, v: string | number | null) {
+  if (v == null || (typeof v === "number" && !Number.isFinite(v))) {
+    // Missing growth shows as "—" like the tables; other empty cells are left out
+    return kind === "pct" ? `<c r="${ref}" s="${STYLE.pctNone}" t="inlineStr"><is><t>—</t></is></c>` : "";
+  }
+  if (kind === "date" && typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    return `<c r="${ref}" s="${STYLE.date}"><v>${excelSerial(v)}</v></c>`;
+  }
+  if (typeof v === "number") {
+    const s =
+      kind === "pct"
+        ? v > 0
+          ? STYLE.pctUp
+          : v < 0
+            ? STYLE.pctDown
+            : STYLE.pctZero
+        : kind === "value"
+          ? STYLE.value
+          : kind === "share"
+            ? STYLE.share
+            : STYLE.text;
+    return `<c r="${ref}" s="${s}"><v>${v}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(v)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet) {
+  const cols = sheet.columns
+    .map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? Math.max(12, c.header.length + 4)}" customWidth="1"/>`)
+    .join("");
+  const header =
+    `<row r="1">` +
+    sheet.columns
+      .map((c, i) => `<c r="${colName(i)}1" s="${STYLE.header}" t="inlineStr"><is><t>${escapeXml(c.header)}</t></is></c>`)
+      .join("") +
+    `</row>`;
+  const body = sheet.rows
+    .map((row, r) => {
+      const n = r + 2;
+      return `<row r="${n}">${sheet.columns.map((c, i) => cellXml(`${colName(i)}${n}`, c.kind, row[i] ?? null)).join("")}</row>`;
+    })
+    .join("");
+  return (
+    XML_HEAD +
+    `<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+    `<cols>${cols}</cols>` +
+    `<sheetData>${header}${body}</sheetData>` +
+    `</worksheet>`
+  );
+}
+
+/* -----------------------------
+   ZIP (store only)
+----------------------------- */
+
+// 1980-01-01, the earliest DOS date; entries carry no real timestamp
+const DOS_DATE = (1 << 5) | 1;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipStore(files: Array<{ name: string; text: string }>) {
+  const enc = new TextEncoder();
+  const chunks: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let offset = 0;
+  let cdSize = 0;
+
+  for (const f of files) {
+    const name = enc.encode(f.name);
+    const data = enc.encode(f.text);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // store
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const cd = new DataView(new ArrayBuffer(46));
+    cd.setUint32(0, 0x02014b50, true);
+    cd.setUint16(4, 20, true);
+    cd.setUint16(6, 20, true);
+    cd.setUint16(8, 0x0800, true);
+    cd.setUint16(10, 0, true);
+    cd.setUint16(14, DOS_DATE, true);
+    cd.setUint32(16, crc, true);
+    cd.setUint32(20, data.length, true);
+    cd.setUint32(24, data.length, true);
+    cd.setUint16(28, name.length, true);
+    cd.setUint32(42, offset, true);
+    central.push(new Uint8Array(cd.buffer), name);
+    cdSize += 46 + name.length;
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, cdSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+export function buildXlsx(sheets: XlsxSheet[], value: XlsxValueFormat) {
+  if (!sheets.length) throw new Error("Workbook needs at least one sheet.");
+
+  const sheetEntries = sheets
+    .map((s, i) => `<sheet name="${escapeXml(s.name.slice(0, 31))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+    .join("");
+  const sheetRels = sheets
+    .map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    )
+    .join("");
+  const sheetTypes = sheets
+    .map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("");
+
+  return zipStore([
+    {
+      name: "[Content_Types].xml",
+      text:
+        XML_HEAD +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        sheetTypes +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      text:
+        XML_HEAD +
+        `<Relationships xmlns="${NS_PKG_REL}">` +
+        `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      text: XML_HEAD + `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>${sheetEntries}</sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      text:
+        XML_HEAD +
+        `<Relationships xmlns="${NS_PKG_REL}">` +
+        sheetRels +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/>` +
+        `</Relationships>`,
+    },
+    { name: "xl/styles.xml", text: stylesXml(value) },
+    ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, text: sheetXml(s) })),
+  ]);
+}